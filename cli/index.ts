@@ -0,0 +1,326 @@
+// 命令行入口：在不打开浏览器的情况下批量处理结案评论数据
+// 用法：
+//   npm run cli -- expand <文件.txt...> [--out-dir <目录>] [--dialect tsv|csv|hive] [--encoding <编码>]
+//   npm run cli -- aggregate <文件.xlsx...> [--out-dir <目录>] [--sheet <工作表>...] [--format <格式>] [--dropped] [聚合规则]
+//   npm run cli -- parity [语料目录]
+import { readFile, readdir, writeFile, mkdir } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { parseArgs } from 'node:util';
+import * as XLSX from 'xlsx';
+import {
+  AGGREGATION_PRESETS,
+  buildAnnotationFileName,
+  buildAnnotationWorkbook,
+  buildDiagnosticsCsv,
+  buildDiagnosticsFileName,
+  buildDroppedFiles,
+  buildOutputData,
+  buildOutputFileName,
+  decodeText,
+  detectEncoding,
+  detectGarbledText,
+  DEFAULT_SPLIT_RULES,
+  DIALECT_PRESETS,
+  findParityMismatch,
+  getUnmappedColumns,
+  hasParseIssues,
+  inspectRawText,
+  inspectWorkbook,
+  needsColumnMapping,
+  OUTPUT_FORMATS,
+  processRawText,
+  readAnnotatedSheets,
+  runParityCase,
+  suggestColumnMapping,
+  TEXT_ENCODINGS,
+  transformAndAggregate,
+  validateAggregationRules,
+  validateSplitRules
+} from '../src/core';
+import type {
+  AggregationPresetId,
+  AggregationRules,
+  CommentSplitRules,
+  Dialect,
+  DialectPresetId,
+  OutputFormat,
+  ParityCase,
+  TextEncodingId
+} from '../src/core';
+
+const USAGE = `用法：
+  npm run cli -- expand <文件.txt...> [--out-dir <目录>]     TXT → 待标注 Excel
+        [--dialect tsv|csv|hive]                            TXT 格式，默认自动识别
+        [--encoding utf-8|utf-16le|utf-16be|gb18030]        TXT 编码，默认自动识别
+  npm run cli -- aggregate <文件.xlsx...> [--out-dir <目录>] 已标注 Excel → 输出文件
+        [--sheet <工作表>]                                  默认第一个工作表；可重复指定多个，合并输出
+        [--format csv|csv-gb18030|tsv|xlsx|json|jsonl]      输出格式，默认 csv（UTF-8 BOM）
+        [--preset default|cid|partTime]                     聚合规则预设，默认 default
+        [--group-by <列,列>]                                分组列，默认 sentiment_tag,opinion
+        [--sum <列>] [--mean <列>]                          组内求和 / 求平均的列，可重复指定；其他列取第一行
+        [--min-kept <数量>]                                 tf 总和不少于该值的组才输出，默认 1
+        [--dropped]                                         另外输出被过滤的组，以及含 kept / dropped 工作表的 xlsx
+  npm run cli -- parity [语料目录]                          与 pandas 输出逐字节对照，默认 fixtures/pandas-parity
+
+评论拆分/合并规则（两个命令通用，默认按 $ 拆分与连接）：
+  --split <分隔符> | --split-regex <正则>  --join <连接符>  --escape <转义字符>  --drop-empty`;
+
+// 列名不符合要求时按内置别名自动映射；仍有无法匹配的列则报错
+const resolveMapping = (columns: string[], allowMissingTf: boolean) => {
+  if (!needsColumnMapping(columns, allowMissingTf)) return undefined;
+  const mapping = suggestColumnMapping(columns);
+  const unmapped = getUnmappedColumns(mapping, allowMissingTf ? ['tf'] : []);
+  if (unmapped.length > 0) {
+    throw new Error(`无法自动匹配以下列：${unmapped.join(', ')}\n文件列名：${columns.join(', ')}`);
+  }
+  return mapping;
+};
+
+type CommandOptions = {
+  dialect?: Dialect;
+  encoding?: TextEncodingId;
+  splitRules: CommentSplitRules;
+  sheetNames: string[];
+  format: OutputFormat;
+  aggregationRules: AggregationRules;
+  dropped: boolean;
+};
+
+// 检查列名时读取的字符数
+const INSPECT_CHARS = 256 * 1024;
+
+// TXT → 展开后的待标注 xlsx
+const expandFile = async (inputPath: string, outDir: string, { dialect, encoding, splitRules }: CommandOptions) => {
+  const bytes = await readFile(inputPath);
+  const resolvedEncoding = encoding ?? detectEncoding(bytes);
+  const text = decodeText(bytes, resolvedEncoding);
+  if (detectGarbledText(text.slice(0, 64 * 1024)).garbled) {
+    console.warn(`⚠ ${inputPath}：按 ${TEXT_ENCODINGS[resolvedEncoding]} 解码后疑似乱码，可用 --encoding 指定编码`);
+  }
+  const fileName = path.basename(inputPath);
+  // 列名与格式只需读取文件开头的一部分（丢弃被截断的最后一行），避免整份文件解析两次
+  const head = text.length > INSPECT_CHARS ? text.slice(0, text.lastIndexOf('\n', INSPECT_CHARS) + 1) : text;
+  const inspection = inspectRawText(head || text, 0, dialect);
+  const mapping = resolveMapping(inspection.columns, true);
+  const { tableData, diagnostics } = processRawText(text, fileName, {
+    mapping,
+    dialect: inspection.dialect,
+    splitRules
+  });
+
+  const workbook = buildAnnotationWorkbook(tableData);
+  const outputPath = path.join(outDir, buildAnnotationFileName(fileName));
+  await writeFile(outputPath, XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' }));
+
+  // 列数与表头不一致的行不会进入待标注文件，另行输出诊断报告
+  if (hasParseIssues(diagnostics)) {
+    const diagnosticsPath = path.join(outDir, buildDiagnosticsFileName(fileName));
+    await writeFile(diagnosticsPath, buildDiagnosticsCsv(diagnostics), 'utf8');
+    if (diagnostics.rejected.length > 0) {
+      console.warn(`⚠ ${inputPath}：${diagnostics.rejected.length} 行列数与表头不一致，已跳过，详见 ${diagnosticsPath}`);
+    }
+    if (diagnostics.multiline.length > 0) {
+      console.warn(`⚠ ${inputPath}：${diagnostics.multiline.length} 条记录的引号内含换行，已合并为一行，详见 ${diagnosticsPath}`);
+    }
+  }
+  return { outputPath, rowCount: tableData.rows.length };
+};
+
+// 已标注 xlsx → 输出文件（默认 CSV）
+const aggregateFile = async (
+  inputPath: string,
+  outDir: string,
+  { splitRules, sheetNames, format, aggregationRules, dropped }: CommandOptions
+) => {
+  const workbook = XLSX.read(await readFile(inputPath), { type: 'buffer', cellNF: true });
+  const mapping = resolveMapping(inspectWorkbook(workbook, 0, sheetNames[0]).columns, false);
+  const { columns, rows } = readAnnotatedSheets(workbook, sheetNames, path.basename(inputPath), mapping);
+  const { renamedData, droppedData, outputColumns, columnDtypes } = transformAndAggregate(
+    rows,
+    columns,
+    undefined,
+    splitRules,
+    aggregationRules
+  );
+
+  const fileName = path.basename(inputPath);
+  const { extension } = OUTPUT_FORMATS[format];
+  const outputPath = path.join(outDir, buildOutputFileName(renamedData, fileName, extension));
+  await writeFile(outputPath, buildOutputData(renamedData, outputColumns, format, columnDtypes));
+
+  const droppedFiles = dropped
+    ? buildDroppedFiles(renamedData, droppedData, outputColumns, fileName, format, columnDtypes)
+    : undefined;
+  if (droppedFiles) {
+    const { droppedFile, keptAndDroppedFile } = droppedFiles;
+    const droppedPath = path.join(outDir, droppedFile.fileName);
+    await writeFile(droppedPath, droppedFile.data);
+    const keptAndDroppedPath = path.join(outDir, keptAndDroppedFile.fileName);
+    await writeFile(keptAndDroppedPath, keptAndDroppedFile.data);
+    console.log(`  被过滤的组（${droppedData.length} 组）→ ${droppedPath}，${keptAndDroppedPath}`);
+  }
+  return { outputPath, rowCount: renamedData.length };
+};
+
+// pandas 对照语料：<用例>.json 为输入（null 表示空单元格），<用例>.csv 为 generate.py 用 pandas 生成的期望输出
+const PARITY_DIR = fileURLToPath(new URL('../fixtures/pandas-parity/', import.meta.url));
+
+const checkParityCase = async (inputPath: string) => {
+  const parityCase: ParityCase = JSON.parse(await readFile(inputPath, 'utf8'));
+  const actual = runParityCase(parityCase, path.basename(inputPath));
+  const expected = await readFile(inputPath.replace(/\.json$/, '.csv'), 'utf8');
+  return findParityMismatch(expected, actual);
+};
+
+const runParity = async (dir: string) => {
+  const cases = (await readdir(dir)).filter(name => name.endsWith('.json')).sort();
+  if (cases.length === 0) {
+    console.error(`✗ ${dir} 中没有对照用例`);
+    return 1;
+  }
+
+  let failed = 0;
+  for (const name of cases) {
+    try {
+      const mismatch = await checkParityCase(path.join(dir, name));
+      if (!mismatch) {
+        console.log(`✓ ${name}`);
+        continue;
+      }
+      failed++;
+      console.error(`✗ ${name}：第 ${mismatch.line} 行与 pandas 输出不一致`);
+      console.error(`  期望：${JSON.stringify(mismatch.expected)}`);
+      console.error(`  实际：${JSON.stringify(mismatch.actual)}`);
+    } catch (err) {
+      failed++;
+      console.error(`✗ ${name}：${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+  return failed > 0 ? 1 : 0;
+};
+
+const COMMANDS = {
+  expand: expandFile,
+  aggregate: aggregateFile
+};
+
+const main = async () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      'out-dir': { type: 'string' },
+      dialect: { type: 'string' },
+      encoding: { type: 'string' },
+      split: { type: 'string' },
+      'split-regex': { type: 'string' },
+      join: { type: 'string' },
+      escape: { type: 'string' },
+      'drop-empty': { type: 'boolean' },
+      sheet: { type: 'string', multiple: true },
+      format: { type: 'string' },
+      preset: { type: 'string' },
+      'group-by': { type: 'string' },
+      sum: { type: 'string', multiple: true },
+      mean: { type: 'string', multiple: true },
+      'min-kept': { type: 'string' },
+      dropped: { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  });
+
+  const [command, ...inputs] = positionals;
+  if (values.help || !command) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (command === 'parity') {
+    return runParity(inputs[0] ?? PARITY_DIR);
+  }
+  if (!(command in COMMANDS) || inputs.length === 0) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  const dialectId = values.dialect;
+  if (dialectId !== undefined && !(dialectId in DIALECT_PRESETS)) {
+    console.error(USAGE);
+    return 2;
+  }
+  const dialect = dialectId ? DIALECT_PRESETS[dialectId as DialectPresetId] : undefined;
+  const encoding = values.encoding;
+  if (encoding !== undefined && !(encoding in TEXT_ENCODINGS)) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  const format = values.format ?? 'csv';
+  if (!(format in OUTPUT_FORMATS)) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  const presetId = values.preset ?? 'default';
+  if (!(presetId in AGGREGATION_PRESETS)) {
+    console.error(USAGE);
+    return 2;
+  }
+  // 在预设的基础上按命令行参数覆盖
+  const preset = AGGREGATION_PRESETS[presetId as AggregationPresetId].rules;
+  const columnAggregations = { ...preset.columnAggregations };
+  for (const col of values.sum ?? []) columnAggregations[col] = 'sum';
+  for (const col of values.mean ?? []) columnAggregations[col] = 'mean';
+  const aggregationRules: AggregationRules = {
+    groupBy: values['group-by']?.split(',').map(col => col.trim()).filter(Boolean) ?? preset.groupBy,
+    columnAggregations,
+    minKeptComments: values['min-kept'] !== undefined ? Number(values['min-kept']) : preset.minKeptComments
+  };
+  const aggregationError = validateAggregationRules(aggregationRules);
+  if (aggregationError) {
+    console.error(`聚合规则有误：${aggregationError}`);
+    return 2;
+  }
+
+  const splitRules: CommentSplitRules = {
+    mode: values['split-regex'] !== undefined ? 'regex' : 'delimiter',
+    delimiter: values.split ?? DEFAULT_SPLIT_RULES.delimiter,
+    pattern: values['split-regex'] ?? '',
+    escape: values.escape ?? '',
+    dropEmpty: values['drop-empty'] ?? false,
+    joinDelimiter: values.join ?? values.split ?? DEFAULT_SPLIT_RULES.joinDelimiter
+  };
+  const { error: rulesError, warning: rulesWarning } = validateSplitRules(splitRules);
+  if (rulesError) {
+    console.error(`评论拆分规则有误：${rulesError}`);
+    return 2;
+  }
+  if (rulesWarning) console.warn(`⚠ ${rulesWarning}`);
+
+  const run = COMMANDS[command as keyof typeof COMMANDS];
+  let failed = 0;
+
+  for (const inputPath of inputs) {
+    // 默认输出到输入文件所在目录，与浏览器下载的文件名一致
+    const outDir = values['out-dir'] ?? path.dirname(inputPath);
+    try {
+      await mkdir(outDir, { recursive: true });
+      const { outputPath, rowCount } = await run(inputPath, outDir, {
+        dialect,
+        encoding: encoding as TextEncodingId | undefined,
+        splitRules,
+        sheetNames: values.sheet ?? [],
+        format: format as OutputFormat,
+        aggregationRules,
+        dropped: values.dropped ?? false
+      });
+      console.log(`✓ ${inputPath} → ${outputPath}（${rowCount} 行）`);
+    } catch (err) {
+      failed++;
+      console.error(`✗ ${inputPath}：${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  return failed > 0 ? 1 : 0;
+};
+
+process.exitCode = await main();
@@ -0,0 +1,49 @@
+"""
+用 pandas 重新生成 pandas-parity 语料的期望输出（<用例>.csv），需要安装 pandas：
+
+    python3 fixtures/pandas-parity/generate.py
+
+这里按原 Python 脚本的聚合逻辑用 pandas 重写，并不是原脚本本身；原脚本的聚合逻辑变化时需同步修改 aggregate()。
+输入 JSON 中的 null 对应 Excel 的空单元格（NaN），整数对应 read_excel 读出的 int（整数值的浮点单元格也会读为 int），
+{"datetime": "2024-01-02 12:00:00"} 对应日期单元格（read_excel 读为 Timestamp）。
+修改用例后重新生成，再用 `npm test` 或 `npm run cli -- parity` 检查网页 / 命令行的输出是否逐字节一致。
+"""
+import json
+from pathlib import Path
+
+import pandas as pd
+
+HERE = Path(__file__).parent
+
+
+def to_cell(value):
+    if isinstance(value, dict):
+        return pd.Timestamp(value['datetime'])
+    return value
+
+
+def read_case(path):
+    case = json.loads(path.read_text(encoding='utf-8'))
+    rows = [[to_cell(value) for value in row] for row in case['rows']]
+    return pd.DataFrame(rows, columns=case['columns'])
+
+
+def aggregate(df):
+    df['tf'] = df['tf'].fillna(0).astype(int)
+    rows = []
+    for _, group in df.groupby(['sentiment_tag', 'opinion'], sort=True):
+        if group['tf'].sum() == 0:
+            continue
+        first = group.iloc[0].copy()
+        first['raw_comments'] = '$'.join(group['raw_comments'].fillna('').astype(str))
+        rows.append(first)
+    # 列类型沿用聚合前的数据
+    result = pd.DataFrame(rows, columns=df.columns).astype(df.dtypes.to_dict())
+    return result.rename(columns={'tf': 'done_time'})
+
+
+if __name__ == '__main__':
+    for path in sorted(HERE.glob('*.json')):
+        output = path.with_suffix('.csv')
+        aggregate(read_case(path)).to_csv(output, index=False, encoding='utf-8-sig', lineterminator='\n')
+        print(f'✓ {path.name} → {output.name}')
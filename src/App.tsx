@@ -2,12 +2,8 @@ import { useState } from 'react';
 import './App.css';
 import RawDataProcessor from './components/RawDataProcessor';
 import AnnotatedDataProcessor from './components/AnnotatedDataProcessor';
-
-type ProcessedTableData = {
-  sourceFileName: string;
-  columns: string[];
-  rows: string[][];
-};
+import type { ProcessedTableData } from './core';
+import { deleteSession, getSessionId } from './storage/sessionStore';
 
 function App() {
   const [currentStep, setCurrentStep] = useState<1 | 2>(1);
@@ -28,6 +24,11 @@ function App() {
   };
 
   const handleResetAll = () => {
+    // 已生成最终文件并确认处理新数据，清除本地保存的标注会话
+    if (processedTableData?.contentHash) {
+      deleteSession(getSessionId(processedTableData.sourceFileName, processedTableData.contentHash))
+        .catch(err => console.warn('删除本地会话失败：', err));
+    }
     setCurrentStep(1);
     setProcessedTableData(null);
     setPreferredMethod('online');
@@ -77,9 +78,10 @@ function App() {
             <p>
               <strong>100% 本地处理：</strong>所有数据处理均在您的浏览器本地完成，文件不会上传到任何服务器。
               我们无法访问、存储或查看您的任何数据。您的隐私得到完全保护。
+              标注进度仅自动保存在您当前浏览器的本地存储（IndexedDB）中，以便刷新后继续标注。
             </p>
             <p className="privacy-detail">
-              ✓ 无服务器上传 &nbsp;&nbsp; ✓ 无数据存储 &nbsp;&nbsp; ✓ 无日志记录 &nbsp;&nbsp; ✓ 完全匿名使用
+              ✓ 无服务器上传 &nbsp;&nbsp; ✓ 无服务器存储 &nbsp;&nbsp; ✓ 无日志记录 &nbsp;&nbsp; ✓ 完全匿名使用
             </p>
           </div>
         </div>
@@ -0,0 +1,143 @@
+import { useMemo, useState } from 'react';
+import * as XLSX from 'xlsx';
+import { buildAggregationAudit, buildAuditFileName, buildAuditWorkbook } from '../core';
+import type { AggregationAudit } from '../core';
+import type { OutputDetails } from '../workers/pipelineClient';
+
+type Props = {
+  // 各输出文件的聚合结果，审计表文件名由输出文件名生成
+  outputs: OutputDetails[];
+};
+
+type StatusFilter = 'all' | 'kept' | 'dropped';
+
+// 页面中最多显示的分组数，完整内容请导出审计表查看
+const MAX_VISIBLE_GROUPS = 200;
+
+const AggregationAuditView = ({ outputs }: Props) => {
+  const [selected, setSelected] = useState(0);
+  const [open, setOpen] = useState(false);
+  const current = outputs[Math.min(selected, outputs.length - 1)];
+  // 展开时才为当前选中的输出文件生成核对结果
+  const audit = useMemo(() => {
+    if (!open || !current) return null;
+    const { groupSummaries, aggregationRules, columns, deletedRows, excludedLines } = current;
+    return buildAggregationAudit(groupSummaries, aggregationRules, columns, deletedRows, excludedLines);
+  }, [open, current]);
+  if (!current) return null;
+
+  return (
+    <details className="split-settings aggregation-audit" onToggle={(e) => setOpen(e.currentTarget.open)}>
+      <summary>
+        输入与输出核对
+        {audit && (
+          <span className="split-settings-default">
+            （{audit.groups.length} 个分组，输出 {audit.groups.filter(group => group.kept).length} 个；
+            第一步删除 {audit.deletedRows.length} 行，解析排除 {audit.excludedLines.length} 行）
+          </span>
+        )}
+      </summary>
+      {audit && (
+        <AuditBody
+          fileName={current.fileName}
+          audit={audit}
+          outputs={outputs}
+          selected={selected}
+          onSelect={setSelected}
+        />
+      )}
+    </details>
+  );
+};
+
+type BodyProps = {
+  fileName: string;
+  audit: AggregationAudit;
+  outputs: OutputDetails[];
+  selected: number;
+  onSelect: (index: number) => void;
+};
+
+const AuditBody = ({ fileName, audit, outputs, selected, onSelect }: BodyProps) => {
+  const [status, setStatus] = useState<StatusFilter>('dropped');
+  const [query, setQuery] = useState('');
+  const keyword = query.trim();
+  const groups = audit.groups.filter(group => {
+    if (status === 'kept' && !group.kept) return false;
+    if (status === 'dropped' && group.kept) return false;
+    return !keyword || group.label.includes(keyword);
+  });
+
+  const exportAudit = () => {
+    XLSX.writeFile(buildAuditWorkbook(audit), buildAuditFileName(fileName));
+  };
+
+  return (
+    <>
+      <div className="split-settings-body">
+        {outputs.length > 1 && (
+          <label className="table-label">
+            输出文件
+            <select className="table-select" value={selected} onChange={(e) => onSelect(Number(e.target.value))}>
+              {outputs.map((o, i) => (
+                <option key={o.fileName} value={i}>{o.fileName}</option>
+              ))}
+            </select>
+          </label>
+        )}
+        <label className="table-label">
+          状态
+          <select className="table-select" value={status} onChange={(e) => setStatus(e.target.value as StatusFilter)}>
+            <option value="dropped">未输出</option>
+            <option value="kept">已输出</option>
+            <option value="all">全部</option>
+          </select>
+        </label>
+        <input
+          className="split-settings-input split-settings-pattern"
+          value={query}
+          placeholder="搜索观点"
+          onChange={(e) => setQuery(e.target.value)}
+        />
+        <button className="secondary-button" onClick={exportAudit}>导出审计表（xlsx）</button>
+      </div>
+
+      <div className="aggregation-audit-table-wrapper">
+        <table className="aggregation-audit-table">
+          <thead>
+            <tr>
+              <th>分组（{audit.groupBy.join(' · ')}）</th>
+              <th>tf 总和</th>
+              <th>行数</th>
+              <th>合并的评论数</th>
+              <th>第一步删除</th>
+              <th>说明</th>
+            </tr>
+          </thead>
+          <tbody>
+            {groups.slice(0, MAX_VISIBLE_GROUPS).map(group => (
+              <tr key={group.values.join('|||')} className={group.kept ? undefined : 'aggregation-audit-dropped'}>
+                <td>{group.label}</td>
+                <td>{group.tfSum}</td>
+                <td>{group.commentCount}</td>
+                <td>{group.joinedCount}</td>
+                <td>{group.deletedCount}</td>
+                <td>{group.explanation}</td>
+              </tr>
+            ))}
+            {groups.length === 0 && (
+              <tr>
+                <td colSpan={6} className="aggregation-audit-empty">没有符合条件的分组</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+      {groups.length > MAX_VISIBLE_GROUPS && (
+        <p className="output-mode-hint">仅显示前 {MAX_VISIBLE_GROUPS} 个分组，完整内容请导出审计表查看</p>
+      )}
+    </>
+  );
+};
+
+export default AggregationAuditView;
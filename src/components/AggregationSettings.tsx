@@ -0,0 +1,169 @@
+import { useState } from 'react';
+import {
+  AGGREGATION_PRESETS,
+  DEFAULT_AGGREGATION_RULES,
+  REQUIRED_COLUMNS,
+  isDefaultAggregationRules,
+  isSameAggregationRules,
+  validateAggregationRules
+} from '../core';
+import type { AggregationPresetId, AggregationRules, ColumnAggregation } from '../core';
+import {
+  deleteAggregationPreset,
+  loadAggregationPresets,
+  saveAggregationPreset
+} from '../storage/aggregationPresetStore';
+
+type Props = {
+  rules: AggregationRules;
+  onChange: (rules: AggregationRules) => void;
+};
+
+// raw_comments 固定合并，tf 固定取第一行并重命名为 done_time，其余列可作为分组列或设置取值方式
+const CONFIGURABLE_COLUMNS = REQUIRED_COLUMNS.filter(col => col !== 'raw_comments' && col !== 'tf');
+
+const AGGREGATION_LABELS: Record<ColumnAggregation, string> = {
+  first: '取第一行',
+  sum: '求和',
+  mean: '求平均'
+};
+
+const AggregationSettings = ({ rules, onChange }: Props) => {
+  const [savedPresets, setSavedPresets] = useState(loadAggregationPresets);
+  const [presetName, setPresetName] = useState('');
+  const error = validateAggregationRules(rules);
+
+  // 当前规则对应的预设（内置预设以 builtin: 开头，保存的预设以 saved: 开头）
+  const builtinId = (Object.keys(AGGREGATION_PRESETS) as AggregationPresetId[])
+    .find(id => isSameAggregationRules(AGGREGATION_PRESETS[id].rules, rules));
+  const saved = savedPresets.find(preset => isSameAggregationRules(preset.rules, rules));
+  const presetValue = builtinId ? `builtin:${builtinId}` : saved ? `saved:${saved.name}` : '';
+
+  const selectPreset = (value: string) => {
+    if (value.startsWith('builtin:')) {
+      onChange(AGGREGATION_PRESETS[value.slice('builtin:'.length) as AggregationPresetId].rules);
+    } else if (value.startsWith('saved:')) {
+      const preset = savedPresets.find(p => p.name === value.slice('saved:'.length));
+      if (preset) onChange(preset.rules);
+    }
+  };
+
+  const toggleGroupColumn = (col: string) => {
+    const selected = rules.groupBy.includes(col) ? rules.groupBy.filter(c => c !== col) : [...rules.groupBy, col];
+    // 分组列保持表格中的列顺序，同一列不再参与求和 / 求平均
+    const columnAggregations = { ...rules.columnAggregations };
+    delete columnAggregations[col];
+    onChange({
+      ...rules,
+      groupBy: CONFIGURABLE_COLUMNS.filter(c => selected.includes(c)),
+      columnAggregations
+    });
+  };
+
+  const setColumnAggregation = (col: string, aggregation: ColumnAggregation) => {
+    const columnAggregations = { ...rules.columnAggregations };
+    if (aggregation === 'first') delete columnAggregations[col];
+    else columnAggregations[col] = aggregation;
+    onChange({ ...rules, columnAggregations });
+  };
+
+  const savePreset = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    setSavedPresets(saveAggregationPreset(name, rules));
+    setPresetName('');
+  };
+
+  return (
+    <details className="split-settings aggregation-settings">
+      <summary>
+        聚合规则
+        {isDefaultAggregationRules(rules) && (
+          <span className="split-settings-default">（默认：按 sentiment_tag + opinion 分组，输出 tf 总和 &gt; 0 的组）</span>
+        )}
+      </summary>
+
+      <div className="split-settings-body">
+        <label className="table-label">
+          预设
+          <select className="table-select" value={presetValue} onChange={(e) => selectPreset(e.target.value)}>
+            {!presetValue && <option value="">自定义</option>}
+            {(Object.keys(AGGREGATION_PRESETS) as AggregationPresetId[]).map(id => (
+              <option key={id} value={`builtin:${id}`}>{AGGREGATION_PRESETS[id].label}</option>
+            ))}
+            {savedPresets.map(preset => (
+              <option key={preset.name} value={`saved:${preset.name}`}>{preset.name}</option>
+            ))}
+          </select>
+        </label>
+        {saved && !builtinId && (
+          <button className="link-button" onClick={() => setSavedPresets(deleteAggregationPreset(saved.name))}>
+            删除该预设
+          </button>
+        )}
+        <label className="table-label">
+          最少保留评论数
+          <input
+            type="number"
+            min={1}
+            className="split-settings-input"
+            value={rules.minKeptComments}
+            title="组内 tf=1 的评论数（tf 总和）不少于该值时输出该组"
+            onChange={(e) => onChange({ ...rules, minKeptComments: Number(e.target.value) })}
+          />
+        </label>
+      </div>
+
+      <div className="aggregation-settings-section">
+        <span className="aggregation-settings-title">分组列</span>
+        {CONFIGURABLE_COLUMNS.map(col => (
+          <label key={col} className="table-label">
+            <input
+              type="checkbox"
+              checked={rules.groupBy.includes(col)}
+              onChange={() => toggleGroupColumn(col)}
+            />
+            {col}
+          </label>
+        ))}
+      </div>
+
+      <div className="aggregation-settings-section">
+        <span className="aggregation-settings-title">其他列</span>
+        {CONFIGURABLE_COLUMNS.filter(col => !rules.groupBy.includes(col)).map(col => (
+          <label key={col} className="table-label">
+            {col}
+            <select
+              className="table-select"
+              value={rules.columnAggregations[col] ?? 'first'}
+              onChange={(e) => setColumnAggregation(col, e.target.value as ColumnAggregation)}
+            >
+              {(Object.keys(AGGREGATION_LABELS) as ColumnAggregation[]).map(aggregation => (
+                <option key={aggregation} value={aggregation}>{AGGREGATION_LABELS[aggregation]}</option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+
+      <div className="split-settings-body">
+        <input
+          className="split-settings-input split-settings-pattern"
+          value={presetName}
+          placeholder="预设名称，如 月度报表"
+          onChange={(e) => setPresetName(e.target.value)}
+        />
+        <button className="secondary-button" disabled={!presetName.trim() || !!error} onClick={savePreset}>
+          保存为预设
+        </button>
+        {!isDefaultAggregationRules(rules) && (
+          <button className="link-button" onClick={() => onChange(DEFAULT_AGGREGATION_RULES)}>恢复默认</button>
+        )}
+      </div>
+
+      {error && <p className="split-settings-error">{error}</p>}
+    </details>
+  );
+};
+
+export default AggregationSettings;
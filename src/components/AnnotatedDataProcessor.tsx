@@ -1,14 +1,48 @@
-import { useEffect, useMemo, useState } from 'react';
-import * as XLSX from 'xlsx';
-
-type InputTableData = {
-  sourceFileName: string;
-  columns: string[];
-  rows: string[][];
-};
+import { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  DEFAULT_AGGREGATION_RULES,
+  DEFAULT_OUTPUT_FORMAT,
+  DEFAULT_SPLIT_RULES,
+  OUTPUT_FORMATS,
+  SOURCE_FILE_COLUMN,
+  getDistinctValues,
+  needsColumnMapping,
+  suggestColumnMapping,
+  validateAggregationRules,
+  validateSplitRules
+} from '../core';
+import type {
+  AggregationRules,
+  ColumnInspection,
+  ColumnMapping,
+  CommentSplitRules,
+  OutputFormat,
+  PipelineProgress,
+  ProcessedTableData,
+  SheetSummary
+} from '../core';
+import { loadRememberedAliases, rememberColumnMapping } from '../storage/columnMappingStore';
+import { isCancelledError, runPipelineTask } from '../workers/pipelineClient';
+import type {
+  AggregateOutput,
+  OutputDetails,
+  OutputFile,
+  PipelineTask,
+  SourceAggregateOutput,
+  SourceOutputSummary
+} from '../workers/pipelineClient';
+import ProcessingIndicator from './ProcessingIndicator';
+import ResultsDashboardView from './ResultsDashboardView';
+import ReportGenerator from './ReportGenerator';
+import AggregationAuditView from './AggregationAuditView';
+import type { ProgressState } from './ProcessingIndicator';
+import AggregationSettings from './AggregationSettings';
+import ColumnMappingDialog from './ColumnMappingDialog';
+import CommentSplitSettings from './CommentSplitSettings';
+import SheetSelector from './SheetSelector';
 
 type Props = {
-  inputTableData?: InputTableData | null;
+  inputTableData?: ProcessedTableData | null;
   onGoToStep1?: () => void;
   preferredMethod?: 'online' | 'offline';
   onResetAll?: () => void;
@@ -18,81 +52,18 @@ interface ProcessResult {
   fileName: string;
   rowCount: number;
   groupCount: number;
+  // 被过滤（tf 总和不足）的组数
+  droppedCount: number;
+  // 合并输出且有被过滤的组时，被过滤的组与「保留与过滤」xlsx 两个附加文件（按来源分别输出时已打包在 zip 中）
+  extraFiles?: OutputFile[];
+  // 按来源文件分别输出时，zip 中各输出文件的统计
+  outputs?: SourceOutputSummary[];
+  // 结果汇总、结案报告与审计所需的数据（按来源分别输出时每个输出文件一份），查看时再生成
+  details: OutputDetails[];
 }
 
-interface DataRow {
-  sentiment_tag?: string;
-  opinion?: string;
-  tf?: number | string;
-  raw_comments?: string;
-  [key: string]: any;
-}
-
-const REQUIRED_COLUMNS = [
-  'part_time', 'firstcategoryname', 'name', 'cid', 'sentiment_tag',
-  'begin_time', 'end_time', 'index_', 'opinion', 'score', 'num',
-  'raw_comments', 'tf'
-];
-
-const validateColumns = (columns: string[]) => {
-  if (columns.length !== REQUIRED_COLUMNS.length) {
-    const yourCols = columns.join(', ');
-    const required = REQUIRED_COLUMNS.join(', ');
-    if (columns.length > REQUIRED_COLUMNS.length) {
-      throw new Error(
-        `文件列数错误：文件包含 ${columns.length} 列，但必须恰好包含 13 列。\n\n您的文件列名：\n${yourCols}\n\n要求的 13 列：\n${required}\n\n❗ 操作建议：请删除不符合要求的列，确保文件仅包含上述 13 列。`
-      );
-    }
-    throw new Error(
-      `文件列数错误：文件仅包含 ${columns.length} 列，但必须包含 13 列。\n\n您的文件列名：\n${yourCols}\n\n要求的 13 列：\n${required}\n\n❗ 操作建议：请补充缺失的列。`
-    );
-  }
-
-  for (let i = 0; i < REQUIRED_COLUMNS.length; i++) {
-    if (columns[i] !== REQUIRED_COLUMNS[i]) {
-      const actualColName = columns[i] || '(空)';
-      let errorMsg = `第 ${i + 1} 列错误：\n期望列名：${REQUIRED_COLUMNS[i]}\n实际列名：${actualColName}\n\n`;
-
-      if (!columns[i]) {
-        errorMsg += `❗ 操作建议：第 ${i + 1} 列的标题为空，请在该列的首行（标题行）输入列名 "${REQUIRED_COLUMNS[i]}"\n\n`;
-      } else {
-        errorMsg += `❗ 操作建议：请将第 ${i + 1} 列的标题修改为 "${REQUIRED_COLUMNS[i]}"\n\n`;
-      }
-
-      errorMsg += `完整的列要求（按顺序）：\n${REQUIRED_COLUMNS.join(', ')}`;
-      throw new Error(errorMsg);
-    }
-  }
-};
-
-const toBaseName = (fileName: string) => {
-  return fileName.replace(/\.[^.]+$/, '');
-};
-
-const getActualColumnsFromWorksheet = (worksheet: XLSX.WorkSheet) => {
-  const range = XLSX.utils.decode_range(worksheet['!ref'] || 'A1');
-  const actualColumns: string[] = [];
-  for (let col = range.s.c; col <= range.e.c; col++) {
-    const cellAddress = XLSX.utils.encode_cell({ r: range.s.r, c: col });
-    const cell = worksheet[cellAddress];
-    if (cell && cell.v) {
-      actualColumns.push(String(cell.v).toLowerCase().trim());
-    } else {
-      actualColumns.push('');
-    }
-  }
-  return actualColumns;
-};
-
-const normalizeTf = (v: unknown) => {
-  if (v === null || v === undefined) return 0;
-  if (typeof v === 'number') return Number.isFinite(v) ? v : 0;
-  const s = String(v).trim();
-  if (s === '') return 0;
-  if (s === '0') return 0;
-  if (s === '1') return 1;
-  throw new Error(`tf 列仅支持 0 或 1，发现非法值：${s}`);
-};
+// combined：所有来源合并输出一个文件；perSource：每个来源文件一个输出文件，打包为 zip
+type OutputMode = 'combined' | 'perSource';
 
 const AnnotatedDataProcessor = ({ inputTableData, onGoToStep1, preferredMethod = 'online', onResetAll }: Props) => {
   const [file, setFile] = useState<File | null>(null);
@@ -107,6 +78,19 @@ const AnnotatedDataProcessor = ({ inputTableData, onGoToStep1, preferredMethod =
 
   const [downloadUrl, setDownloadUrl] = useState<string | null>(null);
   const [downloadFileName, setDownloadFileName] = useState<string | null>(null);
+  const [progress, setProgress] = useState<ProgressState>({});
+  // 默认沿用第一步拆分评论的规则，保证合并结果可按同样规则拆回
+  const [splitRules, setSplitRules] = useState<CommentSplitRules>(inputTableData?.splitRules ?? DEFAULT_SPLIT_RULES);
+  const [aggregationRules, setAggregationRules] = useState<AggregationRules>(DEFAULT_AGGREGATION_RULES);
+  const [outputMode, setOutputMode] = useState<OutputMode>('combined');
+  const [outputFormat, setOutputFormat] = useState<OutputFormat>(DEFAULT_OUTPUT_FORMAT);
+  const [sheets, setSheets] = useState<SheetSummary[] | null>(null); // 上传的 Excel 中的工作表
+  const [selectedSheets, setSelectedSheets] = useState<string[]>([]);
+  const [pendingMapping, setPendingMapping] = useState<{
+    inspection: ColumnInspection;
+    initialMapping: ColumnMapping;
+  } | null>(null);
+  const taskRef = useRef<PipelineTask<unknown> | null>(null);
 
   // Toast提示函数
   const showToastMessage = (message: string) => {
@@ -128,20 +112,55 @@ const AnnotatedDataProcessor = ({ inputTableData, onGoToStep1, preferredMethod =
     };
   }, [downloadUrl]);
 
+  // 离开页面时终止仍在运行的后台任务
+  useEffect(() => {
+    return () => taskRef.current?.cancel();
+  }, []);
+
   const inputSummary = useMemo(() => {
     if (!inputTableData) return null;
     return {
       rowCount: inputTableData.rows.length,
-      source: inputTableData.sourceFileName
+      source: inputTableData.sourceFileName,
+      // 第一步批量处理多个文件时，source_file 列中的来源文件数
+      sourceCount: getDistinctValues(inputTableData, SOURCE_FILE_COLUMN).length
     };
   }, [inputTableData]);
 
+  // 按钮与下载文案中的文件类型，如 CSV、XLSX
+  const formatName = OUTPUT_FORMATS[outputFormat].extension.toUpperCase();
+
+  // 使用第一步的数据时，仅在包含多个来源文件时提供按来源输出；上传的 Excel 需读取后才知道
+  const canSplitBySource = selectedMethod === 'offline' || (inputSummary?.sourceCount ?? 0) > 1;
+
+  // 读取上传的 Excel 中的工作表列表；默认选中第一个列名符合要求的工作表
+  useEffect(() => {
+    if (!file) return;
+    const task = runPipelineTask({ type: 'listExcelSheets', file });
+    task.promise
+      .then(list => {
+        setSheets(list);
+        const preferred = list.find(sheet => sheet.rowCount > 0 && !needsColumnMapping(sheet.columns, false)) ?? list[0];
+        setSelectedSheets(preferred ? [preferred.name] : []);
+      })
+      .catch(err => {
+        if (!isCancelledError(err)) setError(`读取工作表失败: ${err instanceof Error ? err.message : String(err)}`);
+      });
+    return () => task.cancel();
+  }, [file]);
+
+  const chooseFile = (nextFile: File) => {
+    setFile(nextFile);
+    setSheets(null);
+    setSelectedSheets([]);
+    setError(null);
+    setResult(null);
+  };
+
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = event.target.files?.[0];
     if (selectedFile && (selectedFile.name.endsWith('.xlsx') || selectedFile.name.endsWith('.xls'))) {
-      setFile(selectedFile);
-      setError(null);
-      setResult(null);
+      chooseFile(selectedFile);
     } else {
       setError('请上传 .xlsx 或 .xls 格式的文件');
     }
@@ -164,9 +183,7 @@ const AnnotatedDataProcessor = ({ inputTableData, onGoToStep1, preferredMethod =
 
     const droppedFile = event.dataTransfer.files?.[0];
     if (droppedFile && (droppedFile.name.endsWith('.xlsx') || droppedFile.name.endsWith('.xls'))) {
-      setFile(droppedFile);
-      setError(null);
-      setResult(null);
+      chooseFile(droppedFile);
     } else {
       setError('请上传 .xlsx 或 .xls 格式的文件');
     }
@@ -180,260 +197,162 @@ const AnnotatedDataProcessor = ({ inputTableData, onGoToStep1, preferredMethod =
     setDownloadFileName(name);
   };
 
-  const generateCsvBlob = (rows: DataRow[], columnOrder: string[]) => {
-    // 手动生成CSV（逗号分隔），完全模拟pandas的to_csv行为
-    
-    const escapeCsvValue = (value: any): string => {
-      // pandas输出CSV时，空值（NaN/None/空字符串）显示为空（不是"null"）
-      if (value === null || value === undefined || value === '') {
-        return '';  // 空值输出为空，pandas的标准行为
-      }
-      
-      if (typeof value === 'number' && isNaN(value)) {
-        return '';
-      }
-      
-      // 对于数值类型，需要处理精度问题
-      if (typeof value === 'number') {
-        const str = value.toString();
-        
-        // 处理科学计数法
-        if (str.includes('e')) {
-          return str;
-        }
-        
-        // 处理JavaScript浮点数精度问题
-        // JavaScript和Python在处理浮点数时可能有微小差异
-        // 策略：如果最后一位是4且倒数第二位是9，尝试截断最后一位
-        const parts = str.split('.');
-        if (parts.length === 2) {
-          const decimalPart = parts[1];
-          const len = decimalPart.length;
-          
-          // 如果小数部分长度>=16，且最后一位可能是精度误差
-          if (len >= 16 && decimalPart[len-1] === '4' && decimalPart[len-2] === '9') {
-            // 截断最后一位
-            return parts[0] + '.' + decimalPart.substring(0, len - 1);
-          }
-        }
-        
-        return str;
-      }
-      
-      const str = String(value);
-      
-      // CSV格式：如果包含逗号、引号或换行符，需要用引号包裹并转义引号
-      if (str.includes(',') || str.includes('"') || str.includes('\n') || str.includes('\r')) {
-        return '"' + str.replace(/"/g, '""') + '"';
-      }
-      return str;
-    };
-    
-    // 生成CSV行，使用逗号分隔
-    const lines: string[] = [];
-    
-    // 表头
-    lines.push(columnOrder.join(','));
-    
-    // 数据行
-    for (const row of rows) {
-      const values = columnOrder.map(col => escapeCsvValue(row[col]));
-      lines.push(values.join(','));
-    }
-    
-    const csv = lines.join('\n') + '\n';  // pandas会在文件末尾添加换行符
-    const BOM = '\uFEFF';
-    return new Blob([BOM + csv], { type: 'text/csv;charset=utf-8;' });
-  };
-
-  const transformAndAggregate = (jsonData: DataRow[], originalColumns: string[]) => {
-    if (jsonData.length === 0) {
-      throw new Error('数据为空');
-    }
-
-    // tf 校验与归一化（确保后续 reduce 不出错）
-    for (let i = 0; i < jsonData.length; i++) {
-      const row = jsonData[i];
-      try {
-        row.tf = normalizeTf(row.tf);
-      } catch (e) {
-        throw new Error(`第 ${i + 2} 行（含表头）tf 值错误：${e instanceof Error ? e.message : String(e)}`);
-      }
-    }
-
-    // 模拟pandas的groupby行为
-    // pandas的groupby默认sort=True，会对分组键排序
-    const groups = new Map<string, DataRow[]>();
-
-    for (const row of jsonData) {
-      // 构建分组键：严格按照sentiment_tag和opinion的值
-      const sentimentTag = row.sentiment_tag === null || row.sentiment_tag === undefined || row.sentiment_tag === '' ? '' : String(row.sentiment_tag);
-      const opinion = row.opinion === null || row.opinion === undefined || row.opinion === '' ? '' : String(row.opinion);
-      const key = `${sentimentTag}|||${opinion}`;
-      
-      if (!groups.has(key)) {
-        groups.set(key, []);
-      }
-      groups.get(key)!.push(row);
-    }
-
-    // 对分组键排序，模拟pandas的sort=True行为
-    const sortedGroupKeys = Array.from(groups.keys()).sort();
-
-    const newData: DataRow[] = [];
-
-    // 按照排序后的分组键处理
-    for (const key of sortedGroupKeys) {
-      const group = groups.get(key)!;
-      const tfSum = group.reduce((sum, row) => sum + (Number(row.tf) || 0), 0);
-      if (tfSum === 0) continue;
-
-      // 严格按照Python代码：不过滤空值，直接join
-      const rawComments = group
-        .map(row => {
-          const val = row.raw_comments;
-          if (val === null || val === undefined || val === '' || (typeof val === 'number' && isNaN(val))) return '';
-          return String(val);
-        })
-        .join('$');
-
-      // 使用第一行数据，保持所有列的原始值
-      const item = { ...group[0] };
-      item.raw_comments = rawComments;
-      newData.push(item);
-    }
-
-    // 重命名 tf -> done_time，同时保持列的原始顺序
-    const outputColumns = originalColumns.map(col => col === 'tf' ? 'done_time' : col);
-    const renamedData = newData.map(row => {
-      const newRow: any = {};
-      // 按照原始列顺序构建新对象
-      for (const col of originalColumns) {
-        if (col === 'tf') {
-          newRow['done_time'] = row[col];
-        } else {
-          // 保持原始值，包括undefined（后续会转为'null'字符串）
-          newRow[col] = row[col];
-        }
-      }
-      return newRow;
+  const applyAggregateOutput = (output: AggregateOutput) => {
+    const {
+      renamedData,
+      droppedData,
+      groupCount,
+      data,
+      mimeType,
+      outputFileName,
+      droppedFile,
+      keptAndDroppedFile,
+      details
+    } = output;
+
+    const blob = new Blob([data], { type: mimeType });
+
+    setResult({
+      fileName: outputFileName,
+      rowCount: renamedData.length,
+      groupCount,
+      droppedCount: droppedData.length,
+      extraFiles: droppedFile && keptAndDroppedFile ? [droppedFile, keptAndDroppedFile] : undefined,
+      details: [details]
     });
-
-    return { renamedData, groupCount: groups.size, outputColumns };
-  };
-
-  const processFromFile = async (f: File) => {
-    const arrayBuffer = await f.arrayBuffer();
-    const workbook = XLSX.read(arrayBuffer, { type: 'array' });
-
-    const firstSheetName = workbook.SheetNames[0];
-    const worksheet = workbook.Sheets[firstSheetName];
-
-    const actualColumns = getActualColumnsFromWorksheet(worksheet);
-    validateColumns(actualColumns);
-
-    // 读取原始数据
-    // 注意：XLSX库对空单元格的处理与pandas不同
-    const jsonData: DataRow[] = XLSX.utils.sheet_to_json(worksheet, {
-      raw: false,  // 使用格式化值
-      defval: null // 先设为null，方便检测
-    });
-    if (jsonData.length === 0) throw new Error('Excel 文件为空');
-    
-    // 手动处理：确保所有列都存在，空单元格设为空字符串（模拟pandas的NaN）
-    // 这样在CSV输出时就是真正的空，而不是"null"字符串
-    for (const row of jsonData) {
-      for (const col of actualColumns) {
-        const value = row[col];
-        // 关键：将null、undefined、空字符串、字符串"null"都转为空字符串
-        if (value === null || value === undefined || value === '' || value === 'null') {
-          row[col] = '';  // 设为空字符串，CSV输出时就是空
-        }
-      }
-    }
-    
-    // 调试：打印前3行数据
-    console.log('读取的Excel数据（前3行）：', jsonData.slice(0, 3));
-    console.log('firstcategoryname字段值:', jsonData.slice(0, 3).map(r => `'${r.firstcategoryname}'`));
-
-    const { renamedData, groupCount, outputColumns } = transformAndAggregate(jsonData, actualColumns);
-
-    // 调试：打印处理后的数据
-    console.log('分组后的数据（前3行）：', renamedData.slice(0, 3));
-    console.log('输出列顺序：', outputColumns);
-
-    const blob = generateCsvBlob(renamedData, outputColumns);
-    
-    // 获取第二行第一列的内容作为文件名前缀
-    const prefix = renamedData.length > 0 ? String(Object.values(renamedData[0])[0] || '') : '';
-    const baseFileName = toBaseName(f.name);
-    const outputFileName = prefix ? `${prefix}-${baseFileName}-输出.csv` : `${baseFileName}-输出.csv`;
-
-    setResult({ fileName: outputFileName, rowCount: renamedData.length, groupCount });
     setDownload(URL.createObjectURL(blob), outputFileName);
     
     // 显示toast提示
     showToastMessage('✅ 处理完成！');
   };
 
-  const processFromInputTable = async (t: InputTableData) => {
-    const columns = t.columns.map(c => String(c).toLowerCase().trim());
-    validateColumns(columns);
-
-    const tfIndex = columns.indexOf('tf');
-    if (tfIndex < 0) {
-      throw new Error('缺少 tf 列');
-    }
-
-    const jsonData: DataRow[] = t.rows.map((row) => {
-      const obj: any = {};
-      for (let i = 0; i < columns.length; i++) {
-        obj[columns[i]] = row[i];
-      }
-      return obj;
+  const applySourceAggregateOutput = (output: SourceAggregateOutput) => {
+    const { outputs, zipData, outputFileName } = output;
+    const blob = new Blob([zipData], { type: 'application/zip' });
+
+    setResult({
+      fileName: outputFileName,
+      rowCount: outputs.reduce((sum, o) => sum + o.rowCount, 0),
+      groupCount: outputs.reduce((sum, o) => sum + o.groupCount, 0),
+      droppedCount: outputs.reduce((sum, o) => sum + o.droppedCount, 0),
+      outputs,
+      details: outputs.map(o => o.details)
     });
-
-    const { renamedData, groupCount, outputColumns } = transformAndAggregate(jsonData, columns);
-
-    const blob = generateCsvBlob(renamedData, outputColumns);
-    
-    // 获取第二行第一列的内容作为文件名前缀
-    const prefix = renamedData.length > 0 ? String(Object.values(renamedData[0])[0] || '') : '';
-    const baseFileName = toBaseName(t.sourceFileName);
-    const outputFileName = prefix ? `${prefix}-${baseFileName}-输出.csv` : `${baseFileName}-输出.csv`;
-
-    setResult({ fileName: outputFileName, rowCount: renamedData.length, groupCount });
     setDownload(URL.createObjectURL(blob), outputFileName);
-    
-    // 显示toast提示
+
     showToastMessage('✅ 处理完成！');
   };
 
-  const processFile = async () => {
+  const processFile = async (mapping?: ColumnMapping) => {
     // 优先用用户手动上传的文件；否则尝试用来自"原始数据处理"的数据
     if (!file && !inputTableData) {
       setError('请上传 Excel 文件，或先在「原始数据处理」里生成并标注数据');
       return;
     }
 
+    if (file && sheets && selectedSheets.length === 0) {
+      setError('请至少选择一个工作表');
+      return;
+    }
+
+    const rulesError = validateSplitRules(splitRules).error;
+    if (rulesError) {
+      setError(`评论合并规则有误：${rulesError}`);
+      return;
+    }
+
+    const aggregationError = validateAggregationRules(aggregationRules);
+    if (aggregationError) {
+      setError(`聚合规则有误：${aggregationError}`);
+      return;
+    }
+
     setProcessing(true);
     setError(null);
+    setProgress({});
 
+    let task: PipelineTask<unknown> | null = null;
     try {
       setResult(null);
 
-      if (file) {
-        await processFromFile(file);
-      } else if (inputTableData) {
-        await processFromInputTable(inputTableData);
+      // 上传的 Excel 列名不符合要求时，先由用户确认列映射（第二步必须包含 tf 列）
+      if (file && !mapping) {
+        const inspectTask = runPipelineTask({ type: 'inspectExcelFile', file, sheetName: selectedSheets[0] });
+        task = inspectTask;
+        taskRef.current = task;
+        const inspection = await inspectTask.promise;
+        if (needsColumnMapping(inspection.columns, false)) {
+          setPendingMapping({
+            inspection,
+            initialMapping: suggestColumnMapping(inspection.columns, loadRememberedAliases())
+          });
+          return;
+        }
+      }
+
+      // 读取 Excel、分组聚合与生成输出文件均在后台线程中完成
+      const onProgress = (p: PipelineProgress) => setProgress(prev => ({ ...prev, [p.stage]: p }));
+      if (canSplitBySource && outputMode === 'perSource') {
+        const sourceTask = runPipelineTask(
+          file
+            ? {
+              type: 'aggregateFileBySource',
+              file,
+              mapping,
+              splitRules,
+              aggregationRules,
+              sheetNames: selectedSheets,
+              format: outputFormat
+            }
+            : { type: 'aggregateTableBySource', tableData: inputTableData!, splitRules, aggregationRules, format: outputFormat },
+          onProgress
+        );
+        task = sourceTask;
+        taskRef.current = task;
+        applySourceAggregateOutput(await sourceTask.promise);
+        return;
       }
+
+      const aggregateTask = runPipelineTask(
+        file
+          ? {
+            type: 'aggregateFile',
+            file,
+            mapping,
+            splitRules,
+            aggregationRules,
+            sheetNames: selectedSheets,
+            format: outputFormat
+          }
+          : { type: 'aggregateTable', tableData: inputTableData!, splitRules, aggregationRules, format: outputFormat },
+        onProgress
+      );
+      task = aggregateTask;
+      taskRef.current = task;
+      applyAggregateOutput(await aggregateTask.promise);
     } catch (err) {
-      setError(`处理失败: ${err instanceof Error ? err.message : String(err)}`);
+      if (!isCancelledError(err)) {
+        setError(`处理失败: ${err instanceof Error ? err.message : String(err)}`);
+      }
     } finally {
+      if (taskRef.current === task) taskRef.current = null;
       setProcessing(false);
     }
   };
 
+  const confirmColumnMapping = (mapping: ColumnMapping, remember: boolean) => {
+    if (!pendingMapping) return;
+    if (remember) {
+      rememberColumnMapping(pendingMapping.inspection.columns, mapping);
+    }
+    setPendingMapping(null);
+    processFile(mapping);
+  };
+
+  const cancelProcessing = () => {
+    taskRef.current?.cancel();
+  };
+
   const downloadFile = () => {
     if (downloadUrl && downloadFileName) {
       const a = document.createElement('a');
@@ -445,8 +364,23 @@ const AnnotatedDataProcessor = ({ inputTableData, onGoToStep1, preferredMethod =
     }
   };
 
+  const downloadExtraFile = ({ data, mimeType, fileName }: OutputFile) => {
+    const url = URL.createObjectURL(new Blob([data], { type: mimeType }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
   const reset = () => {
+    cancelProcessing();
     setFile(null);
+    setSheets(null);
+    setSelectedSheets([]);
+    setPendingMapping(null);
     setResult(null);
     setError(null);
     setProcessing(false);
@@ -473,7 +407,7 @@ const AnnotatedDataProcessor = ({ inputTableData, onGoToStep1, preferredMethod =
       <div className="step-header">
         <h2 className="step-title">📊 第二步：标注后数据处理</h2>
         <p className="step-description">
-          系统已接收第一步的数据，点击下方按钮即可生成最终的 CSV 文件。
+          系统已接收第一步的数据，点击下方按钮即可生成最终的输出文件（默认 CSV，可在下方选择其他格式）。
         </p>
       </div>
 
@@ -494,8 +428,8 @@ const AnnotatedDataProcessor = ({ inputTableData, onGoToStep1, preferredMethod =
               </button>
             </div>
             {!processing && !result && (
-              <button onClick={processFile} className="primary-action-button" style={{ width: '100%', marginTop: '16px' }}>
-                生成 CSV 文件
+              <button onClick={() => processFile()} className="primary-action-button" style={{ width: '100%', marginTop: '16px' }}>
+                生成 {formatName} 文件
               </button>
             )}
           </div>
@@ -510,7 +444,7 @@ const AnnotatedDataProcessor = ({ inputTableData, onGoToStep1, preferredMethod =
                 上传手动标注的 Excel 文件
               </div>
               <p className="upload-option-description">
-                如果你已在离线完成标注，直接上传 Excel 文件即可生成 CSV
+                如果你已在离线完成标注，直接上传 Excel 文件即可生成输出文件
               </p>
             </div>
           
@@ -564,9 +498,13 @@ const AnnotatedDataProcessor = ({ inputTableData, onGoToStep1, preferredMethod =
               />
             </div>
 
+            {file && !processing && !result && sheets && sheets.length > 1 && (
+              <SheetSelector sheets={sheets} selected={selectedSheets} onChange={setSelectedSheets} />
+            )}
+
             {file && !processing && !result && (
-              <button onClick={processFile} className="primary-action-button" style={{ width: '100%', marginTop: '16px' }}>
-                处理并生成 CSV
+              <button onClick={() => processFile()} className="primary-action-button" style={{ width: '100%', marginTop: '16px' }}>
+                处理并生成 {formatName}
               </button>
             )}
           </div>
@@ -582,6 +520,65 @@ const AnnotatedDataProcessor = ({ inputTableData, onGoToStep1, preferredMethod =
         )}
       </div>
 
+      {!processing && !result && (
+        <div className="output-mode-options">
+          <label className="table-label">
+            输出格式
+            <select
+              className="table-select"
+              value={outputFormat}
+              onChange={(e) => setOutputFormat(e.target.value as OutputFormat)}
+            >
+              {(Object.keys(OUTPUT_FORMATS) as OutputFormat[]).map(format => (
+                <option key={format} value={format}>{OUTPUT_FORMATS[format].label}</option>
+              ))}
+            </select>
+          </label>
+          {outputFormat === 'csv-gb18030' && (
+            <span className="output-mode-hint">适用于不能识别 UTF-8 的旧版 Excel，无法用 GB18030 表示的字符会输出为 ?</span>
+          )}
+          {(outputFormat === 'xlsx' || outputFormat === 'json' || outputFormat === 'jsonl') && (
+            <span className="output-mode-hint">全部为数字的列输出为数值，空值输出为空单元格 / null</span>
+          )}
+        </div>
+      )}
+
+      {!processing && !result && canSplitBySource && (
+        <div className="output-mode-options">
+          <label className="table-label">
+            <input
+              type="radio"
+              checked={outputMode === 'combined'}
+              onChange={() => setOutputMode('combined')}
+            />
+            合并为一个{formatName}文件
+          </label>
+          <label className="table-label">
+            <input
+              type="radio"
+              checked={outputMode === 'perSource'}
+              onChange={() => setOutputMode('perSource')}
+            />
+            每个来源文件一个{formatName}文件（打包为 zip 下载）
+          </label>
+          {selectedMethod === 'offline' && (
+            <span className="output-mode-hint">
+              {selectedSheets.length > 1
+                ? '按来源输出时每个工作表生成一个输出文件'
+                : '按来源输出需要 Excel 中包含第一步批量处理生成的 source_file 列'}
+            </span>
+          )}
+        </div>
+      )}
+
+      {!processing && !result && (
+        <CommentSplitSettings rules={splitRules} scope="join" onChange={setSplitRules} />
+      )}
+
+      {!processing && !result && (
+        <AggregationSettings rules={aggregationRules} onChange={setAggregationRules} />
+      )}
+
       {/* 底部返回按钮 */}
       {!processing && !result && (
         <div className="step2-back-action">
@@ -596,10 +593,7 @@ const AnnotatedDataProcessor = ({ inputTableData, onGoToStep1, preferredMethod =
       )}
 
       {processing && (
-        <div className="processing">
-          <div className="spinner"></div>
-          <p>正在处理文件，请稍候...</p>
-        </div>
+        <ProcessingIndicator progress={progress} onCancel={cancelProcessing} />
       )}
 
       {error && (
@@ -618,11 +612,42 @@ const AnnotatedDataProcessor = ({ inputTableData, onGoToStep1, preferredMethod =
           <div className="result-info">
             <p><strong>输出文件:</strong> {result.fileName}</p>
             <p><strong>原始分组数:</strong> {result.groupCount} 组</p>
-            <p><strong>有效数据行:</strong> {result.rowCount} 行（tf 总和 &gt; 0 的组）</p>
+            <p>
+              <strong>有效数据行:</strong> {result.rowCount} 行
+              {aggregationRules.minKeptComments > 1
+                ? `（tf 总和 ≥ ${aggregationRules.minKeptComments} 的组）`
+                : '（tf 总和 > 0 的组）'}
+            </p>
+            <p>
+              <strong>被过滤的组:</strong> {result.droppedCount} 组
+              {result.droppedCount > 0
+                && (result.outputs ? '（单独输出，已一并打包在 ZIP 中）' : '（单独输出，可在下方下载）')}
+            </p>
+            {result.outputs && (
+              <ul className="source-output-list">
+                {result.outputs.map(o => (
+                  <li key={o.outputFileName}>
+                    {o.outputFileName}（来源 {o.sourceFileName}：{o.groupCount} 组，{o.rowCount} 行）
+                  </li>
+                ))}
+              </ul>
+            )}
           </div>
           <button onClick={downloadFile} className="download-button" disabled={!downloadUrl}>
-            下载 CSV 文件
+            {result.outputs ? '下载 ZIP 文件' : `下载 ${formatName} 文件`}
           </button>
+          {result.extraFiles && (
+            <div className="dropped-downloads">
+              {result.extraFiles.map(extraFile => (
+                <button key={extraFile.fileName} className="secondary-button" onClick={() => downloadExtraFile(extraFile)}>
+                  下载 {extraFile.fileName}
+                </button>
+              ))}
+            </div>
+          )}
+          <ReportGenerator outputs={result.details} />
+          <AggregationAuditView outputs={result.details} />
+          <ResultsDashboardView outputs={result.details} />
           <div className="reset-new-data-action">
             <button onClick={() => setShowResetConfirm(true)} className="reset-new-data-button">
               处理新的评论数据 →
@@ -651,6 +676,19 @@ const AnnotatedDataProcessor = ({ inputTableData, onGoToStep1, preferredMethod =
         </div>
       )}
 
+      {pendingMapping && file && (
+        <ColumnMappingDialog
+          fileName={selectedSheets.length > 1
+            ? `${file.name}（工作表：${selectedSheets[0]}，其他工作表按列名对应）`
+            : selectedSheets.length > 0 ? `${file.name}（工作表：${selectedSheets[0]}）` : file.name}
+          inspection={pendingMapping.inspection}
+          initialMapping={pendingMapping.initialMapping}
+          optionalColumns={[]}
+          onConfirm={confirmColumnMapping}
+          onCancel={() => setPendingMapping(null)}
+        />
+      )}
+
       {/* Toast提示 */}
       {showToast && (
         <div className="toast-notification">
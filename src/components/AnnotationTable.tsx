@@ -0,0 +1,186 @@
+import { useCallback, useEffect, useImperativeHandle, useRef, useState } from 'react';
+import type { ProcessedTableData, RowSort } from '../core';
+
+export type AnnotationTableHandle = {
+  // 返回 false 表示该行不在当前显示的行中（例如被筛选隐藏）
+  scrollToRow: (globalRowIndex: number) => boolean;
+};
+
+type Props = {
+  tableData: ProcessedTableData;
+  // 当前显示的行（全局行索引，已按筛选与排序处理）
+  rowIndices: number[];
+  sort: RowSort | null;
+  onSortChange: (column: string) => void;
+  errorRows: Set<number>;
+  selectedRows: Set<number>;
+  // extendRange 为 true 时（Shift 点击）选中从上次点击行到当前行的范围
+  onToggleRow: (globalRowIndex: number, extendRange: boolean) => void;
+  onSelectAll: (selectAll: boolean) => void;
+  onUpdateTf: (globalRowIndex: number, nextValue: string) => void;
+  onDeleteRow: (globalRowIndex: number) => void;
+  ref?: React.Ref<AnnotationTableHandle>;
+};
+
+// 固定行高，用于计算可视区域内需要渲染的行（与 App.css 中 .virtual-row 保持一致）
+const ROW_HEIGHT = 48;
+// 可视区域上下额外渲染的行数，减少快速滚动时的空白
+const OVERSCAN = 10;
+// 跳转后高亮目标行的时长
+const HIGHLIGHT_DURATION = 1500;
+
+const AnnotationTable = ({
+  tableData,
+  rowIndices,
+  sort,
+  onSortChange,
+  errorRows,
+  selectedRows,
+  onToggleRow,
+  onSelectAll,
+  onUpdateTf,
+  onDeleteRow,
+  ref
+}: Props) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(600);
+  const [highlightRow, setHighlightRow] = useState<number | null>(null);
+
+  const totalRows = rowIndices.length;
+  const tfColumnIndex = tableData.columns.indexOf('tf');
+
+  // 跟随容器尺寸变化更新可视高度
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(() => setViewportHeight(container.clientHeight));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    if (highlightRow === null) return;
+    const timer = setTimeout(() => setHighlightRow(null), HIGHLIGHT_DURATION);
+    return () => clearTimeout(timer);
+  }, [highlightRow]);
+
+  const scrollToRow = useCallback((globalRowIndex: number) => {
+    const container = containerRef.current;
+    const position = rowIndices.indexOf(globalRowIndex);
+    if (!container || position < 0) return false;
+    // 将目标行滚动到可视区域的上方三分之一处
+    container.scrollTop = Math.max(0, position * ROW_HEIGHT - container.clientHeight / 3);
+    setHighlightRow(globalRowIndex);
+    return true;
+  }, [rowIndices]);
+
+  useImperativeHandle(ref, () => ({ scrollToRow }), [scrollToRow]);
+
+  const startIndex = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const endIndex = Math.min(totalRows, Math.ceil((scrollTop + viewportHeight) / ROW_HEIGHT) + OVERSCAN);
+  const topPadding = startIndex * ROW_HEIGHT;
+  const bottomPadding = (totalRows - endIndex) * ROW_HEIGHT;
+
+  const visibleRows = [];
+  for (let position = startIndex; position < endIndex; position++) {
+    const globalIndex = rowIndices[position];
+    const row = tableData.rows[globalIndex];
+    const isErrorRow = errorRows.has(globalIndex);
+    const isSelected = selectedRows.has(globalIndex);
+    const rowClassName = [
+      'virtual-row',
+      isErrorRow ? 'error-row' : '',
+      isSelected ? 'selected-row' : '',
+      highlightRow === globalIndex ? 'jump-target-row' : ''
+    ].filter(Boolean).join(' ');
+
+    visibleRows.push(
+      <tr key={globalIndex} className={rowClassName}>
+        <td className="row-select-col">
+          <input
+            type="checkbox"
+            checked={isSelected}
+            readOnly
+            onClick={(e) => onToggleRow(globalIndex, e.shiftKey)}
+          />
+        </td>
+        <td className="row-number-cell">{globalIndex + 1}</td>
+        {tableData.columns.map((col, colIndex) => {
+          const cellValue = row[colIndex] ?? '';
+
+          if (colIndex === tfColumnIndex) {
+            return (
+              <td key={`${globalIndex}-${col}`}>
+                <input
+                  className={`tf-input ${isErrorRow ? 'tf-input-error' : ''}`}
+                  value={cellValue}
+                  inputMode="numeric"
+                  placeholder="0/1"
+                  onChange={(e) => onUpdateTf(globalIndex, e.target.value)}
+                />
+              </td>
+            );
+          }
+
+          return <td key={`${globalIndex}-${col}`} title={cellValue}>{cellValue}</td>;
+        })}
+        <td className="table-sticky-col">
+          <button
+            className="row-delete-button"
+            onClick={() => onDeleteRow(globalIndex)}
+          >
+            删除
+          </button>
+        </td>
+      </tr>
+    );
+  }
+
+  return (
+    <div
+      className="table-container"
+      ref={containerRef}
+      onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+    >
+      <table className="data-table virtual-table">
+        <thead>
+          <tr>
+            <th className="row-select-col">
+              <input
+                type="checkbox"
+                checked={totalRows > 0 && rowIndices.every(index => selectedRows.has(index))}
+                onChange={(e) => onSelectAll(e.target.checked)}
+              />
+            </th>
+            <th className="row-number-col">行号</th>
+            {tableData.columns.map((col) => (
+              <th key={col} className="sortable-header" onClick={() => onSortChange(col)}>
+                {col}
+                {sort?.column === col && (
+                  <span className="sort-indicator">{sort.direction === 'asc' ? '▲' : '▼'}</span>
+                )}
+              </th>
+            ))}
+            <th className="table-sticky-col">操作</th>
+          </tr>
+        </thead>
+        <tbody>
+          {topPadding > 0 && (
+            <tr className="virtual-spacer" style={{ height: topPadding }}>
+              <td colSpan={tableData.columns.length + 3} />
+            </tr>
+          )}
+          {visibleRows}
+          {bottomPadding > 0 && (
+            <tr className="virtual-spacer" style={{ height: bottomPadding }}>
+              <td colSpan={tableData.columns.length + 3} />
+            </tr>
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default AnnotationTable;
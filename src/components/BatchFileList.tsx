@@ -0,0 +1,106 @@
+import type { ParseDiagnostics } from '../core';
+
+export type BatchFileStatus = 'pending' | 'processing' | 'done' | 'failed';
+
+export type BatchFileEntry = {
+  file: File;
+  status: BatchFileStatus;
+  rowCount?: number;
+  // 列数与表头不一致、未纳入表格的行
+  diagnostics?: ParseDiagnostics;
+  // 预览疑似乱码
+  garbled?: boolean;
+  error?: string;
+};
+
+// merged：合并为一张表（追加 source_file 列）一起标注；sequential：逐个文件依次标注
+export type BatchMode = 'merged' | 'sequential';
+
+type Props = {
+  entries: BatchFileEntry[];
+  mode: BatchMode;
+  // 开始处理后不可再修改文件列表与标注方式
+  locked: boolean;
+  onModeChange: (mode: BatchMode) => void;
+  onRemove: (index: number) => void;
+  onDownloadDiagnostics: (entry: BatchFileEntry) => void;
+};
+
+const STATUS_LABELS: Record<BatchFileStatus, string> = {
+  pending: '等待处理',
+  processing: '处理中...',
+  done: '已完成',
+  failed: '失败'
+};
+
+const BatchFileList = ({ entries, mode, locked, onModeChange, onRemove, onDownloadDiagnostics }: Props) => {
+  const renderStatus = (entry: BatchFileEntry) => {
+    if (entry.status === 'failed') {
+      return <span className="batch-file-error">{STATUS_LABELS.failed}：{entry.error}</span>;
+    }
+    if (entry.status !== 'done') {
+      return <span className="batch-file-pending">{STATUS_LABELS[entry.status]}</span>;
+    }
+
+    const rejectedCount = entry.diagnostics?.rejected.length ?? 0;
+    const multilineCount = entry.diagnostics?.multiline.length ?? 0;
+    return (
+      <span className="batch-file-done">
+        {STATUS_LABELS.done}，{entry.rowCount} 行
+        {entry.garbled && <span className="batch-file-error">，疑似乱码</span>}
+        {(rejectedCount > 0 || multilineCount > 0) && (
+          <>
+            {rejectedCount > 0 && `，排除 ${rejectedCount} 行列数不一致的数据`}
+            {multilineCount > 0 && `，${multilineCount} 条记录跨越多行`}
+            <button className="link-button" onClick={() => onDownloadDiagnostics(entry)}>下载诊断报告</button>
+          </>
+        )}
+      </span>
+    );
+  };
+
+  return (
+    <div className="batch-file-list">
+      <div className="batch-file-list-header">
+        <strong>已选择 {entries.length} 个 TXT 文件</strong>
+        <label className="table-label">
+          <input
+            type="radio"
+            checked={mode === 'merged'}
+            disabled={locked}
+            onChange={() => onModeChange('merged')}
+          />
+          合并为一张表标注（追加 source_file 列）
+        </label>
+        <label className="table-label">
+          <input
+            type="radio"
+            checked={mode === 'sequential'}
+            disabled={locked}
+            onChange={() => onModeChange('sequential')}
+          />
+          逐个文件依次标注
+        </label>
+      </div>
+
+      <ul className="batch-file-items">
+        {entries.map((entry, index) => (
+          <li key={`${entry.file.name}-${index}`} className="batch-file-item">
+            <span className="batch-file-name" title={entry.file.name}>{entry.file.name}</span>
+            <span className="batch-file-size">{(entry.file.size / 1024).toFixed(2)} KB</span>
+            {renderStatus(entry)}
+            {!locked && (
+              <button className="link-button" onClick={() => onRemove(index)}>移除</button>
+            )}
+          </li>
+        ))}
+      </ul>
+      <p className="result-hint">
+        批量处理时自动识别每个文件的格式、编码与列名；列名无法自动匹配的文件会被跳过，请单独上传处理。
+        列数不一致的行默认排除，可下载诊断报告查看。
+      </p>
+    </div>
+  );
+};
+
+export default BatchFileList;
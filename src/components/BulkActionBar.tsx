@@ -0,0 +1,110 @@
+import { useMemo, useState } from 'react';
+import { previewGroups } from '../core';
+import type { ProcessedTableData } from '../core';
+
+type Props = {
+  tableData: ProcessedTableData;
+  selectedRows: Set<number>;
+  // 当前筛选条件下显示的行（全局行索引）
+  visibleRowIndices: number[];
+  isFiltered: boolean;
+  onSelectRows: (rowIndices: number[] | null) => void;
+  onSetTf: (value: '' | '0' | '1') => void;
+  onDeleteSelected: () => void;
+};
+
+const BulkActionBar = ({
+  tableData,
+  selectedRows,
+  visibleRowIndices,
+  isFiltered,
+  onSelectRows,
+  onSetTf,
+  onDeleteSelected
+}: Props) => {
+  const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  // 分组键与排序与第二步的聚合一致
+  const groups = useMemo(() => previewGroups(tableData), [tableData]);
+  const selectedCount = selectedRows.size;
+
+  const selectGroup = (key: string) => {
+    const group = groups.find(g => g.key === key);
+    if (group) onSelectRows(group.rowIndices);
+  };
+
+  const confirmDelete = () => {
+    setShowDeleteConfirm(false);
+    onDeleteSelected();
+  };
+
+  return (
+    <div className="bulk-action-bar">
+      <div className="bulk-action-group">
+        <span className="table-badge">已选择 {selectedCount} 行</span>
+        <button
+          className="link-button"
+          onClick={() => onSelectRows(visibleRowIndices)}
+          disabled={visibleRowIndices.length === 0}
+        >
+          {isFiltered ? `全选筛选结果（${visibleRowIndices.length} 行）` : '全选'}
+        </button>
+        <button className="link-button" onClick={() => onSelectRows(null)} disabled={selectedCount === 0}>
+          取消选择
+        </button>
+        <label className="table-label">
+          按分组选择
+          <select
+            className="table-select"
+            value=""
+            onChange={(e) => selectGroup(e.target.value)}
+          >
+            <option value="" disabled>sentiment_tag / opinion</option>
+            {groups.map(group => (
+              <option key={group.key} value={group.key}>
+                {group.sentimentTag || '(空)'} / {group.opinion || '(空)'}（{group.rowIndices.length} 行）
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="bulk-action-group">
+        <button className="secondary-button" onClick={() => onSetTf('1')} disabled={selectedCount === 0}>
+          设为 tf=1
+        </button>
+        <button className="secondary-button" onClick={() => onSetTf('0')} disabled={selectedCount === 0}>
+          设为 tf=0
+        </button>
+        <button className="secondary-button" onClick={() => onSetTf('')} disabled={selectedCount === 0}>
+          清空 tf
+        </button>
+        <button
+          className="row-delete-button"
+          onClick={() => setShowDeleteConfirm(true)}
+          disabled={selectedCount === 0}
+        >
+          删除所选
+        </button>
+      </div>
+
+      {showDeleteConfirm && (
+        <div className="modal-overlay" onClick={() => setShowDeleteConfirm(false)}>
+          <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+            <h3 className="modal-title">确认删除</h3>
+            <p className="modal-text">确认要删除选中的 {selectedCount} 行吗？</p>
+            <div className="modal-buttons">
+              <button onClick={confirmDelete} className="modal-confirm-button">
+                确认
+              </button>
+              <button onClick={() => setShowDeleteConfirm(false)} className="modal-cancel-button">
+                取消
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BulkActionBar;
@@ -0,0 +1,126 @@
+import { useState } from 'react';
+import { REQUIRED_COLUMNS, getUnmappedColumns } from '../core';
+import type { ColumnInspection, ColumnMapping } from '../core';
+
+type Props = {
+  fileName: string;
+  inspection: ColumnInspection;
+  initialMapping: ColumnMapping;
+  // 允许不映射的标准列（以空值补齐）
+  optionalColumns: string[];
+  onConfirm: (mapping: ColumnMapping, remember: boolean) => void;
+  onCancel: () => void;
+};
+
+const ColumnMappingDialog = ({ fileName, inspection, initialMapping, optionalColumns, onConfirm, onCancel }: Props) => {
+  const [mapping, setMapping] = useState<ColumnMapping>(initialMapping);
+  const [remember, setRemember] = useState(true);
+
+  const { columns, sampleRows } = inspection;
+  const unmapped = getUnmappedColumns(mapping, optionalColumns);
+  const usedIndices = new Set(Object.values(mapping).filter((index): index is number => index !== null));
+  const ignoredColumns = columns
+    .map((name, index) => ({ name, index }))
+    .filter(({ index }) => !usedIndices.has(index));
+
+  const assign = (canonical: string, value: string) => {
+    const index = value === '' ? null : Number(value);
+    setMapping(prev => {
+      const next: ColumnMapping = { ...prev };
+      // 同一源列只能对应一个标准列
+      if (index !== null) {
+        for (const key of Object.keys(next)) {
+          if (next[key] === index) next[key] = null;
+        }
+      }
+      next[canonical] = index;
+      return next;
+    });
+  };
+
+  const getSample = (index: number | null) => {
+    if (index === null) return '';
+    return sampleRows.map(row => row[index] ?? '').find(value => value !== '') ?? '';
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onCancel}>
+      <div className="modal-content column-mapping-modal" onClick={(e) => e.stopPropagation()}>
+        <h3 className="modal-title">列映射</h3>
+        <p className="modal-text">
+          「{fileName}」的列名与要求的格式不一致。请为每个标准列选择对应的源列，未使用的源列将被忽略。
+        </p>
+
+        <div className="column-mapping-table-wrapper">
+          <table className="column-mapping-table">
+            <thead>
+              <tr>
+                <th>标准列</th>
+                <th>源文件中的列</th>
+                <th>示例值</th>
+              </tr>
+            </thead>
+            <tbody>
+              {REQUIRED_COLUMNS.map(canonical => {
+                const index = mapping[canonical] ?? null;
+                const missing = unmapped.includes(canonical);
+                return (
+                  <tr key={canonical} className={missing ? 'column-mapping-missing' : ''}>
+                    <td>
+                      <code>{canonical}</code>
+                      {optionalColumns.includes(canonical) && <span className="column-mapping-optional">可选</span>}
+                    </td>
+                    <td>
+                      <select
+                        className="table-select"
+                        value={index === null ? '' : String(index)}
+                        onChange={(e) => assign(canonical, e.target.value)}
+                      >
+                        <option value="">{optionalColumns.includes(canonical) ? '(无，留空)' : '(未选择)'}</option>
+                        {columns.map((name, i) => (
+                          <option key={i} value={String(i)}>
+                            {name || `(第 ${i + 1} 列，无标题)`}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="column-mapping-sample" title={getSample(index)}>{getSample(index)}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        {ignoredColumns.length > 0 && (
+          <p className="column-mapping-ignored">
+            将被忽略的列：{ignoredColumns.map(({ name, index }) => name || `第 ${index + 1} 列`).join('、')}
+          </p>
+        )}
+        {unmapped.length > 0 && (
+          <p className="column-mapping-error">尚未映射：{unmapped.join('、')}</p>
+        )}
+
+        <label className="column-mapping-remember">
+          <input type="checkbox" checked={remember} onChange={(e) => setRemember(e.target.checked)} />
+          记住此映射（仅保存列名对应关系，下次自动匹配）
+        </label>
+
+        <div className="modal-buttons">
+          <button
+            onClick={() => onConfirm(mapping, remember)}
+            className="modal-confirm-button"
+            disabled={unmapped.length > 0}
+          >
+            按此映射继续
+          </button>
+          <button onClick={onCancel} className="modal-cancel-button">
+            取消
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ColumnMappingDialog;
@@ -0,0 +1,100 @@
+import { DEFAULT_SPLIT_RULES, isDefaultSplitRules, validateSplitRules } from '../core';
+import type { CommentSplitRules } from '../core';
+
+type Props = {
+  rules: CommentSplitRules;
+  // split：第一步拆分 raw_comments；join：第二步合并每组评论
+  scope: 'split' | 'join';
+  onChange: (rules: CommentSplitRules) => void;
+};
+
+const CommentSplitSettings = ({ rules, scope, onChange }: Props) => {
+  const { error, warning } = validateSplitRules(rules);
+
+  const update = (patch: Partial<CommentSplitRules>) => {
+    onChange({ ...rules, ...patch });
+  };
+
+  return (
+    <details className="split-settings">
+      <summary>
+        {scope === 'split' ? '评论拆分规则' : '评论合并规则'}
+        {isDefaultSplitRules(rules) && <span className="split-settings-default">（默认：按 $ 拆分与连接）</span>}
+      </summary>
+
+      <div className="split-settings-body">
+        {scope === 'split' && (
+          <>
+            <label className="table-label">
+              拆分方式
+              <select
+                className="table-select"
+                value={rules.mode}
+                onChange={(e) => update({ mode: e.target.value as CommentSplitRules['mode'] })}
+              >
+                <option value="delimiter">分隔符</option>
+                <option value="regex">正则表达式</option>
+              </select>
+            </label>
+            {rules.mode === 'delimiter' ? (
+              <label className="table-label">
+                分隔符
+                <input
+                  className="split-settings-input"
+                  value={rules.delimiter}
+                  onChange={(e) => update({ delimiter: e.target.value })}
+                />
+              </label>
+            ) : (
+              <label className="table-label">
+                正则
+                <input
+                  className="split-settings-input split-settings-pattern"
+                  value={rules.pattern}
+                  placeholder="如 \$|｜"
+                  onChange={(e) => update({ pattern: e.target.value })}
+                />
+              </label>
+            )}
+          </>
+        )}
+
+        <label className="table-label">
+          {scope === 'split' ? '合并时的连接符' : '连接符'}
+          <input
+            className="split-settings-input"
+            value={rules.joinDelimiter}
+            onChange={(e) => update({ joinDelimiter: e.target.value })}
+          />
+        </label>
+        <label className="table-label">
+          转义字符
+          <input
+            className="split-settings-input"
+            value={rules.escape}
+            placeholder="不转义"
+            disabled={rules.mode === 'regex'}
+            title="如设为 \，则 \$ 表示评论中的 $ 字符而非分隔符"
+            onChange={(e) => update({ escape: e.target.value })}
+          />
+        </label>
+        <label className="table-label">
+          <input
+            type="checkbox"
+            checked={rules.dropEmpty}
+            onChange={(e) => update({ dropEmpty: e.target.checked })}
+          />
+          丢弃空评论
+        </label>
+        {!isDefaultSplitRules(rules) && (
+          <button className="link-button" onClick={() => onChange(DEFAULT_SPLIT_RULES)}>恢复默认</button>
+        )}
+      </div>
+
+      {error && <p className="split-settings-error">{error}</p>}
+      {!error && warning && <p className="split-settings-warning">{warning}</p>}
+    </details>
+  );
+};
+
+export default CommentSplitSettings;
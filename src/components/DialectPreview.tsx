@@ -0,0 +1,112 @@
+import { DIALECT_PRESETS, TEXT_ENCODINGS, getDialectPresetId } from '../core';
+import type { Dialect, DialectPresetId, TextEncodingId } from '../core';
+import type { RawFileInspection } from '../workers/pipelineClient';
+
+type Props = {
+  preview: RawFileInspection | null;
+  // 用户手动指定的格式与编码；null 表示自动识别
+  override: Dialect | null;
+  encodingOverride: TextEncodingId | null;
+  error: string | null;
+  onChange: (dialect: Dialect | null) => void;
+  onEncodingChange: (encoding: TextEncodingId | null) => void;
+};
+
+const describeDialect = (dialect: Dialect) => {
+  const presetId = getDialectPresetId(dialect);
+  const name = presetId ? DIALECT_PRESETS[presetId].label : '自定义分隔符';
+  return `${name}，${dialect.quoted ? '处理双引号' : '不处理引号'}`;
+};
+
+const DialectPreview = ({ preview, override, encodingOverride, error, onChange, onEncodingChange }: Props) => {
+  const current = override ?? preview?.dialect ?? null;
+
+  const handlePresetChange = (value: string) => {
+    if (value === 'auto') {
+      onChange(null);
+      return;
+    }
+    const { delimiter, quoted } = DIALECT_PRESETS[value as DialectPresetId];
+    onChange({ delimiter, quoted });
+  };
+
+  return (
+    <div className="dialect-preview">
+      <div className="dialect-controls">
+        <label className="table-label">
+          编码
+          <select
+            className="table-select"
+            value={encodingOverride ?? 'auto'}
+            onChange={(e) => onEncodingChange(e.target.value === 'auto' ? null : e.target.value as TextEncodingId)}
+          >
+            <option value="auto">
+              自动识别{!encodingOverride && preview ? `（${TEXT_ENCODINGS[preview.encoding]}）` : ''}
+            </option>
+            {Object.entries(TEXT_ENCODINGS).map(([id, label]) => (
+              <option key={id} value={id}>{label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="table-label">
+          文件格式
+          <select
+            className="table-select"
+            value={override ? (getDialectPresetId(override) ?? 'auto') : 'auto'}
+            onChange={(e) => handlePresetChange(e.target.value)}
+          >
+            <option value="auto">自动识别</option>
+            {Object.entries(DIALECT_PRESETS).map(([id, preset]) => (
+              <option key={id} value={id}>{preset.label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="table-label">
+          <input
+            type="checkbox"
+            checked={current?.quoted ?? false}
+            disabled={!current}
+            onChange={(e) => current && onChange({ delimiter: current.delimiter, quoted: e.target.checked })}
+          />
+          字段可能被双引号包裹（可包含分隔符与换行）
+        </label>
+        {!override && preview && (
+          <span className="dialect-detected">已识别为：{describeDialect(preview.dialect)}</span>
+        )}
+      </div>
+
+      {preview?.garbled.garbled && (
+        <div className="dialect-warning">
+          ⚠️ 预览内容疑似乱码（当前按 {TEXT_ENCODINGS[preview.encoding]} 解码）。
+          请尝试切换编码（Windows 工具导出的文件通常为 GBK），确认中文显示正常后再开始处理，以免标注乱码数据。
+        </div>
+      )}
+      {error && <p className="dialect-error">预览失败：{error}</p>}
+      {!error && !preview && <p className="dialect-loading">正在读取文件预览...</p>}
+
+      {preview && (
+        <div className="dialect-preview-table-wrapper">
+          <table className="dialect-preview-table">
+            <thead>
+              <tr>
+                {preview.columns.map((col, i) => <th key={i}>{col || '(空)'}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {preview.sampleRows.map((row, r) => (
+                <tr key={r}>
+                  {row.map((cell, c) => <td key={c} title={cell}>{cell}</td>)}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {preview.sampleRows.length === 0 && (
+            <p className="dialect-error">未解析出任何数据行，请检查文件格式是否选择正确</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DialectPreview;
@@ -0,0 +1,212 @@
+import { useMemo, useState } from 'react';
+import { findDuplicateGroups } from '../core';
+import type { DuplicateGroup, ProcessedTableData } from '../core';
+
+type Props = {
+  tableData: ProcessedTableData;
+  onCollapse: (groups: DuplicateGroup[], acrossOpinions?: boolean) => void;
+  onSyncLabels: (groups: DuplicateGroup[], value?: '0' | '1') => void;
+  onLocateRow: (globalRowIndex: number) => void;
+};
+
+type MatchFilter = 'all' | 'exact' | 'near';
+type ScopeFilter = 'all' | 'within' | 'cross';
+
+// 每次显示的重复组数
+const GROUPS_PAGE_SIZE = 50;
+
+const DuplicateReviewView = ({ tableData, onCollapse, onSyncLabels, onLocateRow }: Props) => {
+  const [expandedKey, setExpandedKey] = useState<string | null>(null);
+  const [visibleCount, setVisibleCount] = useState(GROUPS_PAGE_SIZE);
+  const [matchFilter, setMatchFilter] = useState<MatchFilter>('all');
+  const [scopeFilter, setScopeFilter] = useState<ScopeFilter>('all');
+  // 等待确认跨观点合并的重复组
+  const [pendingCrossGroup, setPendingCrossGroup] = useState<DuplicateGroup | null>(null);
+
+  const groups = useMemo(() => findDuplicateGroups(tableData), [tableData]);
+
+  const displayedGroups = groups.filter(g => {
+    if (matchFilter === 'exact' && !g.exact) return false;
+    if (matchFilter === 'near' && g.exact) return false;
+    if (scopeFilter === 'within' && g.crossOpinion) return false;
+    if (scopeFilter === 'cross' && !g.crossOpinion) return false;
+    return true;
+  });
+  // 默认只在同一观点内合并，每个观点保留一行
+  const copyCount = displayedGroups.reduce((sum, g) => sum + g.rowIndices.length - g.opinions.length, 0);
+  const syncableCount = displayedGroups.filter(g => g.labels.length === 1).length;
+
+  const { columns } = tableData;
+  const tfIndex = columns.indexOf('tf');
+  const commentIndex = columns.indexOf('raw_comments');
+  const sentimentIndex = columns.indexOf('sentiment_tag');
+  const opinionIndex = columns.indexOf('opinion');
+
+  const confirmCrossCollapse = () => {
+    if (pendingCrossGroup) onCollapse([pendingCrossGroup], true);
+    setPendingCrossGroup(null);
+  };
+
+  const renderRows = (group: DuplicateGroup) => (
+    <div className="group-comments">
+      <div className="group-comments-actions">
+        {group.crossOpinion ? (
+          <>
+            <button
+              className="secondary-button"
+              disabled={group.rowIndices.length === group.opinions.length}
+              onClick={() => onCollapse([group])}
+            >
+              在各观点内合并（删除 {group.rowIndices.length - group.opinions.length} 行）
+            </button>
+            <button className="secondary-button" onClick={() => setPendingCrossGroup(group)}>
+              跨观点合并为一行…
+            </button>
+          </>
+        ) : (
+          <button className="secondary-button" onClick={() => onCollapse([group])}>
+            合并为一行（保留第 {group.rowIndices[0] + 1} 行）
+          </button>
+        )}
+        <button className="secondary-button" onClick={() => onSyncLabels([group], '1')}>
+          全部设为 tf=1
+        </button>
+        <button className="secondary-button" onClick={() => onSyncLabels([group], '0')}>
+          全部设为 tf=0
+        </button>
+        {group.labels.length === 1 && (
+          <button className="secondary-button" onClick={() => onSyncLabels([group])}>
+            同步已有标注（tf={group.labels[0]}）
+          </button>
+        )}
+      </div>
+      <ul className="group-comment-list">
+        {group.rowIndices.map(rowIndex => {
+          const row = tableData.rows[rowIndex];
+          return (
+            <li key={rowIndex} className="group-comment-item">
+              <button className="link-button group-comment-row-number" onClick={() => onLocateRow(rowIndex)}>
+                {rowIndex + 1}
+              </button>
+              <span className="group-comment-text">{row[commentIndex]}</span>
+              <span className="duplicate-row-opinion">
+                {row[sentimentIndex] || '(空)'} / {row[opinionIndex] || '(空)'}
+              </span>
+              <span className="duplicate-row-tf">tf={row[tfIndex] || '空'}</span>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+
+  if (groups.length === 0) {
+    return (
+      <div className="group-view">
+        <p className="group-view-hint">未发现重复或近似重复的评论。</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="group-view">
+      <div className="group-view-summary">
+        <span className="table-badge">共 {groups.length} 组重复</span>
+        <label className="table-label">
+          匹配
+          <select
+            className="table-select"
+            value={matchFilter}
+            onChange={(e) => setMatchFilter(e.target.value as MatchFilter)}
+          >
+            <option value="all">全部</option>
+            <option value="exact">完全相同</option>
+            <option value="near">近似重复</option>
+          </select>
+        </label>
+        <label className="table-label">
+          范围
+          <select
+            className="table-select"
+            value={scopeFilter}
+            onChange={(e) => setScopeFilter(e.target.value as ScopeFilter)}
+          >
+            <option value="all">全部</option>
+            <option value="within">同一观点内</option>
+            <option value="cross">跨观点</option>
+          </select>
+        </label>
+        <button
+          className="secondary-button"
+          disabled={copyCount === 0}
+          onClick={() => onCollapse(displayedGroups)}
+        >
+          合并当前 {displayedGroups.length} 组（删除 {copyCount} 行）
+        </button>
+        <button
+          className="secondary-button"
+          disabled={syncableCount === 0}
+          onClick={() => onSyncLabels(displayedGroups)}
+        >
+          同步已有标注（{syncableCount} 组）
+        </button>
+      </div>
+      <p className="group-view-hint">
+        忽略空白、标点、全半角与大小写差异后内容相同的评论视为重复。合并只在同一观点（sentiment_tag + opinion）内进行，
+        每个观点保留第一行（未标注时沿用已有标注），不会改变其他观点的 tf 总和；跨观点的重复需展开后单独确认合并。
+      </p>
+
+      <div className="group-list">
+        {displayedGroups.slice(0, visibleCount).map(group => (
+          <div key={group.key} className="group-card">
+            <button
+              className="group-card-header"
+              onClick={() => setExpandedKey(prev => (prev === group.key ? null : group.key))}
+            >
+              <span className="group-card-toggle">{expandedKey === group.key ? '▾' : '▸'}</span>
+              <span className="group-card-title duplicate-card-title" title={group.variants.join('\n')}>{group.variants[0]}</span>
+              <span className="group-card-stat">{group.rowIndices.length} 条</span>
+              <span className="group-card-stat">{group.exact ? '完全相同' : `近似（${group.variants.length} 种写法）`}</span>
+              {group.crossOpinion && <span className="group-card-stat">跨观点</span>}
+              <span className={`group-status ${group.labels.length === 1 ? 'group-status-kept' : 'group-status-dropped'}`}>
+                {group.labels.length === 0 ? '未标注' : group.labels.length > 1 ? '标注冲突' : `tf=${group.labels[0]}`}
+              </span>
+            </button>
+            {expandedKey === group.key && renderRows(group)}
+          </div>
+        ))}
+      </div>
+      {displayedGroups.length > visibleCount && (
+        <button className="link-button" onClick={() => setVisibleCount(c => c + GROUPS_PAGE_SIZE)}>
+          显示更多（还有 {displayedGroups.length - visibleCount} 组）
+        </button>
+      )}
+
+      {pendingCrossGroup && (
+        <div className="modal-overlay" onClick={() => setPendingCrossGroup(null)}>
+          <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+            <h3 className="modal-title">确认跨观点合并</h3>
+            <p className="modal-text">
+              将只保留第 {pendingCrossGroup.rowIndices[0] + 1} 行（{pendingCrossGroup.opinions[0]}），
+              删除其余 {pendingCrossGroup.rowIndices.length - 1} 行。以下观点的 tf 总和会随之变化，
+              只在删除的行中出现的观点将不再输出：
+            </p>
+            <ul className="modal-list">
+              {pendingCrossGroup.opinions.slice(1).map(opinion => <li key={opinion}>{opinion}</li>)}
+            </ul>
+            <div className="modal-buttons">
+              <button onClick={confirmCrossCollapse} className="modal-confirm-button">
+                确认
+              </button>
+              <button onClick={() => setPendingCrossGroup(null)} className="modal-cancel-button">
+                取消
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DuplicateReviewView;
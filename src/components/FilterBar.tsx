@@ -0,0 +1,89 @@
+import { useMemo } from 'react';
+import { FILTER_COLUMNS, getDistinctValues, isFilterActive } from '../core';
+import type { FilterColumn, ProcessedTableData, RowFilter } from '../core';
+
+type Props = {
+  tableData: ProcessedTableData;
+  filter: RowFilter;
+  visibleCount: number;
+  onFilterChange: (filter: RowFilter) => void;
+  onClear: () => void;
+};
+
+// 下拉框中表示空值的选项（空字符串本身是合法的筛选值）
+const EMPTY_OPTION = '__empty__';
+const ALL_OPTION = '';
+
+const FilterBar = ({ tableData, filter, visibleCount, onFilterChange, onClear }: Props) => {
+  const distinctValues = useMemo(() => {
+    const result = {} as Record<FilterColumn, string[]>;
+    for (const col of FILTER_COLUMNS) {
+      result[col] = getDistinctValues(tableData, col);
+    }
+    return result;
+  }, [tableData]);
+
+  const setColumnFilter = (col: FilterColumn, option: string) => {
+    const columns = { ...filter.columns };
+    if (option === ALL_OPTION) {
+      delete columns[col];
+    } else {
+      columns[col] = option === EMPTY_OPTION ? '' : option;
+    }
+    onFilterChange({ ...filter, columns });
+  };
+
+  const toOption = (value: string | undefined) => {
+    if (value === undefined) return ALL_OPTION;
+    return value === '' ? EMPTY_OPTION : value;
+  };
+
+  return (
+    <div className="filter-bar">
+      <input
+        className="filter-search-input"
+        type="search"
+        value={filter.search}
+        placeholder="搜索 raw_comments 关键词"
+        onChange={(e) => onFilterChange({ ...filter, search: e.target.value })}
+      />
+
+      {FILTER_COLUMNS.filter(col => tableData.columns.includes(col)).map(col => (
+        <label key={col} className="table-label">
+          {col}
+          <select
+            className="table-select"
+            value={toOption(filter.columns[col])}
+            onChange={(e) => setColumnFilter(col, e.target.value)}
+          >
+            <option value={ALL_OPTION}>全部</option>
+            {distinctValues[col].map(value => (
+              <option key={value} value={value === '' ? EMPTY_OPTION : value}>
+                {value === '' ? '(空)' : value}
+              </option>
+            ))}
+          </select>
+        </label>
+      ))}
+
+      <label className="table-label">
+        <input
+          type="checkbox"
+          checked={filter.tfUnfilledOnly}
+          onChange={(e) => onFilterChange({ ...filter, tfUnfilledOnly: e.target.checked })}
+        />
+        仅显示 tf 未填写
+      </label>
+
+      <span className="filter-count">显示 {visibleCount} / {tableData.rows.length} 行</span>
+
+      {isFilterActive(filter) && (
+        <button className="link-button" onClick={onClear}>
+          清除筛选
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default FilterBar;
@@ -0,0 +1,160 @@
+import { useEffect } from 'react';
+import type { ProcessedTableData } from '../core';
+
+type Props = {
+  tableData: ProcessedTableData;
+  activeIndex: number;
+  errorRows: Set<number>;
+  onActiveIndexChange: (globalRowIndex: number) => void;
+  onUpdateTf: (globalRowIndex: number, nextValue: string) => void;
+  onDeleteRow: (globalRowIndex: number) => void;
+  // 执行 tf 校验并返回所有需要修正的行索引
+  onFlagErrors: () => number[];
+  onHint: (message: string | null) => void;
+};
+
+// 展示在评论上方的上下文字段
+const CONTEXT_COLUMNS = ['name', 'cid', 'sentiment_tag', 'opinion'];
+
+const isLabeled = (value: string | undefined) => value === '0' || value === '1';
+
+// 从 fromIndex 之后开始查找（到末尾后从头继续），返回第一个满足条件的行
+const findNext = (total: number, fromIndex: number, predicate: (index: number) => boolean) => {
+  for (let offset = 1; offset < total; offset++) {
+    const index = (fromIndex + offset) % total;
+    if (predicate(index)) return index;
+  }
+  return null;
+};
+
+// 编辑控件（如跳转行号输入框）内的按键不作为快捷键处理
+const isEditableTarget = (target: EventTarget | null) => {
+  return target instanceof HTMLElement
+    && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable);
+};
+
+const FocusAnnotationPanel = ({
+  tableData,
+  activeIndex,
+  errorRows,
+  onActiveIndexChange,
+  onUpdateTf,
+  onDeleteRow,
+  onFlagErrors,
+  onHint
+}: Props) => {
+  const total = tableData.rows.length;
+  const current = Math.min(Math.max(0, activeIndex), total - 1);
+  const row = tableData.rows[current];
+
+  const tfIndex = tableData.columns.indexOf('tf');
+  const commentIndex = tableData.columns.indexOf('raw_comments');
+  const unlabeledCount = tfIndex < 0 ? 0 : tableData.rows.filter(r => !isLabeled(r[tfIndex])).length;
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (total === 0 || event.ctrlKey || event.metaKey || event.altKey) return;
+      if (isEditableTarget(event.target)) return;
+
+      switch (event.key) {
+        case '0':
+        case '1': {
+          event.preventDefault();
+          onUpdateTf(current, event.key);
+          const next = findNext(total, current, i => !isLabeled(tableData.rows[i][tfIndex]));
+          if (next === null) {
+            onHint('所有行均已标注 tf');
+          } else {
+            onActiveIndexChange(next);
+          }
+          break;
+        }
+        case 'ArrowDown':
+        case 'ArrowRight':
+          event.preventDefault();
+          onActiveIndexChange(Math.min(total - 1, current + 1));
+          break;
+        case 'ArrowUp':
+        case 'ArrowLeft':
+          event.preventDefault();
+          onActiveIndexChange(Math.max(0, current - 1));
+          break;
+        case 'Delete':
+          event.preventDefault();
+          onDeleteRow(current);
+          // 删除后当前位置即为原来的下一行
+          onActiveIndexChange(Math.min(current, total - 2));
+          break;
+        case 'e':
+        case 'E': {
+          event.preventDefault();
+          const flagged = new Set(onFlagErrors());
+          const next = findNext(total, current, i => flagged.has(i));
+          if (next !== null) {
+            onActiveIndexChange(next);
+          } else if (!flagged.has(current)) {
+            onHint('没有需要修正的行');
+          }
+          break;
+        }
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [tableData, current, total, tfIndex, onActiveIndexChange, onUpdateTf, onDeleteRow, onFlagErrors, onHint]);
+
+  if (!row) {
+    return <div className="focus-panel focus-panel-empty">没有可标注的数据</div>;
+  }
+
+  const tfValue = tfIndex < 0 ? '' : row[tfIndex];
+
+  return (
+    <div className={`focus-panel ${errorRows.has(current) ? 'focus-panel-error' : ''}`}>
+      <div className="focus-panel-header">
+        <span className="table-badge">第 {current + 1} / {total} 行</span>
+        <span className="focus-panel-progress">未标注 {unlabeledCount} 行</span>
+      </div>
+
+      <div className="focus-panel-context">
+        {CONTEXT_COLUMNS.map(col => {
+          const colIndex = tableData.columns.indexOf(col);
+          if (colIndex < 0) return null;
+          return (
+            <span key={col} className="focus-panel-field">
+              <span className="focus-panel-field-name">{col}</span>
+              {row[colIndex] || '(空)'}
+            </span>
+          );
+        })}
+      </div>
+
+      <div className="focus-panel-comment">
+        {commentIndex < 0 ? '(无 raw_comments 列)' : (row[commentIndex] || '(空评论)')}
+      </div>
+
+      <div className="focus-panel-tf">
+        <span>当前 tf：</span>
+        {(['0', '1'] as const).map(value => (
+          <button
+            key={value}
+            className={`focus-tf-button ${tfValue === value ? 'active' : ''}`}
+            onClick={() => onUpdateTf(current, value)}
+          >
+            {value}
+          </button>
+        ))}
+      </div>
+
+      <div className="focus-panel-shortcuts">
+        <span><kbd>0</kbd>/<kbd>1</kbd> 填写 tf 并跳到下一条未标注</span>
+        <span><kbd>↑</kbd>/<kbd>↓</kbd> 上一行/下一行</span>
+        <span><kbd>Delete</kbd> 删除当前行</span>
+        <span><kbd>E</kbd> 跳到下一个校验未通过的行</span>
+      </div>
+    </div>
+  );
+};
+
+export default FocusAnnotationPanel;
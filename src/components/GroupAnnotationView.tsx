@@ -0,0 +1,138 @@
+import { useMemo, useState } from 'react';
+import { previewGroups } from '../core';
+import type { GroupPreview, ProcessedTableData } from '../core';
+
+type Props = {
+  tableData: ProcessedTableData;
+  errorRows: Set<number>;
+  onUpdateTf: (globalRowIndex: number, nextValue: string) => void;
+  onSetGroupTf: (rowIndices: number[], value: '0' | '1') => void;
+  onDeleteRow: (globalRowIndex: number) => void;
+};
+
+type GroupStatusFilter = 'all' | 'kept' | 'dropped';
+
+// 展开分组时每次显示的评论条数
+const COMMENTS_PAGE_SIZE = 200;
+
+const GroupAnnotationView = ({ tableData, errorRows, onUpdateTf, onSetGroupTf, onDeleteRow }: Props) => {
+  const [expandedKey, setExpandedKey] = useState<string | null>(null);
+  const [visibleCount, setVisibleCount] = useState(COMMENTS_PAGE_SIZE);
+  const [statusFilter, setStatusFilter] = useState<GroupStatusFilter>('all');
+
+  const groups = useMemo(() => previewGroups(tableData), [tableData]);
+  const keptCount = groups.filter(g => g.kept).length;
+
+  const displayedGroups = groups.filter(g => {
+    if (statusFilter === 'kept') return g.kept;
+    if (statusFilter === 'dropped') return !g.kept;
+    return true;
+  });
+
+  const tfIndex = tableData.columns.indexOf('tf');
+  const commentIndex = tableData.columns.indexOf('raw_comments');
+
+  const toggleGroup = (key: string) => {
+    setExpandedKey(prev => (prev === key ? null : key));
+    setVisibleCount(COMMENTS_PAGE_SIZE);
+  };
+
+  const renderComments = (group: GroupPreview) => {
+    const shown = group.rowIndices.slice(0, visibleCount);
+    return (
+      <div className="group-comments">
+        <div className="group-comments-actions">
+          <button className="secondary-button" onClick={() => onSetGroupTf(group.rowIndices, '1')}>
+            整组设为 tf=1
+          </button>
+          <button className="secondary-button" onClick={() => onSetGroupTf(group.rowIndices, '0')}>
+            整组设为 tf=0
+          </button>
+        </div>
+        <ul className="group-comment-list">
+          {shown.map(rowIndex => {
+            const row = tableData.rows[rowIndex];
+            const tfValue = row[tfIndex] ?? '';
+            return (
+              <li
+                key={rowIndex}
+                className={`group-comment-item ${errorRows.has(rowIndex) ? 'group-comment-error' : ''}`}
+              >
+                <span className="group-comment-row-number">{rowIndex + 1}</span>
+                <span className="group-comment-text">{row[commentIndex] || '(空评论)'}</span>
+                <span className="group-comment-tf">
+                  {(['0', '1'] as const).map(value => (
+                    <button
+                      key={value}
+                      className={`focus-tf-button group-tf-button ${tfValue === value ? 'active' : ''}`}
+                      onClick={() => onUpdateTf(rowIndex, tfValue === value ? '' : value)}
+                    >
+                      {value}
+                    </button>
+                  ))}
+                  <button className="row-delete-button" onClick={() => onDeleteRow(rowIndex)}>
+                    删除
+                  </button>
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+        {group.rowIndices.length > shown.length && (
+          <button className="link-button" onClick={() => setVisibleCount(c => c + COMMENTS_PAGE_SIZE)}>
+            显示更多（还有 {group.rowIndices.length - shown.length} 条）
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="group-view">
+      <div className="group-view-summary">
+        <span className="table-badge">共 {groups.length} 组</span>
+        <span className="group-status group-status-kept">保留 {keptCount} 组</span>
+        <span className="group-status group-status-dropped">丢弃 {groups.length - keptCount} 组</span>
+        <label className="table-label">
+          显示
+          <select
+            className="table-select"
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as GroupStatusFilter)}
+          >
+            <option value="all">全部分组</option>
+            <option value="kept">仅保留的分组</option>
+            <option value="dropped">仅丢弃的分组</option>
+          </select>
+        </label>
+      </div>
+      <p className="group-view-hint">
+        第二步将按 sentiment_tag + opinion 分组，tf 总和为 0 的组不会出现在输出文件中。
+      </p>
+
+      <div className="group-list">
+        {displayedGroups.map(group => (
+          <div key={group.key} className={`group-card ${group.kept ? '' : 'group-card-dropped'}`}>
+            <button className="group-card-header" onClick={() => toggleGroup(group.key)}>
+              <span className="group-card-toggle">{expandedKey === group.key ? '▾' : '▸'}</span>
+              <span className="group-card-title">
+                {group.sentimentTag || '(空)'} / {group.opinion || '(空)'}
+              </span>
+              <span className="group-card-stat">{group.rowIndices.length} 条评论</span>
+              <span className="group-card-stat">tf 合计 {group.tfSum}</span>
+              {group.unlabeledCount > 0 && (
+                <span className="group-card-stat">未标注 {group.unlabeledCount}</span>
+              )}
+              <span className={`group-status ${group.kept ? 'group-status-kept' : 'group-status-dropped'}`}>
+                {group.kept ? '保留' : '丢弃'}
+              </span>
+            </button>
+            {expandedKey === group.key && renderComments(group)}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default GroupAnnotationView;
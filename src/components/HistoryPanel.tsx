@@ -0,0 +1,62 @@
+import type { HistoryEntry } from '../hooks/useEditHistory';
+
+type Props = {
+  entries: HistoryEntry[];
+  // 已生效的操作数量（entries 中此前的操作均已生效）
+  cursor: number;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onGoTo: (cursor: number) => void;
+};
+
+const formatTime = (timestamp: number) => {
+  return new Date(timestamp).toLocaleTimeString('zh-CN', { hour12: false });
+};
+
+const HistoryPanel = ({ entries, cursor, canUndo, canRedo, onUndo, onRedo, onGoTo }: Props) => {
+  return (
+    <div className="history-panel">
+      <div className="history-panel-header">
+        <span className="history-panel-title">操作历史</span>
+        <div className="history-panel-actions">
+          <button className="secondary-button" onClick={onUndo} disabled={!canUndo} title="Ctrl+Z">
+            撤销
+          </button>
+          <button className="secondary-button" onClick={onRedo} disabled={!canRedo} title="Ctrl+Shift+Z">
+            重做
+          </button>
+        </div>
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="history-panel-empty">暂无操作记录</p>
+      ) : (
+        <ol className="history-list">
+          <li>
+            <button
+              className={`history-item ${cursor === 0 ? 'current' : ''}`}
+              onClick={() => onGoTo(0)}
+            >
+              初始状态
+            </button>
+          </li>
+          {entries.map((entry, index) => (
+            <li key={`${entry.timestamp}-${index}`}>
+              <button
+                className={`history-item ${index + 1 === cursor ? 'current' : ''} ${index + 1 > cursor ? 'undone' : ''}`}
+                onClick={() => onGoTo(index + 1)}
+              >
+                <span>{entry.label}</span>
+                <span className="history-item-time">{formatTime(entry.timestamp)}</span>
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default HistoryPanel;
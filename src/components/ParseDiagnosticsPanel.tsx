@@ -0,0 +1,204 @@
+import { useState } from 'react';
+import { mergeFields, splitField, suggestRepair } from '../core';
+import type { ColumnMapping, LineRepairs, ParseDiagnostics, RejectedLine } from '../core';
+
+type Props = {
+  diagnostics: ParseDiagnostics;
+  // 文件使用了列映射时，修复建议按映射确定 raw_comments 所在的列
+  mapping?: ColumnMapping;
+  onDownload: (repairs: LineRepairs) => void;
+  onContinue: (repairs: LineRepairs) => void;
+};
+
+// 每页展示的行数
+const PAGE_SIZE = 50;
+
+const ParseDiagnosticsPanel = ({ diagnostics, mapping, onDownload, onContinue }: Props) => {
+  const { expectedFieldCount, headerFields, rejected, multiline } = diagnostics;
+
+  // 每行当前的字段（初始为自动修复建议或原始字段）与是否纳入
+  const [edits, setEdits] = useState<Record<number, string[]>>(() => {
+    const initial: Record<number, string[]> = {};
+    for (const line of rejected) {
+      initial[line.lineNumber] = suggestRepair(line, diagnostics, mapping) ?? line.fields;
+    }
+    return initial;
+  });
+  const [included, setIncluded] = useState<Set<number>>(new Set());
+  const [splitting, setSplitting] = useState<{ lineNumber: number; index: number; separator: string } | null>(null);
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+
+  const isValid = (lineNumber: number) => edits[lineNumber]?.length === expectedFieldCount;
+
+  const getRepairs = () => {
+    const repairs: LineRepairs = {};
+    for (const lineNumber of included) {
+      if (isValid(lineNumber)) repairs[lineNumber] = edits[lineNumber];
+    }
+    return repairs;
+  };
+
+  const updateFields = (lineNumber: number, fields: string[]) => {
+    setEdits(prev => ({ ...prev, [lineNumber]: fields }));
+    // 字段数不再一致时自动取消纳入
+    if (fields.length !== expectedFieldCount) {
+      setIncluded(prev => {
+        const next = new Set(prev);
+        next.delete(lineNumber);
+        return next;
+      });
+    }
+  };
+
+  const toggleIncluded = (lineNumber: number) => {
+    setIncluded(prev => {
+      const next = new Set(prev);
+      if (next.has(lineNumber)) next.delete(lineNumber);
+      else next.add(lineNumber);
+      return next;
+    });
+  };
+
+  const includeAllValid = () => {
+    setIncluded(new Set(rejected.filter(line => isValid(line.lineNumber)).map(line => line.lineNumber)));
+  };
+
+  const confirmSplit = () => {
+    if (!splitting) return;
+    const { lineNumber, index, separator } = splitting;
+    updateFields(lineNumber, splitField(edits[lineNumber], index, separator));
+    setSplitting(null);
+  };
+
+  const renderLine = (line: RejectedLine) => {
+    const fields = edits[line.lineNumber];
+    const valid = isValid(line.lineNumber);
+    return (
+      <li key={line.lineNumber} className="diagnostics-line">
+        <div className="diagnostics-line-header">
+          <strong>第 {line.lineNumber} 行</strong>
+          <span>期望 {expectedFieldCount} 列，实际 {line.fields.length} 列</span>
+          <span className={valid ? 'diagnostics-valid' : 'diagnostics-invalid'}>
+            当前 {fields.length} 列{valid ? '，可纳入' : ''}
+          </span>
+          <label className="diagnostics-include">
+            <input
+              type="checkbox"
+              checked={included.has(line.lineNumber)}
+              disabled={!valid}
+              onChange={() => toggleIncluded(line.lineNumber)}
+            />
+            纳入
+          </label>
+          <button className="link-button" onClick={() => updateFields(line.lineNumber, line.fields)}>
+            还原
+          </button>
+        </div>
+        <code className="diagnostics-raw">{line.raw}</code>
+        <div className="diagnostics-fields">
+          {fields.map((field, index) => (
+            <span key={index} className="diagnostics-field">
+              <span className="diagnostics-field-name">{headerFields[index] ?? `多余第 ${index + 1} 列`}</span>
+              <span className="diagnostics-field-value" title={field}>{field || '(空)'}</span>
+              {splitting?.lineNumber === line.lineNumber && splitting.index === index ? (
+                <span className="diagnostics-split-input">
+                  <input
+                    type="text"
+                    placeholder="在此文本处拆分"
+                    value={splitting.separator}
+                    onChange={(e) => setSplitting({ ...splitting, separator: e.target.value })}
+                    onKeyDown={(e) => e.key === 'Enter' && confirmSplit()}
+                    autoFocus
+                  />
+                  <button className="link-button" onClick={confirmSplit}>确定</button>
+                  <button className="link-button" onClick={() => setSplitting(null)}>取消</button>
+                </span>
+              ) : (
+                <button
+                  className="link-button"
+                  onClick={() => setSplitting({ lineNumber: line.lineNumber, index, separator: '' })}
+                >
+                  拆分
+                </button>
+              )}
+              {index < fields.length - 1 && (
+                <button
+                  className="link-button"
+                  onClick={() => updateFields(line.lineNumber, mergeFields(fields, index))}
+                >
+                  与下一列合并
+                </button>
+              )}
+            </span>
+          ))}
+        </div>
+      </li>
+    );
+  };
+
+  const includedCount = Object.keys(getRepairs()).length;
+
+  return (
+    <div className="diagnostics-panel">
+      <div className="diagnostics-summary">
+        {rejected.length > 0 && (
+          <>
+            <h3 className="result-title">⚠️ {rejected.length} 行的列数与表头不一致</h3>
+            <p className="result-hint">
+              这些行默认不会进入表格。可合并或拆分字段修复后勾选「纳入」；字段过多的行已按「多余字段并入 raw_comments」给出修复建议。
+            </p>
+          </>
+        )}
+        {multiline.length > 0 && (
+          <>
+            <h3 className="result-title">⚠️ {multiline.length} 条记录的引号内含换行</h3>
+            <p className="result-hint">
+              这些记录跨越多行，已按引号合并为一条数据。若并非有意换行（如引号未闭合），请检查原始文件。
+            </p>
+          </>
+        )}
+        <div className="diagnostics-actions">
+          {rejected.length > 0 && (
+            <>
+              <button className="link-button" onClick={includeAllValid}>纳入所有列数正确的行</button>
+              <button className="link-button" onClick={() => setIncluded(new Set())}>全部排除</button>
+            </>
+          )}
+          <button className="link-button" onClick={() => onDownload(getRepairs())}>下载诊断报告</button>
+        </div>
+      </div>
+
+      {multiline.length > 0 && (
+        <details className="diagnostics-multiline">
+          <summary>查看跨行记录</summary>
+          <ul className="diagnostics-list">
+            {multiline.slice(0, visibleCount).map(record => (
+              <li key={record.lineNumber} className="diagnostics-line">
+                <div className="diagnostics-line-header">
+                  <strong>第 {record.lineNumber}–{record.lineNumber + record.lineCount - 1} 行</strong>
+                  <span>合并为一条记录</span>
+                </div>
+                <code className="diagnostics-raw">{record.raw}</code>
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+
+      <ul className="diagnostics-list">
+        {rejected.slice(0, visibleCount).map(renderLine)}
+      </ul>
+      {rejected.length > visibleCount && (
+        <button className="link-button" onClick={() => setVisibleCount(count => count + PAGE_SIZE)}>
+          显示更多（还有 {rejected.length - visibleCount} 行）
+        </button>
+      )}
+
+      <button className="process-button" onClick={() => onContinue(getRepairs())}>
+        {rejected.length > 0 ? `继续：纳入 ${includedCount} 行，排除 ${rejected.length - includedCount} 行` : '继续'}
+      </button>
+    </div>
+  );
+};
+
+export default ParseDiagnosticsPanel;
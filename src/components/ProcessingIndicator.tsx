@@ -0,0 +1,38 @@
+import type { PipelineProgress, ProgressStage } from '../core';
+
+// 各阶段最近一次回报的进度
+export type ProgressState = Partial<Record<ProgressStage, PipelineProgress>>;
+
+type Props = {
+  progress: ProgressState;
+  onCancel?: () => void;
+};
+
+const formatCount = (value: number) => value.toLocaleString('zh-CN');
+
+const ProcessingIndicator = ({ progress, onCancel }: Props) => {
+  const { lines, rows, groups } = progress;
+
+  return (
+    <div className="processing">
+      <div className="spinner"></div>
+      <p>正在处理文件，请稍候...</p>
+      {(lines || rows || groups) && (
+        <div className="processing-progress">
+          {lines && (
+            <span>已读取 {formatCount(lines.count)}{lines.total !== undefined ? ` / ${formatCount(lines.total)}` : ''} 行</span>
+          )}
+          {rows && <span>已展开 {formatCount(rows.count)} 条评论</span>}
+          {groups && <span>已生成 {formatCount(groups.count)} 个分组</span>}
+        </div>
+      )}
+      {onCancel && (
+        <button className="secondary-button processing-cancel-button" onClick={onCancel}>
+          取消
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ProcessingIndicator;
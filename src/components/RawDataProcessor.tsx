@@ -1,11 +1,67 @@
 import { useEffect, useMemo, useState, useRef } from 'react';
 import * as XLSX from 'xlsx';
-
-type ProcessedTableData = {
-  sourceFileName: string;
-  columns: string[];
-  rows: string[][];
-};
+import {
+  buildAnnotationFileName,
+  buildAnnotationWorkbook,
+  buildDiagnosticsCsv,
+  buildDiagnosticsFileName,
+  collapseDuplicates,
+  combineTables,
+  DEFAULT_SPLIT_RULES,
+  deleteRows,
+  EMPTY_FILTER,
+  filterAndSortRows,
+  getUnmappedColumns,
+  hasParseIssues,
+  isFilterActive,
+  mergeTfValues,
+  needsColumnMapping,
+  remapIndicesAfterDelete,
+  setTfForRows,
+  suggestColumnMapping,
+  syncDuplicateLabels,
+  validateSplitRules
+} from '../core';
+import type {
+  ColumnInspection,
+  ColumnMapping,
+  CommentSplitRules,
+  ConflictPolicy,
+  Dialect,
+  DuplicateGroup,
+  LineRepairs,
+  ParseDiagnostics,
+  PipelineProgress,
+  ProcessedTableData,
+  RowFilter,
+  RowSort,
+  TextEncodingId
+} from '../core';
+import { loadRememberedAliases, rememberColumnMapping } from '../storage/columnMappingStore';
+import { deleteSession, getSessionId, listSessions, saveSession } from '../storage/sessionStore';
+import type { SavedSession } from '../storage/sessionStore';
+import { isCancelledError, runPipelineTask } from '../workers/pipelineClient';
+import type { PipelineTask, RawFileInspection } from '../workers/pipelineClient';
+import ProcessingIndicator from './ProcessingIndicator';
+import type { ProgressState } from './ProcessingIndicator';
+import { useEditHistory } from '../hooks/useEditHistory';
+import SessionResumeCard from './SessionResumeCard';
+import AnnotationTable from './AnnotationTable';
+import type { AnnotationTableHandle } from './AnnotationTable';
+import FocusAnnotationPanel from './FocusAnnotationPanel';
+import BulkActionBar from './BulkActionBar';
+import FilterBar from './FilterBar';
+import GroupAnnotationView from './GroupAnnotationView';
+import DuplicateReviewView from './DuplicateReviewView';
+import HistoryPanel from './HistoryPanel';
+import TfMergePanel from './TfMergePanel';
+import type { MergeReport } from './TfMergePanel';
+import ColumnMappingDialog from './ColumnMappingDialog';
+import DialectPreview from './DialectPreview';
+import ParseDiagnosticsPanel from './ParseDiagnosticsPanel';
+import CommentSplitSettings from './CommentSplitSettings';
+import BatchFileList from './BatchFileList';
+import type { BatchFileEntry, BatchMode } from './BatchFileList';
 
 type Props = {
   onDataChange?: (data: ProcessedTableData | null) => void;
@@ -13,12 +69,64 @@ type Props = {
   initialData?: ProcessedTableData | null;
 };
 
-const REQUIRED_COLUMNS = [
-  'part_time', 'firstcategoryname', 'name', 'cid', 'sentiment_tag',
-  'begin_time', 'end_time', 'index_', 'opinion', 'score', 'num',
-  'raw_comments', 'tf'
+type ViewMode = 'table' | 'focus' | 'groups' | 'duplicates';
+
+// 等待用户确认列映射的文件：purpose 区分是处理新文件还是合并离线标注
+type PendingMapping = {
+  file: File;
+  inspection: ColumnInspection;
+  initialMapping: ColumnMapping;
+  purpose: 'process' | 'merge';
+};
+
+// TXT 中列数不一致的行：处理后先由用户决定修复、纳入或排除，再进入标注
+type DiagnosticsReview = {
+  diagnostics: ParseDiagnostics;
+  tableData: ProcessedTableData;
+  mapping?: ColumnMapping;
+};
+
+type ParseReport = {
+  diagnostics: ParseDiagnostics;
+  repairs: LineRepairs;
+};
+
+// 刚解析完的表格，用于同一文件已有保存的进度时，由用户选择继续上次的标注或重新开始
+type ParsedTable = {
+  tableData: ProcessedTableData;
+  diagnostics: ParseDiagnostics | null;
+  mapping?: ColumnMapping;
+  review?: ParseReport;
+};
+
+// 逐个文件依次标注时：已完成标注的表格与尚未标注的表格（当前表格不在其中）
+type BatchQueue = {
+  completed: ProcessedTableData[];
+  pending: ProcessedTableData[];
+};
+
+type EditSnapshot = {
+  tableData: ProcessedTableData;
+  errorRows: Set<number>;
+};
+
+// 第一步既可上传原始 TXT，也可上传离线标注过的 Excel
+const isExcelFile = (fileName: string) => /\.xlsx?$/i.test(fileName);
+const isSupportedFile = (fileName: string) => fileName.endsWith('.txt') || isExcelFile(fileName);
+
+// 撤销历史最多保留的操作数
+const HISTORY_LIMIT = 100;
+
+const VIEW_MODES: { mode: ViewMode; label: string }[] = [
+  { mode: 'table', label: '表格视图' },
+  { mode: 'focus', label: '专注标注（键盘）' },
+  { mode: 'groups', label: '分组预览' },
+  { mode: 'duplicates', label: '重复评论' }
 ];
 
+// 标注修改后延迟写入 IndexedDB，避免每次输入都触发保存
+const AUTOSAVE_DELAY = 500;
+
 const RawDataProcessor = ({ onDataChange, onGoToNext, initialData }: Props) => {
   const [file, setFile] = useState<File | null>(null);
   const [processing, setProcessing] = useState(false);
@@ -26,11 +134,37 @@ const RawDataProcessor = ({ onDataChange, onGoToNext, initialData }: Props) => {
   const [dragOver, setDragOver] = useState(false);
 
   const [tableData, setTableData] = useState<ProcessedTableData | null>(initialData || null);
-  const [pageSize, setPageSize] = useState(50);
-  const [page, setPage] = useState(1);
+  const [jumpTarget, setJumpTarget] = useState('');
+  const [viewMode, setViewMode] = useState<ViewMode>('table');
+  const [activeRow, setActiveRow] = useState(0); // 专注标注模式下当前行的索引
+  const [selectedRows, setSelectedRows] = useState<Set<number>>(new Set()); // 批量操作选中的行索引
+  const [selectionAnchor, setSelectionAnchor] = useState<number | null>(null); // Shift 多选的起点
+  const [filter, setFilter] = useState<RowFilter>(EMPTY_FILTER);
+  const [sort, setSort] = useState<RowSort | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [mergePolicy, setMergePolicy] = useState<ConflictPolicy>('incoming');
+  const [merging, setMerging] = useState(false);
+  const [mergeReport, setMergeReport] = useState<MergeReport | null>(null);
+  const [pendingMapping, setPendingMapping] = useState<PendingMapping | null>(null);
+  const [dialectOverride, setDialectOverride] = useState<Dialect | null>(null); // null 表示自动识别
+  const [encodingOverride, setEncodingOverride] = useState<TextEncodingId | null>(null);
+  const [preview, setPreview] = useState<RawFileInspection | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [splitRules, setSplitRules] = useState<CommentSplitRules>(DEFAULT_SPLIT_RULES);
+  const [diagnosticsReview, setDiagnosticsReview] = useState<DiagnosticsReview | null>(null);
+  const [parseReport, setParseReport] = useState<ParseReport | null>(null);
+  const [pendingResume, setPendingResume] = useState<{ session: SavedSession; parsed: ParsedTable } | null>(null);
+  const [batchFiles, setBatchFiles] = useState<BatchFileEntry[]>([]); // 批量处理的多个 TXT 文件
+  const [batchMode, setBatchMode] = useState<BatchMode>('merged');
+  const [batchQueue, setBatchQueue] = useState<BatchQueue | null>(null);
+  const history = useEditHistory<EditSnapshot>(HISTORY_LIMIT);
   const [tfHint, setTfHint] = useState<string | null>(null);
   const [validationError, setValidationError] = useState<string | null>(null);
   const [errorRows, setErrorRows] = useState<Set<number>>(new Set()); // 存储错误行的索引（从0开始）
+  const [savedSessions, setSavedSessions] = useState<SavedSession[]>([]);
+  const [lastSavedAt, setLastSavedAt] = useState<number | null>(null);
+  const [progress, setProgress] = useState<ProgressState>({});
+  const taskRef = useRef<PipelineTask<unknown> | null>(null);
 
   const tfColumnIndex = useMemo(() => {
     if (!tableData) return -1;
@@ -38,7 +172,13 @@ const RawDataProcessor = ({ onDataChange, onGoToNext, initialData }: Props) => {
   }, [tableData]);
 
   const totalRows = tableData?.rows.length || 0;
-  const totalPages = Math.max(1, Math.ceil(totalRows / pageSize));
+
+  // 表格中显示的行（全局行索引），编辑与删除均通过全局索引映射回 tableData
+  const viewRowIndices = useMemo(() => {
+    if (!tableData) return [] as number[];
+    return filterAndSortRows(tableData, filter, sort);
+  }, [tableData, filter, sort]);
+  const tableRef = useRef<AnnotationTableHandle>(null);
 
   // 使用 ref 来跟踪是否正在从 initialData 恢复数据
   const isRestoringFromInitialData = useRef(false);
@@ -55,11 +195,6 @@ const RawDataProcessor = ({ onDataChange, onGoToNext, initialData }: Props) => {
     }
   }, [initialData]);
 
-  useEffect(() => {
-    // 页面大小或数据变化时，保证 page 在合法范围内
-    setPage(prev => Math.min(Math.max(1, prev), totalPages));
-  }, [totalPages]);
-
   useEffect(() => {
     // 只有当不是从 initialData 恢复数据时，才通知父组件
     if (!isRestoringFromInitialData.current && onDataChange) {
@@ -67,21 +202,118 @@ const RawDataProcessor = ({ onDataChange, onGoToNext, initialData }: Props) => {
     }
   }, [tableData]); // 移除 onDataChange 依赖，避免无限循环
 
-  const visibleRows = useMemo(() => {
-    if (!tableData) return [] as string[][];
-    const start = (page - 1) * pageSize;
-    return tableData.rows.slice(start, start + pageSize);
-  }, [tableData, page, pageSize]);
+  // Ctrl+Z 撤销，Ctrl+Shift+Z / Ctrl+Y 重做（筛选、跳转等文本输入框内保留浏览器默认行为）
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+      const target = event.target;
+      if (target instanceof HTMLElement && target.matches('input:not(.tf-input), textarea, select')) return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undoRef.current();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        redoRef.current();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
 
-  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const selectedFile = event.target.files?.[0];
-    if (selectedFile && selectedFile.name.endsWith('.txt')) {
-      setFile(selectedFile);
-      setError(null);
-      setTableData(null);
-    } else {
-      setError('请上传 .txt 格式的文件');
+  // 离开页面时终止仍在运行的后台任务
+  useEffect(() => {
+    return () => taskRef.current?.cancel();
+  }, []);
+
+  // 自动保存：每次 tf 修改或删除行后，将表格写入浏览器本地的 IndexedDB
+  useEffect(() => {
+    if (!tableData?.contentHash) return;
+    const timer = setTimeout(() => {
+      saveSession(tableData)
+        .then(() => setLastSavedAt(Date.now()))
+        .catch(err => console.warn('自动保存失败：', err));
+    }, AUTOSAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [tableData]);
+
+  // 没有正在标注的数据时，读取可恢复的会话
+  useEffect(() => {
+    if (tableData) return;
+    let cancelled = false;
+    listSessions()
+      .then(sessions => {
+        if (!cancelled) setSavedSessions(sessions);
+      })
+      .catch(err => console.warn('读取本地会话失败：', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [tableData]);
+
+  // 选择 TXT 后先读取文件开头，展示识别出的格式与前几行数据
+  useEffect(() => {
+    if (!file || isExcelFile(file.name)) return;
+    const task = runPipelineTask({
+      type: 'inspectRawFile',
+      file,
+      dialect: dialectOverride ?? undefined,
+      encoding: encodingOverride ?? undefined
+    });
+    task.promise
+      .then(setPreview)
+      .catch(err => {
+        if (!isCancelledError(err)) {
+          setPreview(null);
+          setPreviewError(err instanceof Error ? err.message : String(err));
+        }
+      });
+    return () => task.cancel();
+  }, [file, dialectOverride, encodingOverride]);
+
+  // 选择一个文件，或多个 TXT 文件（批量处理）
+  const chooseFile = (nextFile: File | null, nextBatchFiles: File[] = []) => {
+    setFile(nextFile);
+    setBatchFiles(nextBatchFiles.map(f => ({ file: f, status: 'pending' })));
+    setBatchQueue(null);
+    setError(null);
+    setTableData(null);
+    setPreview(null);
+    setPreviewError(null);
+    setDialectOverride(null);
+    setEncodingOverride(null);
+  };
+
+  // 选择多个文件时进入批量处理（仅支持 TXT）
+  const chooseFiles = (files: File[]) => {
+    if (files.length === 0 || !files.every(f => isSupportedFile(f.name))) {
+      setError('请上传 .txt 格式的原始数据，或 .xlsx/.xls 格式的标注文件');
+      return;
+    }
+    if (files.length === 1) {
+      chooseFile(files[0]);
+      return;
+    }
+    if (files.some(f => isExcelFile(f.name))) {
+      setError('批量处理仅支持 .txt 格式的原始数据，离线标注的 Excel 请逐个上传');
+      return;
     }
+    chooseFile(null, files);
+  };
+
+  const changeDialect = (dialect: Dialect | null) => {
+    setPreviewError(null);
+    setDialectOverride(dialect);
+  };
+
+  const changeEncoding = (encoding: TextEncodingId | null) => {
+    setPreviewError(null);
+    setEncodingOverride(encoding);
+  };
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    chooseFiles(Array.from(event.target.files ?? []));
     // 重置input value，允许重复选择同一个文件
     event.target.value = '';
   };
@@ -99,157 +331,313 @@ const RawDataProcessor = ({ onDataChange, onGoToNext, initialData }: Props) => {
     event.preventDefault();
     setDragOver(false);
 
-    const droppedFile = event.dataTransfer.files?.[0];
-    if (droppedFile && droppedFile.name.endsWith('.txt')) {
-      setFile(droppedFile);
-      setError(null);
-      setTableData(null);
-    } else {
-      setError('请上传 .txt 格式的文件');
-    }
+    chooseFiles(Array.from(event.dataTransfer.files ?? []));
   };
 
-  const normalizeHeader = (raw: string) => {
-    return raw
-      .trim()
-      .replace(/\ufeff/g, '')
-      .replace(/\u0001/g, '')
-      .replace(/\x02/g, '')
-      .replace(/\u0002/g, '')
-      .toLowerCase();
-  };
-
-  const normalizeCell = (raw: string) => {
-    return raw
-      .replace(/\ufeff/g, ' ')
-      .replace(/\u0001/g, ' ')
-      .replace(/\x02/g, ' ')
-      .replace(/\u0002/g, ' ')
-      .trim();
-  };
-
-  const validateColumns = (columns: string[]) => {
-    if (columns.length !== REQUIRED_COLUMNS.length) {
-      const yourCols = columns.join(', ');
-      const required = REQUIRED_COLUMNS.join(', ');
-      if (columns.length > REQUIRED_COLUMNS.length) {
-        throw new Error(
-          `文件列数错误：文件包含 ${columns.length} 列，但必须恰好包含 13 列。\n\n您的文件列名：\n${yourCols}\n\n要求的 13 列：\n${required}\n\n❗ 操作建议：请删除不符合要求的列，确保文件仅包含上述 13 列。`
-        );
-      }
-      throw new Error(
-        `文件列数错误：文件仅包含 ${columns.length} 列，但必须包含 13 列。\n\n您的文件列名：\n${yourCols}\n\n要求的 13 列：\n${required}\n\n❗ 操作建议：请补充缺失的列。`
-      );
-    }
-
-    for (let i = 0; i < REQUIRED_COLUMNS.length; i++) {
-      if (columns[i] !== REQUIRED_COLUMNS[i]) {
-        const actualColName = columns[i] || '(空)';
-        let errorMsg = `第 ${i + 1} 列错误：\n期望列名：${REQUIRED_COLUMNS[i]}\n实际列名：${actualColName}\n\n`;
-
-        if (!columns[i]) {
-          errorMsg += `❗ 操作建议：第 ${i + 1} 列的标题为空，请在该列的首行（标题行）输入列名 "${REQUIRED_COLUMNS[i]}"\n\n`;
-        } else {
-          errorMsg += `❗ 操作建议：请将第 ${i + 1} 列的标题修改为 "${REQUIRED_COLUMNS[i]}"\n\n`;
-        }
+  const runTask = <T,>(task: PipelineTask<T>) => {
+    taskRef.current = task;
+    return task.promise;
+  };
 
-        errorMsg += `完整的列要求（按顺序）：\n${REQUIRED_COLUMNS.join(', ')}`;
-        throw new Error(errorMsg);
-      }
-    }
+  // 用户确认过的 TXT 格式与编码；未打开预览时交给后台线程自动识别
+  const rawDialect = dialectOverride ?? preview?.dialect;
+  const rawEncoding = encodingOverride ?? preview?.encoding;
+
+  // 读取表头；列名不符合要求时弹出列映射对话框，返回 false 表示需等待用户确认
+  const checkColumns = async (targetFile: File, purpose: PendingMapping['purpose']) => {
+    const inspection = await runTask(runPipelineTask(isExcelFile(targetFile.name)
+      ? { type: 'inspectExcelFile', file: targetFile }
+      : { type: 'inspectRawFile', file: targetFile, dialect: rawDialect, encoding: rawEncoding }));
+    if (!needsColumnMapping(inspection.columns, true)) return true;
+
+    setPendingMapping({
+      file: targetFile,
+      inspection,
+      initialMapping: suggestColumnMapping(inspection.columns, loadRememberedAliases()),
+      purpose
+    });
+    return false;
   };
 
-  const processFile = async () => {
+  // review 为用户在诊断面板中确认过的修复；提供时按修复重新解析，不再弹出诊断面板
+  const processFile = async (mapping?: ColumnMapping, review?: ParseReport) => {
     if (!file) return;
 
     setProcessing(true);
     setError(null);
     setTfHint(null);
+    setPendingResume(null);
+    setProgress({});
+
+    const onProgress = (p: PipelineProgress) => {
+      setProgress(prev => ({ ...prev, [p.stage]: p }));
+    };
 
     try {
-      const text = await file.text();
-      const lines = text.split('\n');
+      if (!mapping && !review && !(await checkColumns(file, 'process'))) return;
+
+      let nextTableData: ProcessedTableData;
+      let diagnostics: ParseDiagnostics | null = null;
+      if (isExcelFile(file.name)) {
+        nextTableData = await runTask(runPipelineTask({ type: 'importAnnotatedFile', file, mapping }, onProgress));
+      } else {
+        const output = await runTask(runPipelineTask({
+          type: 'processRawFile',
+          file,
+          mapping,
+          dialect: rawDialect,
+          encoding: rawEncoding,
+          repairs: review?.repairs,
+          splitRules
+        }, onProgress));
+        nextTableData = output.tableData;
+        diagnostics = output.diagnostics;
+      }
+      setSelectedRows(new Set());
+      setSelectionAnchor(null);
+      history.clear();
+
+      const parsed: ParsedTable = { tableData: nextTableData, diagnostics, mapping, review };
+
+      // 同一文件（文件名与内容均相同）已有保存的进度时，由用户选择继续上次的标注或丢弃后使用本次的解析结果
+      const sessionId = getSessionId(file.name, nextTableData.contentHash ?? '');
+      const saved = savedSessions.find(session => session.id === sessionId);
+      if (saved) {
+        setPendingResume({ session: saved, parsed });
+        return;
+      }
 
-      if (lines.length === 0) {
-        throw new Error('文件为空');
+      applyParsedTable(parsed);
+
+    } catch (err) {
+      setTableData(null);
+      if (!isCancelledError(err)) {
+        setError(`处理失败: ${err instanceof Error ? err.message : String(err)}`);
       }
+    } finally {
+      taskRef.current = null;
+      setProcessing(false);
+    }
+  };
+
+  // 有未修复的列数不一致的行时先进入诊断面板，否则直接进入标注
+  const applyParsedTable = ({ tableData: parsedTableData, diagnostics, mapping, review }: ParsedTable) => {
+    if (review) {
+      setParseReport(review);
+    } else if (diagnostics && hasParseIssues(diagnostics)) {
+      setDiagnosticsReview({ diagnostics, tableData: parsedTableData, mapping });
+      return;
+    }
+    setTableData(parsedTableData);
+  };
+
+  const resumePendingSession = () => {
+    if (!pendingResume) return;
+    setPendingResume(null);
+    setTableData(pendingResume.session.tableData);
+    setTfHint('已恢复该文件上次保存的标注进度');
+  };
 
-      const rawHeader = lines[0]
-        .trim()
-        .replace(/\ufeff/g, '')
-        .replace(/\u0001/g, '')
-        .replace(/\x02/g, '')
-        .replace(/\u0002/g, '')
-        .split('\t');
+  const discardPendingSession = () => {
+    if (!pendingResume) return;
+    setPendingResume(null);
+    discardSession(pendingResume.session);
+    applyParsedTable(pendingResume.parsed);
+  };
 
-      let columns = rawHeader.map(normalizeHeader);
+  const removeBatchFile = (index: number) => {
+    const remaining = batchFiles.filter((_, i) => i !== index).map(entry => entry.file);
+    if (remaining.length === 1) chooseFile(remaining[0]);
+    else chooseFile(null, remaining);
+  };
 
-      const data: string[][] = [];
+  // 批量处理：依次解析每个 TXT（自动识别格式、编码与列名），失败的文件跳过并在列表中标出原因
+  const processBatch = async () => {
+    setProcessing(true);
+    setError(null);
+    setTfHint(null);
+    setProgress({});
 
-      for (let i = 1; i < lines.length; i++) {
-        const line = lines[i].trim();
-        if (!line) continue;
+    const onProgress = (p: PipelineProgress) => {
+      setProgress(prev => ({ ...prev, [p.stage]: p }));
+    };
+    const updateEntry = (index: number, patch: Partial<BatchFileEntry>) => {
+      setBatchFiles(prev => prev.map((entry, i) => (i === index ? { ...entry, ...patch } : entry)));
+    };
 
-        const ele = line.split('\t').map(normalizeCell);
+    const remembered = loadRememberedAliases();
+    const tables: ProcessedTableData[] = [];
+    try {
+      for (let i = 0; i < batchFiles.length; i++) {
+        const batchFile = batchFiles[i].file;
+        updateEntry(i, { status: 'processing', error: undefined });
+        setProgress({});
+        try {
+          const inspection = await runTask(runPipelineTask({ type: 'inspectRawFile', file: batchFile }));
+          let mapping: ColumnMapping | undefined;
+          if (needsColumnMapping(inspection.columns, true)) {
+            mapping = suggestColumnMapping(inspection.columns, remembered);
+            const unmapped = getUnmappedColumns(mapping, ['tf']);
+            if (unmapped.length > 0) {
+              throw new Error(`无法自动匹配列 ${unmapped.join('、')}，请单独上传该文件处理`);
+            }
+          }
 
-        if (columns.length === ele.length) {
-          data.push(ele);
+          const output = await runTask(runPipelineTask({
+            type: 'processRawFile',
+            file: batchFile,
+            mapping,
+            dialect: inspection.dialect,
+            encoding: inspection.encoding,
+            splitRules
+          }, onProgress));
+          tables.push(output.tableData);
+          updateEntry(i, {
+            status: 'done',
+            rowCount: output.tableData.rows.length,
+            diagnostics: output.diagnostics,
+            garbled: inspection.garbled.garbled
+          });
+        } catch (err) {
+          if (isCancelledError(err)) throw err;
+          updateEntry(i, { status: 'failed', error: err instanceof Error ? err.message : String(err) });
         }
       }
 
-      // 如果原文件不含 tf，则自动追加；并对每行补空值
-      if (!columns.includes('tf')) {
-        columns = [...columns, 'tf'];
-        for (const row of data) {
-          row.push('');
-        }
+      if (tables.length === 0) {
+        setError('所有文件均处理失败，请查看文件列表中的原因');
+        return;
       }
 
-      // 展开 raw_comments 列（按 $ 分隔）
-      const rawCommentsIndex = columns.indexOf('raw_comments');
-      const expandedData: string[][] = [];
-
-      if (rawCommentsIndex !== -1) {
-        for (const row of data) {
-          const comments = String(row[rawCommentsIndex] ?? '').split('$');
-          for (const comment of comments) {
-            const newRow = [...row];
-            newRow[rawCommentsIndex] = comment.trim();
-            expandedData.push(newRow);
-          }
-        }
+      setSelectedRows(new Set());
+      setSelectionAnchor(null);
+      history.clear();
+      if (batchMode === 'merged') {
+        setTableData(combineTables(tables));
       } else {
-        expandedData.push(...data);
+        const [first, ...rest] = tables;
+        setBatchQueue({ completed: [], pending: rest });
+        setTableData(first);
       }
+    } catch (err) {
+      if (!isCancelledError(err)) {
+        setError(`处理失败: ${err instanceof Error ? err.message : String(err)}`);
+      }
+      setBatchFiles(prev => prev.map(entry => (entry.status === 'processing' ? { ...entry, status: 'pending' } : entry)));
+    } finally {
+      taskRef.current = null;
+      setProcessing(false);
+    }
+  };
 
-      // 校验列名和顺序（确保后续可直接进入"标注后数据处理"）
-      validateColumns(columns);
-
-      const nextTableData: ProcessedTableData = {
-        sourceFileName: file.name,
-        columns,
-        rows: expandedData
-      };
+  // 将离线标注的 Excel 中的 tf 合并到当前表格（可撤销）
+  const mergeFromExcel = async (excelFile: File, mapping?: ColumnMapping) => {
+    if (!tableData) return;
+    setMerging(true);
+    setMergeReport(null);
+    setTfHint(null);
 
-      setTableData(nextTableData);
-      setPage(1);
+    try {
+      if (!mapping && !(await checkColumns(excelFile, 'merge'))) return;
 
+      const source = await runTask(runPipelineTask({ type: 'importAnnotatedFile', file: excelFile, mapping }));
+      const { tableData: merged, ...report } = mergeTfValues(tableData, source, mergePolicy);
+      setMergeReport({ ...report, fileName: excelFile.name });
+      setValidationError(null);
+      applyEdit(`合并 ${excelFile.name}（${report.appliedCount} 行 tf）`, merged, errorRows);
     } catch (err) {
-      setError(`处理失败: ${err instanceof Error ? err.message : String(err)}`);
-      setTableData(null);
+      if (!isCancelledError(err)) {
+        setTfHint(`合并失败：${err instanceof Error ? err.message : String(err)}`);
+      }
     } finally {
-      setProcessing(false);
+      taskRef.current = null;
+      setMerging(false);
+    }
+  };
+
+  const finishDiagnosticsReview = (repairs: LineRepairs) => {
+    if (!diagnosticsReview) return;
+    const { diagnostics, tableData: parsed, mapping } = diagnosticsReview;
+    setDiagnosticsReview(null);
+    if (Object.keys(repairs).length === 0) {
+      setParseReport({ diagnostics, repairs });
+      setTableData(parsed);
+      return;
     }
+    // 纳入修复后的行需要重新解析，以保持原有的行顺序
+    processFile(mapping, { diagnostics, repairs });
+  };
+
+  const downloadDiagnostics = (
+    diagnostics: ParseDiagnostics,
+    repairs: LineRepairs,
+    sourceFileName = file?.name ?? tableData?.sourceFileName ?? ''
+  ) => {
+    const blob = new Blob([buildDiagnosticsCsv(diagnostics, repairs)], { type: 'text/csv;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = buildDiagnosticsFileName(sourceFileName);
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const confirmColumnMapping = (mapping: ColumnMapping, remember: boolean) => {
+    if (!pendingMapping) return;
+    if (remember) {
+      rememberColumnMapping(pendingMapping.inspection.columns, mapping);
+    }
+    setPendingMapping(null);
+    if (pendingMapping.purpose === 'merge') {
+      mergeFromExcel(pendingMapping.file, mapping);
+    } else {
+      processFile(mapping);
+    }
+  };
+
+  const cancelProcessing = () => {
+    taskRef.current?.cancel();
   };
 
   const reset = () => {
+    taskRef.current?.cancel();
     setFile(null);
+    setBatchFiles([]);
+    setBatchQueue(null);
     setError(null);
     setTableData(null);
-    setPage(1);
+    setJumpTarget('');
+    setActiveRow(0);
     setTfHint(null);
     setValidationError(null);
     setErrorRows(new Set()); // 重置错误行集合
+    setSelectedRows(new Set());
+    setSelectionAnchor(null);
+    setFilter(EMPTY_FILTER);
+    setSort(null);
+    history.clear();
+    setMergeReport(null);
+    setPendingMapping(null);
+    setPreview(null);
+    setPreviewError(null);
+    setDialectOverride(null);
+    setEncodingOverride(null);
+    setDiagnosticsReview(null);
+    setParseReport(null);
+    setPendingResume(null);
+    setLastSavedAt(null);
+  };
+
+  const resumeSession = (session: SavedSession) => {
+    reset();
+    setTableData(session.tableData);
+  };
+
+  const discardSession = (session: SavedSession) => {
+    setSavedSessions(prev => prev.filter(s => s.id !== session.id));
+    deleteSession(session.id).catch(err => console.warn('删除本地会话失败：', err));
   };
 
   const updateTf = (globalRowIndex: number, nextValue: string) => {
@@ -261,62 +649,148 @@ const RawDataProcessor = ({ onDataChange, onGoToNext, initialData }: Props) => {
       return;
     }
 
+    setTfForRowIndices([globalRowIndex], v);
+  };
+
+  // 应用一次编辑：同时更新表格与错误行，并记录到撤销历史
+  const applyEdit = (label: string, nextTableData: ProcessedTableData, nextErrorRows: Set<number>) => {
+    if (!tableData || nextTableData === tableData) return;
+    history.record(label, { tableData, errorRows }, { tableData: nextTableData, errorRows: nextErrorRows });
+    setTableData(nextTableData);
+    setErrorRows(nextErrorRows);
+  };
+
+  // 批量设置 tf（单行编辑与批量操作共用）
+  const setTfForRowIndices = (rowIndices: number[], value: '' | '0' | '1') => {
+    if (!tableData) return;
     setTfHint(null);
     setValidationError(null); // 用户修改时清除校验错误
 
     // 如果值变为有效（0或1），从错误行集合中移除
-    if (v === '0' || v === '1') {
-      setErrorRows(prev => {
-        const next = new Set(prev);
-        next.delete(globalRowIndex);
-        return next;
-      });
+    const nextErrorRows = new Set(errorRows);
+    if (value === '0' || value === '1') {
+      rowIndices.forEach(index => nextErrorRows.delete(index));
     }
 
-    setTableData(prev => {
-      if (!prev) return prev;
-      if (tfColumnIndex < 0) return prev;
+    const label = rowIndices.length === 1
+      ? `第 ${rowIndices[0] + 1} 行 tf → ${value || '空'}`
+      : `批量设置 ${rowIndices.length} 行 tf → ${value || '空'}`;
+    applyEdit(label, setTfForRows(tableData, rowIndices, value), nextErrorRows);
+  };
+
+  const deleteRow = (globalRowIndex: number) => {
+    deleteRowIndices([globalRowIndex]);
+  };
 
-      const nextRows = prev.rows.slice();
-      const row = nextRows[globalRowIndex];
-      if (!row) return prev;
+  const deleteRowIndices = (rowIndices: number[]) => {
+    if (!tableData) return;
+    setValidationError(null); // 删除行时清除校验错误
 
-      const nextRow = row.slice();
-      nextRow[tfColumnIndex] = v;
-      nextRows[globalRowIndex] = nextRow;
+    // 从错误行与选中行集合中移除，并重新映射其后的行索引
+    setSelectedRows(prev => remapIndicesAfterDelete(prev, rowIndices));
+    setSelectionAnchor(null);
 
-      return { ...prev, rows: nextRows };
-    });
+    const label = rowIndices.length === 1
+      ? `删除第 ${rowIndices[0] + 1} 行`
+      : `删除 ${rowIndices.length} 行`;
+    applyEdit(label, deleteRows(tableData, rowIndices), remapIndicesAfterDelete(errorRows, rowIndices));
   };
 
-  const deleteRow = (globalRowIndex: number) => {
-    setValidationError(null); // 删除行时清除校验错误
-    
-    // 从错误行集合中移除
-    setErrorRows(prev => {
+  // 合并重复评论：默认每组在各观点内只保留第一行，确认跨观点合并时整组只保留第一行
+  const collapseDuplicateGroups = (groups: DuplicateGroup[], acrossOpinions = false) => {
+    if (!tableData || groups.length === 0) return;
+    setValidationError(null);
+
+    const { tableData: next, deletedIndices } = collapseDuplicates(tableData, groups, acrossOpinions);
+    if (deletedIndices.length === 0) return;
+    setSelectedRows(prev => remapIndicesAfterDelete(prev, deletedIndices));
+    setSelectionAnchor(null);
+
+    const label = `合并 ${groups.length} 组重复评论（删除 ${deletedIndices.length} 行）`;
+    applyEdit(label, next, remapIndicesAfterDelete(errorRows, deletedIndices));
+  };
+
+  // 将标注同步到重复评论的所有副本
+  const syncDuplicateGroupLabels = (groups: DuplicateGroup[], value?: '0' | '1') => {
+    if (!tableData) return;
+    setValidationError(null);
+
+    const { tableData: next, updatedIndices } = syncDuplicateLabels(tableData, groups, value);
+    const nextErrorRows = new Set(errorRows);
+    updatedIndices.forEach(index => nextErrorRows.delete(index));
+
+    const label = value
+      ? `${groups.length} 组重复评论 tf → ${value}`
+      : `同步 ${groups.length} 组重复评论的标注`;
+    applyEdit(label, next, nextErrorRows);
+  };
+
+  // 撤销/重做/跳转到历史中的某一步，表格与错误行一起恢复
+  const restoreHistory = (snapshot: EditSnapshot | null) => {
+    if (!snapshot) return;
+    setTableData(snapshot.tableData);
+    setErrorRows(snapshot.errorRows);
+    setValidationError(null);
+    // 行索引可能已变化，清空选择
+    setSelectedRows(new Set());
+    setSelectionAnchor(null);
+  };
+
+  const undo = () => restoreHistory(history.undo());
+  const redo = () => restoreHistory(history.redo());
+
+  // 供键盘快捷键使用的最新回调
+  const undoRef = useRef(undo);
+  const redoRef = useRef(redo);
+  useEffect(() => {
+    undoRef.current = undo;
+    redoRef.current = redo;
+  });
+
+  const toggleRowSelection = (globalRowIndex: number, extendRange: boolean) => {
+    // 范围按表格中的显示顺序计算（筛选、排序后）
+    const anchorPosition = selectionAnchor === null ? -1 : viewRowIndices.indexOf(selectionAnchor);
+    const position = viewRowIndices.indexOf(globalRowIndex);
+
+    setSelectedRows(prev => {
       const next = new Set(prev);
-      next.delete(globalRowIndex);
-      // 重新映射所有大于被删除行索引的错误行
-      const remapped = new Set<number>();
-      next.forEach(idx => {
-        if (idx > globalRowIndex) {
-          remapped.add(idx - 1);
-        } else {
-          remapped.add(idx);
-        }
-      });
-      return remapped;
+      // Shift 点击：选中上次点击的行到当前行之间的所有行
+      if (extendRange && anchorPosition >= 0 && position >= 0) {
+        const from = Math.min(anchorPosition, position);
+        const to = Math.max(anchorPosition, position);
+        for (let i = from; i <= to; i++) next.add(viewRowIndices[i]);
+      } else if (next.has(globalRowIndex)) {
+        next.delete(globalRowIndex);
+      } else {
+        next.add(globalRowIndex);
+      }
+      return next;
     });
-    
-    setTableData(prev => {
-      if (!prev) return prev;
-      if (globalRowIndex < 0 || globalRowIndex >= prev.rows.length) return prev;
-      const nextRows = prev.rows.slice();
-      nextRows.splice(globalRowIndex, 1);
-      return { ...prev, rows: nextRows };
+    setSelectionAnchor(globalRowIndex);
+  };
+
+  const selectRows = (rowIndices: number[] | null) => {
+    setSelectedRows(new Set(rowIndices ?? []));
+    setSelectionAnchor(null);
+  };
+
+  // 表头排序：升序 → 降序 → 取消排序
+  const toggleSort = (column: string) => {
+    setSort(prev => {
+      if (!prev || prev.column !== column) return { column, direction: 'asc' };
+      if (prev.direction === 'asc') return { column, direction: 'desc' };
+      return null;
     });
   };
 
+  // 在表格中定位某一行；若该行被筛选隐藏，则先清除筛选
+  const revealRowInTable = (globalRowIndex: number) => {
+    if (tableRef.current?.scrollToRow(globalRowIndex)) return;
+    setFilter(EMPTY_FILTER);
+    setSort(null);
+    setTimeout(() => tableRef.current?.scrollToRow(globalRowIndex), 0);
+  };
+
   const validateTfColumn = () => {
     if (!tableData || tfColumnIndex < 0) {
       return { valid: false, message: '数据异常：未找到 tf 列', errorRowIndices: [] };
@@ -349,7 +823,8 @@ const RawDataProcessor = ({ onDataChange, onGoToNext, initialData }: Props) => {
     return { valid: true, message: '', errorRowIndices: [] };
   };
 
-  const handleGoToNext = () => {
+  // 校验 tf 列；未通过时提示并定位到第一个错误行
+  const ensureTfComplete = () => {
     const validation = validateTfColumn();
     
     if (!validation.valid) {
@@ -362,71 +837,132 @@ const RawDataProcessor = ({ onDataChange, onGoToNext, initialData }: Props) => {
         if (errorEl) {
           errorEl.scrollIntoView({ behavior: 'smooth', block: 'center' });
         }
+        // 定位到第一个错误行
+        locateRow(validation.errorRowIndices[0]);
       }, 100);
-      return;
+      return false;
     }
 
     setValidationError(null);
     setErrorRows(new Set());
+    return true;
+  };
+
+  // 逐个标注时，进入下一步前将各文件的表格合并（追加 source_file 列）
+  const collectBatchTables = (current: ProcessedTableData) => {
+    if (!batchQueue) return current;
+    return combineTables([...batchQueue.completed, current, ...batchQueue.pending]);
+  };
+
+  const handleGoToNext = () => {
+    if (!ensureTfComplete()) return;
     if (tableData && onGoToNext) {
-      onGoToNext(tableData, 'online');
+      onGoToNext(collectBatchTables(tableData), 'online');
+    }
+  };
+
+  // 逐个标注：当前文件标注完成后切换到下一个文件
+  const goToNextBatchFile = () => {
+    if (!tableData || !batchQueue || batchQueue.pending.length === 0) return;
+    if (!ensureTfComplete()) return;
+
+    const [next, ...rest] = batchQueue.pending;
+    setBatchQueue({ completed: [...batchQueue.completed, tableData], pending: rest });
+    history.clear();
+    setSelectedRows(new Set());
+    setSelectionAnchor(null);
+    setFilter(EMPTY_FILTER);
+    setSort(null);
+    setActiveRow(0);
+    setMergeReport(null);
+    setLastSavedAt(null);
+    setTableData(next);
+  };
+
+  const jumpToRow = () => {
+    const rowNumber = Number(jumpTarget.trim());
+    if (!Number.isInteger(rowNumber) || rowNumber < 1 || rowNumber > totalRows) {
+      setTfHint(`请输入 1 到 ${totalRows} 之间的行号`);
+      return;
+    }
+    setTfHint(null);
+    locateRow(rowNumber - 1);
+  };
+
+  // 专注模式下切换当前行；其他视图下切换到表格并滚动到该行
+  const locateRow = (globalRowIndex: number) => {
+    if (viewMode === 'focus') {
+      setActiveRow(globalRowIndex);
+      return;
     }
+    setViewMode('table');
+    setTimeout(() => revealRowInTable(globalRowIndex), 0);
+  };
+
+  const switchViewMode = (mode: ViewMode) => {
+    setViewMode(mode);
+    setTfHint(null);
+    if (mode === 'table' && viewMode === 'focus') {
+      // 回到表格时定位到专注模式中的当前行
+      setTimeout(() => revealRowInTable(activeRow), 0);
+    }
+  };
+
+  const flagErrorRows = () => {
+    const validation = validateTfColumn();
+    setErrorRows(new Set(validation.errorRowIndices));
+    return validation.errorRowIndices;
   };
 
   const handleSkipToOffline = () => {
     if (tableData && onGoToNext) {
-      onGoToNext(tableData, 'offline');
+      onGoToNext(collectBatchTables(tableData), 'offline');
     }
   };
 
   const downloadAsXlsx = () => {
     if (!tableData) return;
 
-    // 准备导出数据：表头 + 数据行
-    const exportData = [
-      tableData.columns,
-      ...tableData.rows
-    ];
-
-    const worksheet = XLSX.utils.aoa_to_sheet(exportData);
-    const workbook = XLSX.utils.book_new();
-    XLSX.utils.book_append_sheet(workbook, worksheet, 'Sheet1');
-
-    const fileName = tableData.sourceFileName.replace(/\.[^.]+$/, '') + '-待标注.xlsx';
+    const workbook = buildAnnotationWorkbook(tableData);
+    const fileName = buildAnnotationFileName(tableData.sourceFileName);
     XLSX.writeFile(workbook, fileName);
   };
 
+  const isBatch = batchFiles.length > 0;
+  const batchSize = batchFiles.reduce((sum, entry) => sum + entry.file.size, 0);
+
   return (
     <div className="processor-container">
       <div className="step-header">
         <h2 className="step-title">📄 第一步：原始数据处理</h2>
         <p className="step-description">
           上传 TXT 文件后，系统会自动处理并展示为可编辑表格。你可以在表格中填写 tf 值（0/1）并删除不需要的行。
+          也可以上传离线标注过的「待标注」Excel 文件，继续在线检查和修改。
         </p>
       </div>
 
       <div
-        className={`upload-section-compact ${dragOver ? 'drag-over' : ''} ${file ? 'has-file' : ''}`}
+        className={`upload-section-compact ${dragOver ? 'drag-over' : ''} ${file || isBatch ? 'has-file' : ''}`}
         onDragOver={handleDragOver}
         onDragLeave={handleDragLeave}
         onDrop={handleDrop}
       >
-        {!file ? (
+        {!file && !isBatch ? (
           <div className="upload-compact-content">
             <div className="upload-icon-small">📁</div>
             <div className="upload-compact-text">
               <label htmlFor="raw-file-input" className="file-input-label-compact">
-                选择 TXT 文件
+                选择 TXT / Excel 文件
               </label>
-              <span className="upload-hint">或拖拽文件到此处</span>
+              <span className="upload-hint">或拖拽文件到此处，可一次选择多个 TXT 批量处理</span>
             </div>
           </div>
         ) : (
           <div className="upload-file-ready">
             <div className="file-ready-icon">✓</div>
             <div className="file-ready-info">
-              <div className="file-ready-name">{file.name}</div>
-              <div className="file-ready-size">{(file.size / 1024).toFixed(2)} KB</div>
+              <div className="file-ready-name">{file ? file.name : `${batchFiles.length} 个 TXT 文件`}</div>
+              <div className="file-ready-size">{((file ? file.size : batchSize) / 1024).toFixed(2)} KB</div>
             </div>
             <div className="file-ready-actions">
               <label htmlFor="raw-file-input-change" className="file-change-button">
@@ -441,30 +977,97 @@ const RawDataProcessor = ({ onDataChange, onGoToNext, initialData }: Props) => {
         <input
           id="raw-file-input"
           type="file"
-          accept=".txt"
+          accept=".txt,.xlsx,.xls"
+          multiple
           onChange={handleFileChange}
           className="file-input"
         />
         <input
           id="raw-file-input-change"
           type="file"
-          accept=".txt"
+          accept=".txt,.xlsx,.xls"
+          multiple
           onChange={handleFileChange}
           className="file-input"
         />
       </div>
 
-      {file && !processing && !tableData && (
-        <button onClick={processFile} className="process-button">
+      {!file && !isBatch && !processing && !tableData && !pendingResume && (
+        <SessionResumeCard
+          sessions={savedSessions}
+          onResume={resumeSession}
+          onDiscard={discardSession}
+        />
+      )}
+
+      {pendingResume && !processing && (
+        <SessionResumeCard
+          sessions={[pendingResume.session]}
+          onResume={resumePendingSession}
+          onDiscard={discardPendingSession}
+        />
+      )}
+
+      {file && !processing && !tableData && !diagnosticsReview && !pendingResume && !isExcelFile(file.name) && (
+        <>
+          <DialectPreview
+            preview={preview}
+            override={dialectOverride}
+            encodingOverride={encodingOverride}
+            error={previewError}
+            onChange={changeDialect}
+            onEncodingChange={changeEncoding}
+          />
+          <CommentSplitSettings rules={splitRules} scope="split" onChange={setSplitRules} />
+        </>
+      )}
+
+      {file && !processing && !tableData && !diagnosticsReview && !pendingResume && (
+        <button
+          onClick={() => processFile()}
+          className="process-button"
+          disabled={!isExcelFile(file.name) && validateSplitRules(splitRules).error !== null}
+        >
           开始处理
         </button>
       )}
 
+      {isBatch && (
+        <>
+          <BatchFileList
+            entries={batchFiles}
+            mode={batchMode}
+            locked={processing || batchFiles.some(entry => entry.status !== 'pending')}
+            onModeChange={setBatchMode}
+            onRemove={removeBatchFile}
+            onDownloadDiagnostics={(entry) => entry.diagnostics && downloadDiagnostics(entry.diagnostics, {}, entry.file.name)}
+          />
+          {!processing && !tableData && batchFiles.every(entry => entry.status === 'pending') && (
+            <>
+              <CommentSplitSettings rules={splitRules} scope="split" onChange={setSplitRules} />
+              <button
+                onClick={processBatch}
+                className="process-button"
+                disabled={validateSplitRules(splitRules).error !== null}
+              >
+                开始批量处理
+              </button>
+            </>
+          )}
+        </>
+      )}
+
+      {diagnosticsReview && !processing && (
+        <ParseDiagnosticsPanel
+          diagnostics={diagnosticsReview.diagnostics}
+          mapping={diagnosticsReview.mapping}
+          onDownload={(repairs) => downloadDiagnostics(diagnosticsReview.diagnostics, repairs)}
+          onContinue={finishDiagnosticsReview}
+        />
+      )}
+
       {processing && (
-        <div className="processing">
-          <div className="spinner"></div>
-          <p>正在处理文件，请稍候...</p>
-        </div>
+        <ProcessingIndicator progress={progress} onCancel={cancelProcessing} />
       )}
 
       {error && (
@@ -488,6 +1091,31 @@ const RawDataProcessor = ({ onDataChange, onGoToNext, initialData }: Props) => {
             <p><strong>源文件:</strong> {tableData.sourceFileName}</p>
             <p><strong>数据行数:</strong> {tableData.rows.length} 行</p>
             <p><strong>列数:</strong> {tableData.columns.length} 列</p>
+            {parseReport && hasParseIssues(parseReport.diagnostics) && (
+              <p>
+                <strong>解析诊断:</strong> {parseReport.diagnostics.rejected.length} 行列数不一致，
+                已修复纳入 {Object.keys(parseReport.repairs).length} 行
+                {parseReport.diagnostics.multiline.length > 0
+                  && `；${parseReport.diagnostics.multiline.length} 条记录跨越多行`}
+                <button
+                  className="link-button"
+                  onClick={() => downloadDiagnostics(parseReport.diagnostics, parseReport.repairs)}
+                >
+                  下载诊断报告
+                </button>
+              </p>
+            )}
+            {batchQueue && (
+              <p>
+                <strong>逐个标注:</strong> 第 {batchQueue.completed.length + 1} / {batchQueue.completed.length + 1 + batchQueue.pending.length} 个文件，
+                全部完成后合并进入下一步
+              </p>
+            )}
+            {lastSavedAt && (
+              <p className="autosave-status">
+                已自动保存到本地浏览器 · {new Date(lastSavedAt).toLocaleTimeString('zh-CN', { hour12: false })}
+              </p>
+            )}
           </div>
 
           <div className="alternative-download">
@@ -496,6 +1124,15 @@ const RawDataProcessor = ({ onDataChange, onGoToNext, initialData }: Props) => {
             </button>
           </div>
 
+          <TfMergePanel
+            policy={mergePolicy}
+            merging={merging}
+            report={mergeReport}
+            onPolicyChange={setMergePolicy}
+            onSelectFile={(excelFile) => mergeFromExcel(excelFile)}
+            onDismissReport={() => setMergeReport(null)}
+          />
+
           {tfHint && (
             <div className="hint-message">
               <strong>提示：</strong>{tfHint}
@@ -512,73 +1149,117 @@ const RawDataProcessor = ({ onDataChange, onGoToNext, initialData }: Props) => {
             </div>
           )}
 
-          <div className="table-container">
-            <table className="data-table">
-              <thead>
-                <tr>
-                  <th className="row-number-col">行号</th>
-                  {tableData.columns.map((col) => (
-                    <th key={col}>{col}</th>
-                  ))}
-                  <th className="table-sticky-col">操作</th>
-                </tr>
-              </thead>
-              <tbody>
-                {visibleRows.map((row, rowIndex) => {
-                  const globalIndex = (page - 1) * pageSize + rowIndex;
-                  const isErrorRow = errorRows.has(globalIndex);
-                  return (
-                    <tr key={globalIndex} className={isErrorRow ? 'error-row' : ''}>
-                      <td className="row-number-cell">{globalIndex + 1}</td>
-                      {tableData.columns.map((col, colIndex) => {
-                        const cellValue = row[colIndex] ?? '';
-
-                        if (col === 'tf') {
-                          return (
-                            <td key={`${globalIndex}-${col}`}>
-                              <input
-                                className={`tf-input ${isErrorRow ? 'tf-input-error' : ''}`}
-                                value={cellValue}
-                                inputMode="numeric"
-                                placeholder="0/1"
-                                onChange={(e) => updateTf(globalIndex, e.target.value)}
-                              />
-                            </td>
-                          );
-                        }
-
-                        return <td key={`${globalIndex}-${col}`}>{cellValue}</td>;
-                      })}
-                      <td className="table-sticky-col">
-                        <button
-                          className="row-delete-button"
-                          onClick={() => deleteRow(globalIndex)}
-                        >
-                          删除
-                        </button>
-                      </td>
-                    </tr>
-                  );
-                })}
-              </tbody>
-            </table>
+          <div className="view-mode-switch">
+            {VIEW_MODES.map(({ mode, label }) => (
+              <button
+                key={mode}
+                className={`view-mode-button ${viewMode === mode ? 'active' : ''}`}
+                onClick={() => switchViewMode(mode)}
+              >
+                {label}
+              </button>
+            ))}
+            <button
+              className={`view-mode-button history-toggle ${showHistory ? 'active' : ''}`}
+              onClick={() => setShowHistory(v => !v)}
+            >
+              操作历史（{history.entries.length}）
+            </button>
           </div>
 
+          {showHistory && (
+            <HistoryPanel
+              entries={history.entries}
+              cursor={history.cursor}
+              canUndo={history.canUndo}
+              canRedo={history.canRedo}
+              onUndo={undo}
+              onRedo={redo}
+              onGoTo={(cursor) => restoreHistory(history.goTo(cursor))}
+            />
+          )}
+
+          {viewMode === 'table' && (
+            <>
+              <FilterBar
+                tableData={tableData}
+                filter={filter}
+                visibleCount={viewRowIndices.length}
+                onFilterChange={setFilter}
+                onClear={() => setFilter(EMPTY_FILTER)}
+              />
+              <BulkActionBar
+                tableData={tableData}
+                selectedRows={selectedRows}
+                visibleRowIndices={viewRowIndices}
+                isFiltered={isFilterActive(filter)}
+                onSelectRows={selectRows}
+                onSetTf={(value) => setTfForRowIndices(Array.from(selectedRows), value)}
+                onDeleteSelected={() => deleteRowIndices(Array.from(selectedRows))}
+              />
+              <AnnotationTable
+                ref={tableRef}
+                tableData={tableData}
+                rowIndices={viewRowIndices}
+                sort={sort}
+                onSortChange={toggleSort}
+                errorRows={errorRows}
+                selectedRows={selectedRows}
+                onToggleRow={toggleRowSelection}
+                onSelectAll={(selectAll) => selectRows(selectAll ? viewRowIndices : null)}
+                onUpdateTf={updateTf}
+                onDeleteRow={deleteRow}
+              />
+            </>
+          )}
+
+          {viewMode === 'focus' && (
+            <FocusAnnotationPanel
+              tableData={tableData}
+              activeIndex={activeRow}
+              errorRows={errorRows}
+              onActiveIndexChange={setActiveRow}
+              onUpdateTf={updateTf}
+              onDeleteRow={deleteRow}
+              onFlagErrors={flagErrorRows}
+              onHint={setTfHint}
+            />
+          )}
+
+          {viewMode === 'groups' && (
+            <GroupAnnotationView
+              tableData={tableData}
+              errorRows={errorRows}
+              onUpdateTf={updateTf}
+              onSetGroupTf={setTfForRowIndices}
+              onDeleteRow={deleteRow}
+            />
+          )}
+
+          {viewMode === 'duplicates' && (
+            <DuplicateReviewView
+              tableData={tableData}
+              onCollapse={collapseDuplicateGroups}
+              onSyncLabels={syncDuplicateGroupLabels}
+              onLocateRow={locateRow}
+            />
+          )}
+
           <div className="table-actions">
             <div className="table-actions-left">
-              <span className="table-badge">当前页：{page}/{totalPages}</span>
+              <span className="table-badge">共 {totalRows} 行</span>
               <label className="table-label">
-                每页显示
-                <select
-                  className="table-select"
-                  value={pageSize}
-                  onChange={(e) => setPageSize(Number(e.target.value))}
-                >
-                  <option value={50}>50</option>
-                  <option value={200}>200</option>
-                  <option value={500}>500</option>
-                  <option value={1000}>1000</option>
-                </select>
+                跳转到第
+                <input
+                  className="row-jump-input"
+                  value={jumpTarget}
+                  inputMode="numeric"
+                  placeholder={`1-${totalRows}`}
+                  onChange={(e) => setJumpTarget(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') jumpToRow();
+                  }}
+                />
                 行
               </label>
             </div>
@@ -586,29 +1267,28 @@ const RawDataProcessor = ({ onDataChange, onGoToNext, initialData }: Props) => {
             <div className="table-actions-right">
               <button
                 className="secondary-button"
-                onClick={() => setPage(p => Math.max(1, p - 1))}
-                disabled={page <= 1}
+                onClick={jumpToRow}
+                disabled={!jumpTarget.trim()}
               >
-                上一页
-              </button>
-              <button
-                className="secondary-button"
-                onClick={() => setPage(p => Math.min(totalPages, p + 1))}
-                disabled={page >= totalPages}
-              >
-                下一页
+                跳转
               </button>
             </div>
           </div>
 
           <div className="action-buttons">
-            <button
-              className="primary-action-button"
-              onClick={handleGoToNext}
-              disabled={!tableData || !onGoToNext}
-            >
-              下一步：生成 CSV 文件 →
-            </button>
+            {batchQueue && batchQueue.pending.length > 0 ? (
+              <button className="primary-action-button" onClick={goToNextBatchFile}>
+                完成本文件，标注下一个（{batchQueue.pending[0].sourceFileName}）→
+              </button>
+            ) : (
+              <button
+                className="primary-action-button"
+                onClick={handleGoToNext}
+                disabled={!tableData || !onGoToNext}
+              >
+                下一步：生成 CSV 文件 →
+              </button>
+            )}
             <button
               onClick={reset}
               className="secondary-action-button"
@@ -628,6 +1308,17 @@ const RawDataProcessor = ({ onDataChange, onGoToNext, initialData }: Props) => {
           </div>
         </div>
       )}
+
+      {pendingMapping && (
+        <ColumnMappingDialog
+          fileName={pendingMapping.file.name}
+          inspection={pendingMapping.inspection}
+          initialMapping={pendingMapping.initialMapping}
+          optionalColumns={['tf']}
+          onConfirm={confirmColumnMapping}
+          onCancel={() => setPendingMapping(null)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,112 @@
+import { useMemo, useState } from 'react';
+import { DEFAULT_REPORT_OPTIONS, MAX_REPORT_SAMPLES, buildReportData, buildReportFileName, buildReportHtml } from '../core';
+import type { ReportOptions } from '../core';
+import type { OutputDetails } from '../workers/pipelineClient';
+
+type Props = {
+  // 各输出文件的聚合结果，报告文件名由输出文件名生成
+  outputs: OutputDetails[];
+};
+
+const ReportGenerator = ({ outputs }: Props) => {
+  const [selected, setSelected] = useState(0);
+  const [open, setOpen] = useState(false);
+  const [options, setOptions] = useState<ReportOptions>(DEFAULT_REPORT_OPTIONS);
+  const current = outputs[Math.min(selected, outputs.length - 1)];
+  // 展开时才为当前选中的输出文件生成报告数据
+  const report = useMemo(() => {
+    return open && current ? buildReportData(current.renamedData, current.groupSummaries) : null;
+  }, [open, current]);
+  if (!current) return null;
+
+  const downloadHtml = () => {
+    if (!report) return;
+    const blob = new Blob([buildReportHtml(report, options)], { type: 'text/html;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = buildReportFileName(current.fileName);
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  // 在隐藏的 iframe 中渲染报告并调用打印，用户可在打印对话框中选择「另存为 PDF」
+  const printReport = () => {
+    if (!report) return;
+    const iframe = document.createElement('iframe');
+    iframe.style.position = 'fixed';
+    iframe.style.width = '0';
+    iframe.style.height = '0';
+    iframe.style.border = '0';
+    iframe.onload = () => {
+      iframe.contentWindow?.focus();
+      iframe.contentWindow?.print();
+      // 打印对话框关闭后再移除 iframe
+      setTimeout(() => document.body.removeChild(iframe), 1000);
+    };
+    iframe.srcdoc = buildReportHtml(report, options);
+    document.body.appendChild(iframe);
+  };
+
+  return (
+    <details className="split-settings report-generator" onToggle={(e) => setOpen(e.currentTarget.open)}>
+      <summary>结案报告</summary>
+
+      {report && (
+        <>
+          <div className="split-settings-body">
+            {outputs.length > 1 && (
+              <label className="table-label">
+                输出文件
+                <select className="table-select" value={selected} onChange={(e) => setSelected(Number(e.target.value))}>
+                  {outputs.map((o, i) => (
+                    <option key={o.fileName} value={i}>{o.fileName}</option>
+                  ))}
+                </select>
+              </label>
+            )}
+            <label className="table-label">
+              每个观点的示例评论数
+              <input
+                type="number"
+                min={0}
+                max={MAX_REPORT_SAMPLES}
+                className="split-settings-input"
+                value={options.sampleCount}
+                onChange={(e) => setOptions({ ...options, sampleCount: Number(e.target.value) })}
+              />
+            </label>
+          </div>
+
+          <div className="split-settings-body">
+            <input
+              className="split-settings-input report-generator-input"
+              value={options.title}
+              placeholder={`标题，默认「${report.names.join('、') || '活动'} 结案报告」`}
+              onChange={(e) => setOptions({ ...options, title: e.target.value })}
+            />
+            <input
+              className="split-settings-input report-generator-input"
+              value={options.header}
+              placeholder="页眉，如 客户名称 · 内部资料"
+              onChange={(e) => setOptions({ ...options, header: e.target.value })}
+            />
+          </div>
+
+          <div className="split-settings-body">
+            <button className="secondary-button" onClick={downloadHtml}>下载 HTML</button>
+            <button className="secondary-button" onClick={printReport}>打印 / 导出 PDF</button>
+            <span className="split-settings-default">
+              {report.opinions.length} 个观点
+              {report.beginTime && `，${report.beginTime} – ${report.endTime}`}
+            </span>
+          </div>
+        </>
+      )}
+    </details>
+  );
+};
+
+export default ReportGenerator;
@@ -0,0 +1,269 @@
+import { useMemo, useRef, useState } from 'react';
+import { buildResultsDashboard, toBaseName } from '../core';
+import type { ResultsDashboard } from '../core';
+import type { OutputDetails } from '../workers/pipelineClient';
+
+type Props = {
+  // 各输出文件的聚合结果，文件名作为导出图片的文件名前缀
+  outputs: OutputDetails[];
+};
+
+type ChartSeries = { name: string; color: string };
+
+type ChartRow = {
+  label: string;
+  values: number[];
+  // 显示在条形末尾的说明，默认为各段之和
+  note?: string;
+};
+
+// 常见情感标签使用固定颜色，其余按顺序取色
+const SENTIMENT_COLORS: Record<string, string> = {
+  正面: '#07C160',
+  负面: '#e53e3e',
+  中性: '#8c8c8c'
+};
+const PALETTE = ['#1677ff', '#fa8c16', '#722ed1', '#13c2c2', '#eb2f96', '#a0d911'];
+
+const getSentimentColor = (sentimentTag: string, index: number) => {
+  return SENTIMENT_COLORS[sentimentTag] ?? PALETTE[index % PALETTE.length];
+};
+
+// 图表尺寸（SVG 用户单位）
+const CHART_WIDTH = 720;
+const LABEL_WIDTH = 200;
+const NOTE_WIDTH = 96;
+const ROW_HEIGHT = 28;
+const TITLE_HEIGHT = 36;
+const LEGEND_HEIGHT = 24;
+const LABEL_MAX_LENGTH = 14;
+const FONT_FAMILY = '-apple-system, "PingFang SC", "Microsoft YaHei", sans-serif';
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+type BarChartProps = {
+  title: string;
+  // 导出文件名（不含扩展名）
+  exportName: string;
+  rows: ChartRow[];
+  series: ChartSeries[];
+};
+
+// 横向（堆叠）条形图，直接输出 SVG，可导出为 SVG 或 PNG
+const BarChart = ({ title, exportName, rows, series }: BarChartProps) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const showLegend = series.length > 1;
+  const top = TITLE_HEIGHT + (showLegend ? LEGEND_HEIGHT : 0);
+  const height = top + Math.max(rows.length, 1) * ROW_HEIGHT + 8;
+  const barWidth = CHART_WIDTH - LABEL_WIDTH - NOTE_WIDTH;
+  const max = Math.max(1, ...rows.map(row => row.values.reduce((sum, v) => sum + v, 0)));
+
+  const serialize = () => new XMLSerializer().serializeToString(svgRef.current!);
+
+  const exportSvg = () => {
+    downloadBlob(new Blob([serialize()], { type: 'image/svg+xml;charset=utf-8' }), `${exportName}.svg`);
+  };
+
+  // 以 2 倍分辨率绘制到 canvas，白色背景
+  const exportPng = () => {
+    const url = URL.createObjectURL(new Blob([serialize()], { type: 'image/svg+xml;charset=utf-8' }));
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = CHART_WIDTH * 2;
+      canvas.height = height * 2;
+      const context = canvas.getContext('2d')!;
+      context.scale(2, 2);
+      context.fillStyle = '#fff';
+      context.fillRect(0, 0, CHART_WIDTH, height);
+      context.drawImage(image, 0, 0, CHART_WIDTH, height);
+      URL.revokeObjectURL(url);
+      canvas.toBlob(blob => {
+        if (blob) downloadBlob(blob, `${exportName}.png`);
+      }, 'image/png');
+    };
+    image.src = url;
+  };
+
+  return (
+    <div className="dashboard-chart">
+      <div className="dashboard-chart-actions">
+        <button className="link-button" onClick={exportPng}>导出 PNG</button>
+        <button className="link-button" onClick={exportSvg}>导出 SVG</button>
+      </div>
+      <svg
+        ref={svgRef}
+        xmlns="http://www.w3.org/2000/svg"
+        viewBox={`0 0 ${CHART_WIDTH} ${height}`}
+        width="100%"
+        fontFamily={FONT_FAMILY}
+        fontSize={12}
+      >
+        <rect width={CHART_WIDTH} height={height} fill="#fff" />
+        <text x={0} y={22} fontSize={15} fontWeight={600} fill="#333">{title}</text>
+        {showLegend && series.map((s, i) => (
+          <g key={s.name} transform={`translate(${i * 96}, ${TITLE_HEIGHT})`}>
+            <rect width={10} height={10} y={2} fill={s.color} rx={2} />
+            <text x={16} y={11} fill="#666">{s.name}</text>
+          </g>
+        ))}
+        {rows.length === 0 && <text x={0} y={top + 18} fill="#999">暂无数据</text>}
+        {rows.map((row, rowIndex) => {
+          const y = top + rowIndex * ROW_HEIGHT;
+          const total = row.values.reduce((sum, v) => sum + v, 0);
+          const label = row.label.length > LABEL_MAX_LENGTH ? `${row.label.slice(0, LABEL_MAX_LENGTH)}…` : row.label;
+          let x = LABEL_WIDTH;
+          return (
+            <g key={`${row.label}-${rowIndex}`}>
+              <text x={LABEL_WIDTH - 8} y={y + 18} textAnchor="end" fill="#333">
+                <title>{row.label}</title>
+                {label}
+              </text>
+              {row.values.map((value, i) => {
+                const width = (value / max) * barWidth;
+                const segment = <rect key={i} x={x} y={y + 6} width={width} height={ROW_HEIGHT - 12} fill={series[i].color} />;
+                x += width;
+                return segment;
+              })}
+              <text x={x + 6} y={y + 18} fill="#666">{row.note ?? total}</text>
+            </g>
+          );
+        })}
+      </svg>
+    </div>
+  );
+};
+
+const ResultsDashboardView = ({ outputs }: Props) => {
+  const [selected, setSelected] = useState(0);
+  const [open, setOpen] = useState(false);
+  const current = outputs[Math.min(selected, outputs.length - 1)];
+  // 展开时才为当前选中的输出文件生成汇总
+  const dashboard = useMemo(() => {
+    return open && current ? buildResultsDashboard(current.renamedData, current.groupSummaries) : null;
+  }, [open, current]);
+  if (!current) return null;
+
+  return (
+    <details className="dashboard" onToggle={(e) => setOpen(e.currentTarget.open)}>
+      <summary className="dashboard-title">结果汇总</summary>
+      {dashboard && (
+        <DashboardBody
+          fileName={current.fileName}
+          dashboard={dashboard}
+          outputs={outputs}
+          selected={selected}
+          onSelect={setSelected}
+        />
+      )}
+    </details>
+  );
+};
+
+type BodyProps = {
+  fileName: string;
+  dashboard: ResultsDashboard;
+  outputs: OutputDetails[];
+  selected: number;
+  onSelect: (index: number) => void;
+};
+
+const DashboardBody = ({ fileName, dashboard, outputs, selected, onSelect }: BodyProps) => {
+  const { totals } = dashboard;
+  const baseName = toBaseName(fileName);
+  const sentimentTags = dashboard.sentiments.map(s => s.sentimentTag);
+  const sentimentSeries = sentimentTags.map((tag, i) => ({ name: tag, color: getSentimentColor(tag, i) }));
+  const keptSeries: ChartSeries[] = [
+    { name: '保留', color: '#07C160' },
+    { name: '丢弃', color: '#d9d9d9' }
+  ];
+
+  return (
+    <>
+      {outputs.length > 1 && (
+        <div className="dashboard-header">
+          <label className="table-label">
+            输出文件
+            <select className="table-select" value={selected} onChange={(e) => onSelect(Number(e.target.value))}>
+              {outputs.map((o, i) => (
+                <option key={o.fileName} value={i}>{o.fileName}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+      )}
+
+      <div className="dashboard-stats">
+        <div className="dashboard-stat">
+          <span className="dashboard-stat-value">{totals.keptGroups} / {totals.groups}</span>
+          <span className="dashboard-stat-label">输出的观点 / 全部分组</span>
+        </div>
+        <div className="dashboard-stat">
+          <span className="dashboard-stat-value">{totals.keptComments} / {totals.comments}</span>
+          <span className="dashboard-stat-label">保留的评论 / 全部评论</span>
+        </div>
+        {dashboard.sentiments.map((s, i) => (
+          <div key={s.sentimentTag} className="dashboard-stat">
+            <span className="dashboard-stat-value" style={{ color: getSentimentColor(s.sentimentTag, i) }}>
+              {s.opinionCount}
+            </span>
+            <span className="dashboard-stat-label">{s.sentimentTag}观点（{s.keptComments} 条评论）</span>
+          </div>
+        ))}
+      </div>
+
+      <div className="dashboard-charts">
+        <BarChart
+          title="情感分布（观点数）"
+          exportName={`${baseName}-情感分布`}
+          series={[{ name: '观点数', color: '#1677ff' }]}
+          rows={dashboard.sentiments.map(s => ({
+            label: s.sentimentTag,
+            values: [s.opinionCount],
+            note: `${s.opinionCount} 个观点 · ${s.keptComments} 条评论`
+          }))}
+        />
+        <BarChart
+          title="保留评论最多的观点"
+          exportName={`${baseName}-热门观点`}
+          series={[{ name: '保留评论数', color: '#07C160' }]}
+          rows={dashboard.topOpinions.map(o => ({ label: o.label, values: [o.keptComments] }))}
+        />
+        <BarChart
+          title="各观点评论保留情况（按评论数）"
+          exportName={`${baseName}-观点保留情况`}
+          series={keptSeries}
+          rows={dashboard.opinionShares.map(o => {
+            const total = o.keptComments + o.droppedComments;
+            return {
+              label: o.label,
+              values: [o.keptComments, o.droppedComments],
+              note: `${o.keptComments}/${total}（${total > 0 ? Math.round((o.keptComments / total) * 100) : 0}%）`
+            };
+          })}
+        />
+        <BarChart
+          title="按 cid 的观点数"
+          exportName={`${baseName}-cid明细`}
+          series={sentimentSeries}
+          rows={dashboard.cids.map(c => ({
+            label: c.name ? `${c.cid} ${c.name}` : c.cid,
+            values: sentimentTags.map(tag => c.bySentiment[tag] ?? 0),
+            note: `${c.opinionCount} 个观点 · ${c.keptComments} 条评论`
+          }))}
+        />
+      </div>
+    </>
+  );
+};
+
+export default ResultsDashboardView;
@@ -0,0 +1,47 @@
+import type { SavedSession } from '../storage/sessionStore';
+
+type Props = {
+  sessions: SavedSession[];
+  onResume: (session: SavedSession) => void;
+  onDiscard: (session: SavedSession) => void;
+};
+
+const formatTime = (timestamp: number) => {
+  return new Date(timestamp).toLocaleString('zh-CN', { hour12: false });
+};
+
+const SessionResumeCard = ({ sessions, onResume, onDiscard }: Props) => {
+  if (sessions.length === 0) return null;
+
+  return (
+    <div className="warning-card session-resume-card">
+      <div className="warning-icon">💾</div>
+      <div className="warning-content">
+        <div className="warning-title">发现未完成的标注</div>
+        <div className="warning-text">标注进度仅保存在当前浏览器本地，可继续上次的标注或丢弃。</div>
+        <ul className="session-resume-list">
+          {sessions.map(session => (
+            <li key={session.id} className="session-resume-item">
+              <div className="session-resume-info">
+                <strong>{session.sourceFileName}</strong>
+                <span>
+                  已标注 {session.labeledCount}/{session.rowCount} 行 · 保存于 {formatTime(session.updatedAt)}
+                </span>
+              </div>
+              <div className="session-resume-actions">
+                <button className="link-button" onClick={() => onResume(session)}>
+                  继续标注
+                </button>
+                <button className="file-delete-button" onClick={() => onDiscard(session)}>
+                  丢弃
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default SessionResumeCard;
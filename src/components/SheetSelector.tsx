@@ -0,0 +1,66 @@
+import { needsColumnMapping } from '../core';
+import type { SheetSummary } from '../core';
+
+type Props = {
+  sheets: SheetSummary[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+};
+
+// 表头预览最多显示的列数
+const PREVIEW_COLUMNS = 6;
+
+const describeSheet = (sheet: SheetSummary) => {
+  if (sheet.rowCount === 0) return { label: '空工作表', ok: false };
+  if (!needsColumnMapping(sheet.columns, false)) return { label: '列名符合要求', ok: true };
+  return { label: '列名不一致，需映射', ok: false };
+};
+
+const SheetSelector = ({ sheets, selected, onChange }: Props) => {
+  const toggle = (name: string) => {
+    // 保持工作簿中的工作表顺序
+    const next = selected.includes(name) ? selected.filter(s => s !== name) : [...selected, name];
+    onChange(sheets.map(sheet => sheet.name).filter(sheetName => next.includes(sheetName)));
+  };
+
+  const selectValidSheets = () => {
+    onChange(sheets.filter(sheet => describeSheet(sheet).ok).map(sheet => sheet.name));
+  };
+
+  return (
+    <div className="sheet-selector">
+      <div className="sheet-selector-header">
+        <strong>该文件包含 {sheets.length} 个工作表，请选择要处理的工作表</strong>
+        <button className="link-button" onClick={selectValidSheets}>选择所有列名符合要求的工作表</button>
+      </div>
+      <ul className="sheet-selector-list">
+        {sheets.map(sheet => {
+          const { label, ok } = describeSheet(sheet);
+          const preview = sheet.columns.slice(0, PREVIEW_COLUMNS).map(col => col || '(空)').join(', ');
+          return (
+            <li key={sheet.name} className="sheet-selector-item">
+              <label className="table-label">
+                <input
+                  type="checkbox"
+                  checked={selected.includes(sheet.name)}
+                  onChange={() => toggle(sheet.name)}
+                />
+                <span className="sheet-selector-name">{sheet.name}</span>
+              </label>
+              <span className="sheet-selector-rows">{sheet.rowCount} 行</span>
+              <span className={ok ? 'sheet-selector-ok' : 'sheet-selector-warn'}>{label}</span>
+              <span className="sheet-selector-columns" title={sheet.columns.join(', ')}>
+                {preview}{sheet.columns.length > PREVIEW_COLUMNS ? ` 等 ${sheet.columns.length} 列` : ''}
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+      {selected.length > 1 && (
+        <p className="result-hint">已选择 {selected.length} 个工作表，可在下方选择合并输出或按工作表分别输出。各工作表使用同一列映射。</p>
+      )}
+    </div>
+  );
+};
+
+export default SheetSelector;
@@ -0,0 +1,119 @@
+import type { ConflictPolicy, TfMergeResult } from '../core';
+
+export type MergeReport = Omit<TfMergeResult, 'tableData'> & { fileName: string };
+
+type Props = {
+  policy: ConflictPolicy;
+  merging: boolean;
+  report: MergeReport | null;
+  onPolicyChange: (policy: ConflictPolicy) => void;
+  onSelectFile: (file: File) => void;
+  onDismissReport: () => void;
+};
+
+// 报告中每类明细最多展示的条数
+const MAX_LISTED = 50;
+
+const TfMergePanel = ({ policy, merging, report, onPolicyChange, onSelectFile, onDismissReport }: Props) => {
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selectedFile = event.target.files?.[0];
+    if (selectedFile) onSelectFile(selectedFile);
+    // 重置input value，允许重复选择同一个文件
+    event.target.value = '';
+  };
+
+  return (
+    <div className="tf-merge-panel">
+      <div className="tf-merge-controls">
+        <span className="tf-merge-title">合并离线标注的 Excel</span>
+        <label className="table-label">
+          tf 冲突时
+          <select
+            className="table-select"
+            value={policy}
+            onChange={(e) => onPolicyChange(e.target.value as ConflictPolicy)}
+          >
+            <option value="incoming">以 Excel 为准</option>
+            <option value="current">保留当前值</option>
+          </select>
+        </label>
+        <label
+          htmlFor="tf-merge-file-input"
+          className={`file-change-button ${merging ? 'disabled' : ''}`}
+        >
+          {merging ? '正在合并...' : '选择 Excel 文件'}
+        </label>
+        <input
+          id="tf-merge-file-input"
+          type="file"
+          accept=".xlsx,.xls"
+          onChange={handleFileChange}
+          className="file-input"
+          disabled={merging}
+        />
+      </div>
+
+      {report && (
+        <div className="tf-merge-report">
+          <div className="tf-merge-report-header">
+            <strong>{report.fileName}</strong>
+            <button className="link-button" onClick={onDismissReport}>关闭</button>
+          </div>
+          <p>
+            已合并 <strong>{report.appliedCount}</strong> 行 tf；
+            冲突 <strong>{report.conflicts.length}</strong> 行（{policy === 'incoming' ? '已使用 Excel 中的值' : '已保留当前值'}）；
+            tf 值无效 <strong>{report.invalidValues.length}</strong> 行（未合并）；
+            Excel 中 <strong>{report.unmatchedSourceRows.length}</strong> 行未匹配；
+            当前表格中 <strong>{report.unmatchedTargetCount}</strong> 行在 Excel 中未找到。
+          </p>
+
+          {report.conflicts.length > 0 && (
+            <details>
+              <summary>冲突明细</summary>
+              <ul className="tf-merge-list">
+                {report.conflicts.slice(0, MAX_LISTED).map(conflict => (
+                  <li key={conflict.rowIndex}>
+                    第 {conflict.rowIndex + 1} 行：当前 {conflict.current}，Excel 中为 {conflict.incoming}
+                  </li>
+                ))}
+                {report.conflicts.length > MAX_LISTED && <li>...还有 {report.conflicts.length - MAX_LISTED} 行</li>}
+              </ul>
+            </details>
+          )}
+
+          {report.invalidValues.length > 0 && (
+            <details>
+              <summary>tf 值无效的行</summary>
+              <ul className="tf-merge-list">
+                {report.invalidValues.slice(0, MAX_LISTED).map(invalid => (
+                  <li key={invalid.sourceRowNumber}>
+                    第 {invalid.rowIndex + 1} 行：Excel 第 {invalid.sourceRowNumber} 行的 tf 为「{invalid.incoming}」，仅支持 0 或 1
+                  </li>
+                ))}
+                {report.invalidValues.length > MAX_LISTED && <li>...还有 {report.invalidValues.length - MAX_LISTED} 行</li>}
+              </ul>
+            </details>
+          )}
+
+          {report.unmatchedSourceRows.length > 0 && (
+            <details>
+              <summary>Excel 中未匹配的行</summary>
+              <ul className="tf-merge-list">
+                {report.unmatchedSourceRows.slice(0, MAX_LISTED).map(row => (
+                  <li key={row.sourceRowNumber}>
+                    Excel 第 {row.sourceRowNumber} 行：{row.comment || '(空评论)'}
+                  </li>
+                ))}
+                {report.unmatchedSourceRows.length > MAX_LISTED && (
+                  <li>...还有 {report.unmatchedSourceRows.length - MAX_LISTED} 行</li>
+                )}
+              </ul>
+            </details>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TfMergePanel;
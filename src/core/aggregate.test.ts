@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeTf, transformAndAggregate } from './aggregate';
+import { rowsOf } from './testFixtures';
+
+const COLUMNS = ['sentiment_tag', 'opinion', 'raw_comments', 'tf'];
+const rows = rowsOf(COLUMNS);
+
+describe('normalizeTf', () => {
+  it('空值记为 0，布尔值记为 1 / 0，文本只接受 0 或 1', () => {
+    expect([null, undefined, '', ' 0 ', '1', true, false, NaN, 1].map(normalizeTf)).toEqual([0, 0, 0, 0, 1, 1, 0, 0, 1]);
+    expect(() => normalizeTf('是')).toThrow('tf 列仅支持 0 或 1，发现非法值：是');
+  });
+});
+
+describe('transformAndAggregate', () => {
+  const data = rows([
+    ['负面', '贵', '太贵', 1],
+    ['正面', '好看', '很好', 1],
+    ['正面', '好看', '', null],
+    ['正面', '好看', '不错', 0],
+    ['中性', '一般', '还行', 0]
+  ]);
+
+  it('按 sentiment_tag + opinion 分组并排序，合并组内评论（保留空评论），tf 重命名为 done_time 并取第一行的值', () => {
+    const result = transformAndAggregate(data, COLUMNS);
+
+    expect(result.outputColumns).toEqual(['sentiment_tag', 'opinion', 'raw_comments', 'done_time']);
+    expect(result.groupCount).toBe(3);
+    expect(result.renamedData).toEqual([
+      { sentiment_tag: '正面', opinion: '好看', raw_comments: '很好$$不错', done_time: 1 },
+      { sentiment_tag: '负面', opinion: '贵', raw_comments: '太贵', done_time: 1 }
+    ]);
+  });
+
+  it('tf 总和为 0 的组被过滤，放入 droppedData', () => {
+    const result = transformAndAggregate(data, COLUMNS);
+
+    expect(result.droppedData).toEqual([{ sentiment_tag: '中性', opinion: '一般', raw_comments: '还行', done_time: 0 }]);
+    expect(result.groupSummaries.map(summary => [summary.label, summary.keptCount, summary.kept])).toEqual([
+      ['中性 · 一般', 0, false],
+      ['正面 · 好看', 1, true],
+      ['负面 · 贵', 1, true]
+    ]);
+  });
+
+  it('tf 值非法时报错并给出行号，数据为空时报错', () => {
+    expect(() => transformAndAggregate(rows([['正面', '好看', '很好', 1], ['正面', '好看', '不错', '2']]), COLUMNS))
+      .toThrow('第 3 行（含表头）tf 值错误：tf 列仅支持 0 或 1，发现非法值：2');
+    expect(() => transformAndAggregate([], COLUMNS)).toThrow('数据为空');
+  });
+});
@@ -0,0 +1,180 @@
+import { aggregateColumnValues, DEFAULT_AGGREGATION_RULES, validateAggregationRules } from './aggregationRules';
+import type { AggregationRules } from './aggregationRules';
+import { SOURCE_FILE_COLUMN } from './columns';
+import { joinComments } from './commentSplit';
+import type { CommentSplitRules } from './commentSplit';
+import { inferColumnDtypes } from './csv';
+import type { ColumnDtype } from './csv';
+import { MAX_GROUP_SAMPLES } from './dashboard';
+import type { GroupSummary } from './dashboard';
+import { PROGRESS_INTERVAL } from './progress';
+import type { ProgressCallback } from './progress';
+import type { DataRow } from './types';
+
+export type AggregateResult = {
+  renamedData: DataRow[];
+  // 被过滤（tf 总和不足）的组，列与 renamedData 相同，raw_comments 同样合并
+  droppedData: DataRow[];
+  groupCount: number;
+  outputColumns: string[];
+  // 输出各列的 pandas 类型，按聚合前的全部数据推断（与 pandas 中列类型不随分组改变一致）
+  columnDtypes: Record<string, ColumnDtype>;
+  // 每个分组的评论数与保留情况（含被过滤的组），用于结果汇总
+  groupSummaries: GroupSummary[];
+};
+
+export const normalizeTf = (v: unknown) => {
+  if (v === null || v === undefined) return 0;
+  if (typeof v === 'number') return Number.isFinite(v) ? v : 0;
+  // 与 pandas astype(int) 一致，Excel 中的 TRUE / FALSE 记为 1 / 0
+  if (typeof v === 'boolean') return v ? 1 : 0;
+  const s = String(v).trim();
+  if (s === '') return 0;
+  if (s === '0') return 0;
+  if (s === '1') return 1;
+  throw new Error(`tf 列仅支持 0 或 1，发现非法值：${s}`);
+};
+
+// 构建分组键：严格按照分组列（默认 sentiment_tag 和 opinion）的值
+export const getGroupKey = (row: DataRow, groupBy: string[] = DEFAULT_AGGREGATION_RULES.groupBy) => {
+  return groupBy
+    .map(col => row[col] === null || row[col] === undefined || row[col] === '' ? '' : String(row[col]))
+    .join('|||');
+};
+
+// 分组的显示名称：分组列的值用 · 连接，空值显示为 (空)
+export const getGroupLabel = (row: DataRow, groupBy: string[] = DEFAULT_AGGREGATION_RULES.groupBy) => {
+  return groupBy.map(col => String(row[col] ?? '') || '(空)').join(' · ');
+};
+
+/**
+ * 按分组列（默认 sentiment_tag + opinion）分组，合并每组的 raw_comments（默认用 $ 连接），
+ * 过滤 tf 总和不足的组（默认为 0 的组），并将 tf 重命名为 done_time。其他列默认取组内第一行，可按规则求和或求平均。
+ * 默认规则下与原 Python 脚本（pandas groupby）的输出保持一致。被过滤的组按同样的方式合并后放在 droppedData 中。
+ */
+export const transformAndAggregate = (
+  jsonData: DataRow[],
+  originalColumns: string[],
+  onProgress?: ProgressCallback,
+  splitRules?: CommentSplitRules,
+  rules: AggregationRules = DEFAULT_AGGREGATION_RULES
+): AggregateResult => {
+  if (jsonData.length === 0) {
+    throw new Error('数据为空');
+  }
+
+  const rulesError = validateAggregationRules(rules, originalColumns);
+  if (rulesError) {
+    throw new Error(`聚合规则有误：${rulesError}`);
+  }
+  // 分组列、raw_comments 与 tf 有固定的处理方式，不参与求和 / 求平均
+  const columnAggregations = Object.entries(rules.columnAggregations).filter(([col]) => {
+    return originalColumns.includes(col) && !rules.groupBy.includes(col) && col !== 'raw_comments' && col !== 'tf';
+  });
+
+  // tf 校验与归一化（确保后续 reduce 不出错）
+  const rows: DataRow[] = jsonData.map((row, i) => {
+    try {
+      return { ...row, tf: normalizeTf(row.tf) };
+    } catch (e) {
+      throw new Error(`第 ${i + 2} 行（含表头）tf 值错误：${e instanceof Error ? e.message : String(e)}`);
+    }
+  });
+
+  // 模拟pandas的groupby行为
+  // pandas的groupby默认sort=True，会对分组键排序
+  const groups = new Map<string, DataRow[]>();
+
+  for (let i = 0; i < rows.length; i++) {
+    const row = rows[i];
+    if (onProgress && i > 0 && i % PROGRESS_INTERVAL === 0) {
+      onProgress({ stage: 'groups', count: groups.size });
+    }
+
+    const key = getGroupKey(row, rules.groupBy);
+
+    if (!groups.has(key)) {
+      groups.set(key, []);
+    }
+    groups.get(key)!.push(row);
+  }
+
+  onProgress?.({ stage: 'groups', count: groups.size, total: groups.size });
+
+  // 对分组键排序，模拟pandas的sort=True行为
+  const sortedGroupKeys = Array.from(groups.keys()).sort();
+
+  const newData: DataRow[] = [];
+  const droppedGroups: DataRow[] = [];
+  const groupSummaries: GroupSummary[] = [];
+
+  // 按照排序后的分组键处理
+  for (const key of sortedGroupKeys) {
+    const group = groups.get(key)!;
+    const tfSum = group.reduce((sum, row) => sum + (Number(row.tf) || 0), 0);
+    const kept = tfSum >= rules.minKeptComments;
+    const samples = new Set<string>();
+    for (const row of group) {
+      if (samples.size >= MAX_GROUP_SAMPLES) break;
+      const comment = String(row.raw_comments ?? '').trim();
+      if (Number(row.tf) > 0 && comment) samples.add(comment);
+    }
+    // 严格按照Python代码：不过滤空值，直接join
+    const comments = group.map(row => {
+      const val = row.raw_comments;
+      if (val === null || val === undefined || val === '' || (typeof val === 'number' && isNaN(val))) return '';
+      return String(val);
+    });
+    groupSummaries.push({
+      key,
+      label: getGroupLabel(group[0], rules.groupBy),
+      commentCount: group.length,
+      tfSum,
+      keptCount: group.filter(row => Number(row.tf) > 0).length,
+      kept,
+      joinedCount: kept ? comments.filter(comment => comment !== '').length : 0,
+      samples: Array.from(samples)
+    });
+
+    const rawComments = joinComments(comments, splitRules);
+
+    // 使用第一行数据，保持所有列的原始值
+    const item = { ...group[0] };
+    item.raw_comments = rawComments;
+    for (const [col, aggregation] of columnAggregations) {
+      item[col] = aggregateColumnValues(group.map(row => row[col]), aggregation, col);
+    }
+    (kept ? newData : droppedGroups).push(item);
+  }
+
+  // 重命名 tf -> done_time，同时保持列的原始顺序（批量处理追加的 source_file 列不输出）
+  const dataColumns = originalColumns.filter(col => col !== SOURCE_FILE_COLUMN);
+  const outputColumns = dataColumns.map(col => col === 'tf' ? 'done_time' : col);
+  const inputDtypes = inferColumnDtypes(rows, dataColumns);
+  // 与 pandas 一致：平均值为 float64，求和保持数值列原有的类型
+  for (const [col, aggregation] of columnAggregations) {
+    const dtype = inputDtypes[col];
+    inputDtypes[col] = aggregation === 'mean' ? 'float64' : dtype === 'int64' || dtype === 'float64' ? dtype : 'object';
+  }
+  const columnDtypes: Record<string, ColumnDtype> = {};
+  dataColumns.forEach((col, i) => {
+    columnDtypes[outputColumns[i]] = inputDtypes[col];
+  });
+  const renameColumns = (row: DataRow) => {
+    const newRow: DataRow = {};
+    // 按照原始列顺序构建新对象
+    for (const col of dataColumns) {
+      if (col === 'tf') {
+        newRow['done_time'] = row[col];
+      } else {
+        // 保持原始值，包括undefined（CSV 输出时为空）
+        newRow[col] = row[col];
+      }
+    }
+    return newRow;
+  };
+  const renamedData = newData.map(renameColumns);
+  const droppedData = droppedGroups.map(renameColumns);
+
+  return { renamedData, droppedData, groupCount: groups.size, outputColumns, columnDtypes, groupSummaries };
+};
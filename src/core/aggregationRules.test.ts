@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { transformAndAggregate } from './aggregate';
+import {
+  AGGREGATION_PRESETS,
+  DEFAULT_AGGREGATION_RULES,
+  aggregateColumnValues,
+  isSameAggregationRules,
+  validateAggregationRules
+} from './aggregationRules';
+import { rowsOf } from './testFixtures';
+
+const COLUMNS = ['cid', 'sentiment_tag', 'opinion', 'score', 'num', 'raw_comments', 'tf'];
+const rows = rowsOf(COLUMNS);
+
+describe('validateAggregationRules', () => {
+  it('拒绝空分组、以 raw_comments / tf 分组、非正整数的最少保留数与不存在的分组列', () => {
+    expect(validateAggregationRules({ ...DEFAULT_AGGREGATION_RULES, groupBy: [] })).toBe('至少选择一个分组列');
+    expect(validateAggregationRules({ ...DEFAULT_AGGREGATION_RULES, groupBy: ['tf'] })).toBe('raw_comments 与 tf 不能作为分组列');
+    expect(validateAggregationRules({ ...DEFAULT_AGGREGATION_RULES, minKeptComments: 0 })).toBe('最少保留评论数须为正整数');
+    expect(validateAggregationRules(AGGREGATION_PRESETS.partTime.rules, COLUMNS)).toBe('分组列不存在：part_time');
+    expect(validateAggregationRules(AGGREGATION_PRESETS.cid.rules, COLUMNS)).toBeNull();
+  });
+});
+
+describe('isSameAggregationRules', () => {
+  it('列聚合方式的顺序不影响比较', () => {
+    const a = { groupBy: ['cid'], columnAggregations: { num: 'sum', score: 'mean' } as const, minKeptComments: 1 };
+    const b = { groupBy: ['cid'], columnAggregations: { score: 'mean', num: 'sum' } as const, minKeptComments: 1 };
+    expect(isSameAggregationRules(a, b)).toBe(true);
+    expect(isSameAggregationRules(a, { ...b, minKeptComments: 2 })).toBe(false);
+  });
+});
+
+describe('aggregateColumnValues', () => {
+  it('与 pandas 一致跳过缺失值，文本形式的数字按数值计算', () => {
+    expect(aggregateColumnValues([1, '', '2', null], 'sum', 'num')).toBe(3);
+    expect(aggregateColumnValues([1, '', 2], 'mean', 'score')).toBe(1.5);
+    expect(aggregateColumnValues(['', null], 'sum', 'num')).toBe(0);
+    expect(aggregateColumnValues(['', null], 'mean', 'score')).toBeNaN();
+  });
+
+  it('无法转为数值的内容报错', () => {
+    expect(() => aggregateColumnValues([1, '很多'], 'sum', 'num')).toThrow('num 列包含非数值内容「很多」，无法求和');
+    expect(() => aggregateColumnValues([true], 'mean', 'score')).toThrow('无法求平均');
+  });
+});
+
+describe('transformAndAggregate', () => {
+  const data = rows([
+    [2, '正面', '好看', 0.5, 3, '很好', 1],
+    [1, '正面', '好看', 0.7, 4, '不错', 1],
+    [1, '负面', '好看', 0.1, 5, '一般', 0],
+    [1, '负面', '贵', 0.2, 6, '太贵', 1]
+  ]);
+
+  it('按规则分组，求和 / 求平均，求平均的列类型为 float64', () => {
+    const result = transformAndAggregate(data, COLUMNS, undefined, undefined, AGGREGATION_PRESETS.cid.rules);
+
+    expect(result.renamedData).toEqual([
+      { cid: 1, sentiment_tag: '正面', opinion: '好看', score: 0.39999999999999997, num: 9, raw_comments: '不错$一般', done_time: 1 },
+      { cid: 1, sentiment_tag: '负面', opinion: '贵', score: 0.2, num: 6, raw_comments: '太贵', done_time: 1 },
+      { cid: 2, sentiment_tag: '正面', opinion: '好看', score: 0.5, num: 3, raw_comments: '很好', done_time: 1 }
+    ]);
+    expect(result.columnDtypes.score).toBe('float64');
+    expect(result.columnDtypes.num).toBe('int64');
+  });
+
+  it('tf 总和少于最少保留评论数的组放入 droppedData', () => {
+    const result = transformAndAggregate(data, COLUMNS, undefined, undefined, { ...DEFAULT_AGGREGATION_RULES, minKeptComments: 2 });
+
+    expect(result.renamedData.map(row => row.opinion)).toEqual(['好看']);
+    expect(result.droppedData.map(row => `${row.sentiment_tag}/${row.opinion}`)).toEqual(['负面/好看', '负面/贵']);
+    expect(result.groupSummaries.map(summary => summary.kept)).toEqual([true, false, false]);
+  });
+
+  it('规则有误时报错', () => {
+    expect(() => transformAndAggregate(data, COLUMNS, undefined, undefined, AGGREGATION_PRESETS.partTime.rules))
+      .toThrow('聚合规则有误：分组列不存在：part_time');
+  });
+});
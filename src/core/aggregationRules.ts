@@ -0,0 +1,91 @@
+import type { CellValue } from './types';
+
+// 分组键与 raw_comments、tf 以外的列在组内的取值方式：first 取组内第一行，sum 求和，mean 求平均
+export type ColumnAggregation = 'first' | 'sum' | 'mean';
+
+// 第二步按组聚合的规则
+export type AggregationRules = {
+  // 分组列（按先后顺序排序）
+  groupBy: string[];
+  // 需要求和 / 求平均的列；未列出的列取组内第一行的值
+  columnAggregations: Record<string, Exclude<ColumnAggregation, 'first'>>;
+  // 组内保留的评论（tf 总和）不少于该值时输出该组
+  minKeptComments: number;
+};
+
+// 与原 Python 脚本一致：按 sentiment_tag + opinion 分组，其他列取第一行，过滤 tf 总和为 0 的组
+export const DEFAULT_AGGREGATION_RULES: AggregationRules = {
+  groupBy: ['sentiment_tag', 'opinion'],
+  columnAggregations: {},
+  minKeptComments: 1
+};
+
+export type AggregationPresetId = 'default' | 'cid' | 'partTime';
+
+export const AGGREGATION_PRESETS: Record<AggregationPresetId, { label: string; rules: AggregationRules }> = {
+  default: { label: '默认（按情感 + 观点）', rules: DEFAULT_AGGREGATION_RULES },
+  cid: {
+    label: '按活动 cid + 观点（num 求和，score 求平均）',
+    rules: { groupBy: ['cid', 'opinion'], columnAggregations: { num: 'sum', score: 'mean' }, minKeptComments: 1 }
+  },
+  partTime: {
+    label: '按分区 part_time + 情感 + 观点',
+    rules: { groupBy: ['part_time', 'sentiment_tag', 'opinion'], columnAggregations: {}, minKeptComments: 1 }
+  }
+};
+
+// 两组规则是否等价（列聚合方式与顺序无关）
+export const isSameAggregationRules = (a: AggregationRules, b: AggregationRules) => {
+  const aggregationsA = Object.entries(a.columnAggregations).sort().join();
+  const aggregationsB = Object.entries(b.columnAggregations).sort().join();
+  return a.groupBy.join() === b.groupBy.join()
+    && aggregationsA === aggregationsB
+    && a.minKeptComments === b.minKeptComments;
+};
+
+export const isDefaultAggregationRules = (rules: AggregationRules) => {
+  return isSameAggregationRules(rules, DEFAULT_AGGREGATION_RULES);
+};
+
+/**
+ * 校验规则，返回错误信息；提供 columns 时同时检查分组列是否存在。
+ * 不存在的求和 / 求平均列会被忽略（预设可能包含部分报表没有的列）。
+ */
+export const validateAggregationRules = (rules: AggregationRules, columns?: string[]) => {
+  if (rules.groupBy.length === 0) return '至少选择一个分组列';
+  if (rules.groupBy.some(col => col === 'raw_comments' || col === 'tf')) return 'raw_comments 与 tf 不能作为分组列';
+  if (!Number.isInteger(rules.minKeptComments) || rules.minKeptComments < 1) return '最少保留评论数须为正整数';
+  if (columns) {
+    const missing = rules.groupBy.filter(col => !columns.includes(col));
+    if (missing.length > 0) return `分组列不存在：${missing.join(', ')}`;
+  }
+  return null;
+};
+
+const isMissing = (value: CellValue) => {
+  return value === null || value === undefined || value === '' || (typeof value === 'number' && isNaN(value));
+};
+
+/**
+ * 对组内一列求和或求平均。与 pandas 一致跳过缺失值：全部缺失时求和为 0、平均值为 NaN（输出为空）。
+ * Excel 中以文本读取的数字按数值计算，无法转为数值的内容报错。
+ */
+export const aggregateColumnValues = (
+  values: CellValue[],
+  aggregation: Exclude<ColumnAggregation, 'first'>,
+  column: string
+) => {
+  let sum = 0;
+  let count = 0;
+  for (const value of values) {
+    if (isMissing(value)) continue;
+    const number = typeof value === 'number' ? value : Number(String(value).trim());
+    if (typeof value === 'boolean' || isNaN(number)) {
+      throw new Error(`${column} 列包含非数值内容「${String(value)}」，无法${aggregation === 'sum' ? '求和' : '求平均'}`);
+    }
+    sum += number;
+    count++;
+  }
+  if (aggregation === 'sum') return sum;
+  return count > 0 ? sum / count : NaN;
+};
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { transformAndAggregate } from './aggregate';
+import { DEFAULT_AGGREGATION_RULES } from './aggregationRules';
+import { buildAggregationAudit, buildAuditWorkbook } from './audit';
+import { rowsOf } from './testFixtures';
+
+const COLUMNS = ['sentiment_tag', 'opinion', 'raw_comments', 'tf'];
+const rows = rowsOf(COLUMNS);
+
+describe('buildAggregationAudit', () => {
+  const { groupSummaries } = transformAndAggregate(rows([
+    ['正面', '好看', '很好', 1],
+    ['正面', '好看', '', 1],
+    ['负面', '卡顿', '太卡', 0]
+  ]), COLUMNS);
+
+  it('列出每个分组的输出情况与原因', () => {
+    const audit = buildAggregationAudit(groupSummaries);
+
+    expect(audit.groupBy).toEqual(['sentiment_tag', 'opinion']);
+    expect(audit.groups).toEqual([
+      {
+        label: '正面 · 好看', values: ['正面', '好看'], kept: true,
+        tfSum: 2, commentCount: 2, joinedCount: 1, deletedCount: 0, explanation: '已输出'
+      },
+      {
+        label: '负面 · 卡顿', values: ['负面', '卡顿'], kept: false,
+        tfSum: 0, commentCount: 1, joinedCount: 0, deletedCount: 0, explanation: '所有评论的 tf 均为 0'
+      }
+    ]);
+  });
+
+  it('第一步删除的行归入所属分组，只存在于删除行中的分组也会列出', () => {
+    const audit = buildAggregationAudit(groupSummaries, DEFAULT_AGGREGATION_RULES, COLUMNS, [
+      { cells: ['正面', '好看', '重复', '1'], reason: '合并重复评论' },
+      { cells: ['中性', '价格', '有点贵', '1'], reason: '手动删除' }
+    ]);
+    const byLabel = Object.fromEntries(audit.groups.map(group => [group.label, group]));
+
+    expect(byLabel['正面 · 好看'].explanation).toBe('已输出（第一步删除了 1 行）');
+    expect(byLabel['中性 · 价格']).toMatchObject({ kept: false, commentCount: 0, deletedCount: 1, explanation: '该组的行均已在第一步删除' });
+    expect(audit.deletedRows.map(row => [row.groupLabel, row.reason])).toEqual([
+      ['正面 · 好看', '合并重复评论'],
+      ['中性 · 价格', '手动删除']
+    ]);
+  });
+
+  it('tf 总和不足最少保留评论数时说明原因', () => {
+    const audit = buildAggregationAudit(
+      transformAndAggregate(rows([['正面', '好看', '很好', 1]]), COLUMNS, undefined, undefined, {
+        ...DEFAULT_AGGREGATION_RULES,
+        minKeptComments: 2
+      }).groupSummaries,
+      { ...DEFAULT_AGGREGATION_RULES, minKeptComments: 2 }
+    );
+    expect(audit.groups[0].explanation).toBe('tf 总和 1 少于最少保留评论数 2');
+  });
+});
+
+describe('buildAuditWorkbook', () => {
+  it('分组、删除的行与解析排除的行各一个工作表', () => {
+    const audit = buildAggregationAudit([], DEFAULT_AGGREGATION_RULES, COLUMNS, [], [
+      { sourceFileName: 'a.txt', lineNumber: 3, raw: 'x', fields: ['x'] }
+    ]);
+    const workbook = buildAuditWorkbook(audit);
+
+    expect(workbook.SheetNames).toEqual(['分组', '第一步删除的行', '解析排除的行']);
+    expect(workbook.Sheets['解析排除的行'].A2.v).toBe('a.txt');
+  });
+});
@@ -0,0 +1,137 @@
+import * as XLSX from 'xlsx';
+import { getGroupKey, getGroupLabel } from './aggregate';
+import { DEFAULT_AGGREGATION_RULES } from './aggregationRules';
+import type { AggregationRules } from './aggregationRules';
+import type { GroupSummary } from './dashboard';
+import type { DataRow, DeletedRow, ExcludedLine } from './types';
+
+export type AuditGroup = {
+  label: string;
+  // 各分组列的值，与 AggregationAudit.groupBy 对应
+  values: string[];
+  kept: boolean;
+  tfSum: number;
+  // 第二步输入中该组的行数
+  commentCount: number;
+  // 合并到输出 raw_comments 中的非空评论数
+  joinedCount: number;
+  // 第一步中删除的属于该组的行数
+  deletedCount: number;
+  // 输出或未输出的原因
+  explanation: string;
+};
+
+export type AuditDeletedRow = {
+  groupLabel: string;
+  reason: string;
+  row: DataRow;
+};
+
+// 输入与输出的核对结果：每个分组是否输出及原因，以及第一步删除 / 解析排除的行
+export type AggregationAudit = {
+  groupBy: string[];
+  groups: AuditGroup[];
+  // 删除的行的列（与第一步表格相同）
+  columns: string[];
+  deletedRows: AuditDeletedRow[];
+  excludedLines: ExcludedLine[];
+};
+
+const explainGroup = (group: Omit<AuditGroup, 'explanation'>, minKeptComments: number) => {
+  if (group.kept) return group.deletedCount > 0 ? `已输出（第一步删除了 ${group.deletedCount} 行）` : '已输出';
+  if (group.commentCount === 0) return '该组的行均已在第一步删除';
+  if (group.tfSum === 0) return '所有评论的 tf 均为 0';
+  return `tf 总和 ${group.tfSum} 少于最少保留评论数 ${minKeptComments}`;
+};
+
+/**
+ * 核对第二步的分组结果与第一步的修改：列出 transformAndAggregate 的每个分组（含被过滤的组）
+ * 及其 tf 总和、合并的评论数，并把第一步删除的行按同样的分组规则归入各组。
+ * 只存在于删除行中的分组也会列出，以说明该观点为何没有出现在输出中。
+ */
+export const buildAggregationAudit = (
+  groupSummaries: GroupSummary[],
+  rules: AggregationRules = DEFAULT_AGGREGATION_RULES,
+  columns: string[] = [],
+  deletedRows: DeletedRow[] = [],
+  excludedLines: ExcludedLine[] = []
+): AggregationAudit => {
+  const groups = new Map<string, Omit<AuditGroup, 'explanation'>>();
+  for (const summary of groupSummaries) {
+    groups.set(summary.key, {
+      label: summary.label,
+      values: summary.key.split('|||'),
+      kept: summary.kept,
+      tfSum: summary.tfSum,
+      commentCount: summary.commentCount,
+      joinedCount: summary.joinedCount,
+      deletedCount: 0
+    });
+  }
+
+  const auditDeletedRows = deletedRows.map(({ cells, reason }) => {
+    const row: DataRow = {};
+    columns.forEach((col, i) => {
+      row[col] = cells[i];
+    });
+    const key = getGroupKey(row, rules.groupBy);
+    const label = getGroupLabel(row, rules.groupBy);
+    const group = groups.get(key) ?? {
+      label,
+      values: key.split('|||'),
+      kept: false,
+      tfSum: 0,
+      commentCount: 0,
+      joinedCount: 0,
+      deletedCount: 0
+    };
+    group.deletedCount++;
+    groups.set(key, group);
+    return { groupLabel: label, reason, row };
+  });
+
+  return {
+    groupBy: rules.groupBy,
+    // 与输出一致，按分组键排序
+    groups: Array.from(groups.entries())
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([, group]) => ({ ...group, explanation: explainGroup(group, rules.minKeptComments) })),
+    columns,
+    deletedRows: auditDeletedRows,
+    excludedLines
+  };
+};
+
+// 审计结果 → Excel 工作簿：分组、第一步删除的行、解析时排除的行各一个工作表
+export const buildAuditWorkbook = (audit: AggregationAudit) => {
+  const workbook = XLSX.utils.book_new();
+
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([
+    [...audit.groupBy, '是否输出', '说明', 'tf 总和', '行数', '合并的评论数', '第一步删除的行数'],
+    ...audit.groups.map(group => [
+      ...group.values,
+      group.kept ? '是' : '否',
+      group.explanation,
+      group.tfSum,
+      group.commentCount,
+      group.joinedCount,
+      group.deletedCount
+    ])
+  ]), '分组');
+
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([
+    ['所属分组', '删除原因', ...audit.columns],
+    ...audit.deletedRows.map(({ groupLabel, reason, row }) => [
+      groupLabel,
+      reason,
+      ...audit.columns.map(col => row[col] ?? '')
+    ])
+  ]), '第一步删除的行');
+
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([
+    ['来源文件', '行号', '字段数', '原始内容'],
+    ...audit.excludedLines.map(line => [line.sourceFileName ?? '', line.lineNumber, line.fields.length, line.raw])
+  ]), '解析排除的行');
+
+  return workbook;
+};
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { combineTables, groupRowsBySource } from './batch';
+import { rowsOf, tableOf } from './testFixtures';
+
+const COLUMNS = ['opinion', 'raw_comments', 'tf'];
+
+describe('combineTables', () => {
+  const first = { ...tableOf(COLUMNS, '一月.txt')([['好看', '很好', '1']]), contentHash: 'h1' };
+  const second = {
+    ...tableOf(COLUMNS, '二月.txt')([['贵', '太贵', ''], ['便宜', '实惠', '0']]),
+    contentHash: 'h2',
+    deletedRows: [{ cells: ['贵', '太贵', '1'], reason: '手动删除' }],
+    excludedLines: [{ lineNumber: 3, raw: '坏行', fields: ['坏行'] }]
+  };
+
+  it('按顺序合并各文件的行，并追加 source_file 列记录来源', () => {
+    const combined = combineTables([first, second]);
+
+    expect(combined.sourceFileName).toBe('一月等2个文件.txt');
+    expect(combined.columns).toEqual([...COLUMNS, 'source_file']);
+    expect(combined.rows).toEqual([
+      ['好看', '很好', '1', '一月.txt'],
+      ['贵', '太贵', '', '二月.txt'],
+      ['便宜', '实惠', '0', '二月.txt']
+    ]);
+    expect(combined.contentHash).toBe('h1+h2');
+  });
+
+  it('删除的行与解析排除的行同样记录来源', () => {
+    const combined = combineTables([first, second]);
+
+    expect(combined.deletedRows).toEqual([{ cells: ['贵', '太贵', '1', '二月.txt'], reason: '手动删除' }]);
+    expect(combined.excludedLines).toEqual([{ lineNumber: 3, raw: '坏行', fields: ['坏行'], sourceFileName: '二月.txt' }]);
+  });
+
+  it('只有一个文件时沿用其文件名', () => {
+    expect(combineTables([first]).sourceFileName).toBe('一月.txt');
+  });
+});
+
+describe('groupRowsBySource', () => {
+  it('按来源首次出现的顺序拆分，没有来源的行归入默认来源', () => {
+    const rows = rowsOf(['opinion', 'source_file'])([['好看', 'b.txt'], ['贵', 'a.txt'], ['便宜', ''], ['一般', 'b.txt']]);
+    const groups = groupRowsBySource(rows, 'all.xlsx');
+
+    expect(Array.from(groups.keys())).toEqual(['b.txt', 'a.txt', 'all.xlsx']);
+    expect(groups.get('b.txt')?.map(row => row.opinion)).toEqual(['好看', '一般']);
+  });
+});
@@ -0,0 +1,33 @@
+import { SOURCE_FILE_COLUMN } from './columns';
+import { buildBatchSourceName } from './fileNames';
+import type { DataRow, ProcessedTableData } from './types';
+
+/**
+ * 将批量处理的多个表格合并为一张表，并在最后追加 source_file 列记录每行的来源文件。
+ * 各表格均已按标准列整理，列顺序相同。
+ */
+export const combineTables = (tables: ProcessedTableData[]): ProcessedTableData => {
+  const [first] = tables;
+  return {
+    sourceFileName: buildBatchSourceName(tables.map(t => t.sourceFileName)),
+    columns: [...first.columns, SOURCE_FILE_COLUMN],
+    rows: tables.flatMap(t => t.rows.map(row => [...row, t.sourceFileName])),
+    contentHash: tables.map(t => t.contentHash ?? '').join('+'),
+    splitRules: first.splitRules,
+    deletedRows: tables.flatMap(t => (t.deletedRows ?? []).map(d => ({ ...d, cells: [...d.cells, t.sourceFileName] }))),
+    excludedLines: tables.flatMap(t => (t.excludedLines ?? []).map(line => ({ ...line, sourceFileName: t.sourceFileName })))
+  };
+};
+
+// 按 source_file 列拆分数据行，保持来源首次出现的顺序；没有该列的行归入 fallbackSource
+export const groupRowsBySource = (rows: DataRow[], fallbackSource: string) => {
+  const groups = new Map<string, DataRow[]>();
+  for (const row of rows) {
+    const value = row[SOURCE_FILE_COLUMN];
+    const source = value === null || value === undefined || value === '' ? fallbackSource : String(value);
+    const group = groups.get(source);
+    if (group) group.push(row);
+    else groups.set(source, [row]);
+  }
+  return groups;
+};
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyColumnMapping,
+  getUnmappedColumns,
+  needsColumnMapping,
+  remapColumnMapping,
+  suggestColumnMapping,
+  toRememberedAliases
+} from './columnMapping';
+import { REQUIRED_COLUMNS, SOURCE_FILE_COLUMN } from './columns';
+
+// 列顺序打乱并使用别名的表头；「备注」不对应任何标准列
+const HEADER = [
+  '评论内容', 'Opinion', 'pt', 'First Category Name', 'campaign', 'Campaign_ID', '情感', 'start_time',
+  '结束时间', 'idx', 'scores', '数量', '备注', 'label'
+];
+
+describe('needsColumnMapping', () => {
+  it('标准表头（可带 source_file 列）不需要映射，缺少 tf 列时按 allowMissingTf 判断', () => {
+    const withoutTf = REQUIRED_COLUMNS.slice(0, -1);
+
+    expect(needsColumnMapping(REQUIRED_COLUMNS, false)).toBe(false);
+    expect(needsColumnMapping([...REQUIRED_COLUMNS, SOURCE_FILE_COLUMN], false)).toBe(false);
+    expect(needsColumnMapping(withoutTf, true)).toBe(false);
+    expect(needsColumnMapping(withoutTf, false)).toBe(true);
+    expect(needsColumnMapping(HEADER, true)).toBe(true);
+  });
+});
+
+describe('suggestColumnMapping', () => {
+  it('按别名匹配，比较时忽略大小写、空格、下划线和连字符', () => {
+    const mapping = suggestColumnMapping(HEADER);
+
+    expect(REQUIRED_COLUMNS.map(col => mapping[col])).toEqual([2, 3, 4, 5, 6, 7, 8, 9, 1, 10, 11, 0, 13]);
+    expect(getUnmappedColumns(mapping, [])).toEqual([]);
+  });
+
+  it('完全相同的列名优先于别名，记住的映射优先于内置别名，每列只使用一次', () => {
+    const mapping = suggestColumnMapping(['comment', 'raw_comments', '备注', 'Tag'], { tag: 'sentiment_tag', 备注: 'opinion' });
+
+    expect([mapping.raw_comments, mapping.sentiment_tag, mapping.opinion, mapping.tf]).toEqual([1, 3, 2, null]);
+    expect(getUnmappedColumns(mapping, ['tf'])).not.toContain('tf');
+    expect(getUnmappedColumns(mapping, [])).toContain('tf');
+  });
+});
+
+describe('applyColumnMapping', () => {
+  it('按标准列顺序重排，未映射或超出行长度的列以 fill 补齐', () => {
+    const mapping = { ...suggestColumnMapping(HEADER), tf: null };
+    const row = HEADER.map((_, i) => `v${i}`);
+    const [reordered] = applyColumnMapping([row], mapping, '');
+
+    expect(reordered).toEqual(['v2', 'v3', 'v4', 'v5', 'v6', 'v7', 'v8', 'v9', 'v1', 'v10', 'v11', 'v0', '']);
+    expect(applyColumnMapping([['v0']], mapping, null)[0][11]).toBe('v0');
+    expect(applyColumnMapping([['v0']], mapping, null)[0][0]).toBeNull();
+  });
+});
+
+describe('remapColumnMapping', () => {
+  it('按列名找到其他工作表中的位置，重复列名优先取相同位置', () => {
+    const from = ['opinion', 'raw_comments', 'raw_comments'];
+    const to = ['raw_comments', 'Raw Comments', 'opinion'];
+
+    expect(remapColumnMapping({ opinion: 0, raw_comments: 1, tf: null }, from, to)).toEqual({
+      mapping: { opinion: 2, raw_comments: 1, tf: null },
+      missing: []
+    });
+    expect(remapColumnMapping({ opinion: 0, raw_comments: 2 }, from, to).mapping.raw_comments).toBe(0);
+  });
+
+  it('其他工作表缺少的源列名返回在 missing 中', () => {
+    expect(remapColumnMapping({ opinion: 0, tf: 1 }, ['观点', '标注'], ['观点']).missing).toEqual(['标注']);
+  });
+});
+
+describe('toRememberedAliases', () => {
+  it('只记住与标准列名不同的源列名，记住后再次匹配得到相同的映射', () => {
+    const columns = ['观点X', 'raw_comments', 'TF'];
+    const mapping = { ...suggestColumnMapping(columns), opinion: 0 };
+    const aliases = toRememberedAliases(columns, mapping);
+
+    expect(aliases).toEqual({ 观点x: 'opinion' });
+    expect(suggestColumnMapping(columns, aliases)).toEqual(mapping);
+  });
+});
@@ -0,0 +1,123 @@
+import { REQUIRED_COLUMNS, withoutSourceColumn } from './columns';
+
+// 标准列 → 源文件中的列索引；null 表示源文件中没有对应的列
+export type ColumnMapping = Record<string, number | null>;
+
+// 读取文件时得到的列名与前几行数据，用于列映射预览
+export type ColumnInspection = {
+  columns: string[];
+  sampleRows: string[][];
+};
+
+// 常见的列名别名（比较时忽略大小写、空格、下划线和连字符）
+export const COLUMN_ALIASES: Record<string, string[]> = {
+  part_time: ['pt', 'parttime', 'partition', 'partition_time'],
+  firstcategoryname: ['first_category_name', 'category', 'categoryname', '一级类目'],
+  name: ['campaign', 'campaign_name', 'product_name', '活动名称', '名称'],
+  cid: ['campaign_id', 'campaignid', '活动id'],
+  sentiment_tag: ['sentiment', 'sentimenttag', 'sentiment_label', '情感', '情感倾向'],
+  begin_time: ['begintime', 'start_time', 'starttime', '开始时间'],
+  end_time: ['endtime', 'finish_time', '结束时间'],
+  index_: ['index', 'idx'],
+  opinion: ['opinions', 'viewpoint', '观点'],
+  score: ['scores', '得分', '分数'],
+  num: ['count', 'cnt', 'number', '数量'],
+  raw_comments: ['comment', 'comments', 'raw_comment', 'rawcomment', 'rawcomments', '评论', '评论内容', '原始评论'],
+  tf: ['label', 'done_time', '标注']
+};
+
+export const normalizeColumnName = (name: string) => {
+  return name.trim().toLowerCase().replace(/[\s_-]+/g, '');
+};
+
+const withTf = (columns: string[]) => (columns.includes('tf') ? columns : [...columns, 'tf']);
+
+/**
+ * 判断列名是否需要映射。allowMissingTf 为 true 时，缺少 tf 列仍视为标准格式
+ * （第一步会自动追加空的 tf 列）。
+ */
+export const needsColumnMapping = (allColumns: string[], allowMissingTf: boolean) => {
+  const columns = withoutSourceColumn(allColumns);
+  const actual = allowMissingTf ? withTf(columns) : columns;
+  return actual.length !== REQUIRED_COLUMNS.length
+    || REQUIRED_COLUMNS.some((col, i) => actual[i] !== col);
+};
+
+/**
+ * 自动匹配列：依次尝试完全相同的列名、上次记住的映射（源列名 → 标准列名）和内置别名。
+ */
+export const suggestColumnMapping = (columns: string[], remembered: Record<string, string> = {}) => {
+  const mapping: ColumnMapping = {};
+  const used = new Set<number>();
+
+  const assign = (canonical: string, predicate: (column: string) => boolean) => {
+    if (mapping[canonical] !== undefined && mapping[canonical] !== null) return;
+    const index = columns.findIndex((column, i) => !used.has(i) && predicate(column));
+    if (index >= 0) {
+      mapping[canonical] = index;
+      used.add(index);
+    }
+  };
+
+  for (const canonical of REQUIRED_COLUMNS) {
+    mapping[canonical] = null;
+    assign(canonical, column => column.trim().toLowerCase() === canonical);
+  }
+  for (const canonical of REQUIRED_COLUMNS) {
+    assign(canonical, column => remembered[normalizeColumnName(column)] === canonical);
+  }
+  for (const canonical of REQUIRED_COLUMNS) {
+    const aliases = [canonical, ...(COLUMN_ALIASES[canonical] ?? [])].map(normalizeColumnName);
+    assign(canonical, column => aliases.includes(normalizeColumnName(column)));
+  }
+
+  return mapping;
+};
+
+// 尚未映射的必需列；optionalColumns 中的列允许缺失（以空值补齐）
+export const getUnmappedColumns = (mapping: ColumnMapping, optionalColumns: string[]) => {
+  return REQUIRED_COLUMNS.filter(col => !optionalColumns.includes(col) && (mapping[col] ?? null) === null);
+};
+
+// 按标准列顺序重新排列每一行，未映射的列以 fill 补齐，多余的列被忽略
+export const applyColumnMapping = <T>(rows: T[][], mapping: ColumnMapping, fill: T) => {
+  const indices = REQUIRED_COLUMNS.map(col => mapping[col] ?? null);
+  return rows.map(row => indices.map(index => (index === null ? fill : (row[index] ?? fill))));
+};
+
+/**
+ * 将按 fromColumns 建立的列映射转换到另一个表头（如同一工作簿中的其他工作表）：
+ * 按列名查找各源列在 toColumns 中的位置，返回缺少的源列名；全部找到时返回新的映射。
+ */
+export const remapColumnMapping = (mapping: ColumnMapping, fromColumns: string[], toColumns: string[]) => {
+  const remapped: ColumnMapping = {};
+  const missing: string[] = [];
+  for (const [canonical, index] of Object.entries(mapping)) {
+    if (index === null || index === undefined) {
+      remapped[canonical] = null;
+      continue;
+    }
+    const source = normalizeColumnName(fromColumns[index] ?? '');
+    // 同名列优先取相同位置，以区分重复的列名
+    const target = normalizeColumnName(toColumns[index] ?? '') === source
+      ? index
+      : toColumns.findIndex(column => normalizeColumnName(column) === source);
+    if (target < 0) missing.push(fromColumns[index] ?? '');
+    else remapped[canonical] = target;
+  }
+  return { mapping: remapped, missing };
+};
+
+// 用于记住映射：源列名（归一化后）→ 标准列名
+export const toRememberedAliases = (columns: string[], mapping: ColumnMapping) => {
+  const aliases: Record<string, string> = {};
+  for (const canonical of REQUIRED_COLUMNS) {
+    const index = mapping[canonical];
+    if (index === null || index === undefined) continue;
+    const source = normalizeColumnName(columns[index] ?? '');
+    if (source && source !== normalizeColumnName(canonical)) {
+      aliases[source] = canonical;
+    }
+  }
+  return aliases;
+};
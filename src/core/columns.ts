@@ -0,0 +1,45 @@
+export const REQUIRED_COLUMNS = [
+  'part_time', 'firstcategoryname', 'name', 'cid', 'sentiment_tag',
+  'begin_time', 'end_time', 'index_', 'opinion', 'score', 'num',
+  'raw_comments', 'tf'
+];
+
+// 批量处理多个 TXT 并合并为一张表时，追加在最后一列，记录每行的来源文件
+export const SOURCE_FILE_COLUMN = 'source_file';
+
+// 去掉末尾的 source_file 列（如有），其余列按标准列校验与处理
+export const withoutSourceColumn = (columns: string[]) => {
+  return columns[columns.length - 1] === SOURCE_FILE_COLUMN ? columns.slice(0, -1) : columns;
+};
+
+export const validateColumns = (allColumns: string[]) => {
+  const columns = withoutSourceColumn(allColumns);
+  if (columns.length !== REQUIRED_COLUMNS.length) {
+    const yourCols = columns.join(', ');
+    const required = REQUIRED_COLUMNS.join(', ');
+    if (columns.length > REQUIRED_COLUMNS.length) {
+      throw new Error(
+        `文件列数错误：文件包含 ${columns.length} 列，但必须恰好包含 13 列。\n\n您的文件列名：\n${yourCols}\n\n要求的 13 列：\n${required}\n\n❗ 操作建议：请删除不符合要求的列，确保文件仅包含上述 13 列。`
+      );
+    }
+    throw new Error(
+      `文件列数错误：文件仅包含 ${columns.length} 列，但必须包含 13 列。\n\n您的文件列名：\n${yourCols}\n\n要求的 13 列：\n${required}\n\n❗ 操作建议：请补充缺失的列。`
+    );
+  }
+
+  for (let i = 0; i < REQUIRED_COLUMNS.length; i++) {
+    if (columns[i] !== REQUIRED_COLUMNS[i]) {
+      const actualColName = columns[i] || '(空)';
+      let errorMsg = `第 ${i + 1} 列错误：\n期望列名：${REQUIRED_COLUMNS[i]}\n实际列名：${actualColName}\n\n`;
+
+      if (!columns[i]) {
+        errorMsg += `❗ 操作建议：第 ${i + 1} 列的标题为空，请在该列的首行（标题行）输入列名 "${REQUIRED_COLUMNS[i]}"\n\n`;
+      } else {
+        errorMsg += `❗ 操作建议：请将第 ${i + 1} 列的标题修改为 "${REQUIRED_COLUMNS[i]}"\n\n`;
+      }
+
+      errorMsg += `完整的列要求（按顺序）：\n${REQUIRED_COLUMNS.join(', ')}`;
+      throw new Error(errorMsg);
+    }
+  }
+};
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SPLIT_RULES, joinComments, splitComments, validateSplitRules } from './commentSplit';
+import type { CommentSplitRules } from './commentSplit';
+
+const rules = (overrides: Partial<CommentSplitRules>): CommentSplitRules => ({ ...DEFAULT_SPLIT_RULES, ...overrides });
+
+describe('splitComments', () => {
+  it('默认按 $ 拆分并保留空片段，与原脚本一致', () => {
+    expect(splitComments(' 好看 $不错$$')).toEqual(['好看', '不错', '', '']);
+  });
+
+  it('dropEmpty 时丢弃空片段', () => {
+    expect(splitComments('好看$$不错$', rules({ dropEmpty: true }))).toEqual(['好看', '不错']);
+  });
+
+  it('转义字符之后的分隔符与转义字符视为字面字符', () => {
+    expect(splitComments('价格\\$100$好\\\\评', rules({ escape: '\\' }))).toEqual(['价格$100', '好\\评']);
+  });
+
+  it('regex 模式按正则表达式拆分', () => {
+    expect(splitComments('好看|不错||很好', rules({ mode: 'regex', pattern: '\\|+' }))).toEqual(['好看', '不错', '很好']);
+  });
+});
+
+describe('joinComments', () => {
+  it('配置了转义字符时，合并结果可按同样的规则拆回', () => {
+    const escaped = rules({ escape: '\\' });
+    const comments = ['价格$100', '好\\评', '不错'];
+    const joined = joinComments(comments, escaped);
+
+    expect(joined).toBe('价格\\$100$好\\\\评$不错');
+    expect(splitComments(joined, escaped)).toEqual(comments);
+  });
+
+  it('dropEmpty 时合并前丢弃空评论', () => {
+    expect(joinComments(['a', '', 'b'])).toBe('a$$b');
+    expect(joinComments(['a', '', 'b'], rules({ dropEmpty: true, joinDelimiter: '；' }))).toBe('a；b');
+  });
+});
+
+describe('validateSplitRules', () => {
+  it('拒绝空分隔符、与分隔符相同的转义字符以及能匹配空字符串的正则', () => {
+    expect(validateSplitRules(rules({ delimiter: '' })).error).toBe('分隔符不能为空');
+    expect(validateSplitRules(rules({ escape: '$' })).error).toBe('转义字符不能与分隔符相同');
+    expect(validateSplitRules(rules({ mode: 'regex', pattern: 'a*' })).error).toBe('正则表达式不能匹配空字符串');
+    expect(validateSplitRules(rules({ mode: 'regex', pattern: '(' })).error).toBe('正则表达式无效');
+  });
+
+  it('连接符无法按同样规则拆回时给出提示', () => {
+    expect(validateSplitRules(DEFAULT_SPLIT_RULES)).toEqual({ error: null, warning: null });
+    expect(validateSplitRules(rules({ joinDelimiter: '；' })).warning).toMatch('连接符与拆分分隔符不同');
+    expect(validateSplitRules(rules({ mode: 'regex', pattern: '\\|+', joinDelimiter: '$' })).warning)
+      .toMatch('连接符不匹配拆分用的正则表达式');
+    expect(validateSplitRules(rules({ joinDelimiter: '' })).warning).toMatch('连接符为空');
+  });
+});
@@ -0,0 +1,122 @@
+// raw_comments 的拆分（第一步）与合并（第二步）规则
+export type CommentSplitRules = {
+  mode: 'delimiter' | 'regex';
+  // mode 为 delimiter 时使用的分隔符
+  delimiter: string;
+  // mode 为 regex 时使用的正则表达式
+  pattern: string;
+  // 转义字符（如 \），其后的分隔符视为评论中的字面字符；为空表示不转义。仅 delimiter 模式有效
+  escape: string;
+  // 是否丢弃拆分后的空片段（如 a$$b、末尾的 $）
+  dropEmpty: boolean;
+  // 第二步合并每组评论时使用的连接符
+  joinDelimiter: string;
+};
+
+// 与原 Python 脚本一致：按 $ 拆分与连接，不转义，保留空片段
+export const DEFAULT_SPLIT_RULES: CommentSplitRules = {
+  mode: 'delimiter',
+  delimiter: '$',
+  pattern: '',
+  escape: '',
+  dropEmpty: false,
+  joinDelimiter: '$'
+};
+
+export const isDefaultSplitRules = (rules: CommentSplitRules) => {
+  return (Object.keys(DEFAULT_SPLIT_RULES) as (keyof CommentSplitRules)[])
+    .every(key => rules[key] === DEFAULT_SPLIT_RULES[key]);
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * 校验规则，返回错误信息（无法使用）与提示（可以使用，但合并结果无法按同样规则拆回）。
+ */
+export const validateSplitRules = (rules: CommentSplitRules) => {
+  let error: string | null = null;
+  let warning: string | null = null;
+
+  if (rules.mode === 'delimiter') {
+    if (!rules.delimiter) error = '分隔符不能为空';
+    else if (rules.escape && rules.escape === rules.delimiter) error = '转义字符不能与分隔符相同';
+  } else {
+    try {
+      const regex = new RegExp(rules.pattern);
+      if (!rules.pattern || regex.test('')) error = '正则表达式不能匹配空字符串';
+    } catch {
+      error = '正则表达式无效';
+    }
+  }
+  if (error) return { error, warning };
+
+  if (!rules.joinDelimiter) {
+    warning = '连接符为空时，合并后的评论无法再拆分';
+  } else if (rules.mode === 'delimiter' && rules.joinDelimiter !== rules.delimiter) {
+    warning = '连接符与拆分分隔符不同，合并后的评论无法按同样的规则拆回';
+  } else if (rules.mode === 'regex' && !new RegExp(`^(?:${rules.pattern})$`).test(rules.joinDelimiter)) {
+    warning = '连接符不匹配拆分用的正则表达式，合并后的评论无法按同样的规则拆回';
+  }
+  return { error, warning };
+};
+
+// 按分隔符拆分，支持转义：escape + 分隔符 → 分隔符，escape + escape → escape
+const splitEscaped = (value: string, delimiter: string, escape: string) => {
+  const fragments: string[] = [];
+  let current = '';
+  let i = 0;
+  while (i < value.length) {
+    if (value.startsWith(escape, i)) {
+      const next = i + escape.length;
+      if (value.startsWith(delimiter, next)) {
+        current += delimiter;
+        i = next + delimiter.length;
+        continue;
+      }
+      if (value.startsWith(escape, next)) {
+        current += escape;
+        i = next + escape.length;
+        continue;
+      }
+    }
+    if (value.startsWith(delimiter, i)) {
+      fragments.push(current);
+      current = '';
+      i += delimiter.length;
+      continue;
+    }
+    current += value[i];
+    i++;
+  }
+  fragments.push(current);
+  return fragments;
+};
+
+// 将一条 raw_comments 拆分为多条评论（去除首尾空白）
+export const splitComments = (value: string, rules: CommentSplitRules = DEFAULT_SPLIT_RULES) => {
+  let fragments: string[];
+  if (rules.mode === 'regex') {
+    fragments = value.split(new RegExp(rules.pattern));
+  } else if (rules.escape) {
+    fragments = splitEscaped(value, rules.delimiter, rules.escape);
+  } else {
+    fragments = value.split(rules.delimiter);
+  }
+
+  const comments = fragments.map(fragment => fragment.trim());
+  return rules.dropEmpty ? comments.filter(comment => comment !== '') : comments;
+};
+
+// 合并一组评论；配置了转义字符时，对评论中的连接符与转义字符本身进行转义，保证可按同样规则拆回
+export const joinComments = (comments: string[], rules: CommentSplitRules = DEFAULT_SPLIT_RULES) => {
+  const values = rules.dropEmpty ? comments.filter(comment => comment !== '') : comments;
+  if (rules.mode !== 'delimiter' || !rules.escape) {
+    return values.join(rules.joinDelimiter);
+  }
+
+  const { escape, joinDelimiter } = rules;
+  const pattern = new RegExp(`${escapeRegExp(escape)}|${escapeRegExp(joinDelimiter)}`, 'g');
+  return values
+    .map(comment => comment.replace(pattern, match => escape + match))
+    .join(joinDelimiter);
+};
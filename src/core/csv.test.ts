@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { escapeCsvValue, formatCsvValue, formatPythonFloat, generateCsvText, inferColumnDtypes } from './csv';
+import { rowsOf } from './testFixtures';
+
+describe('formatPythonFloat', () => {
+  it('与 Python repr 一致：最短往返精度，整数值保留一位小数', () => {
+    expect(formatPythonFloat(0.1 + 0.2)).toBe('0.30000000000000004');
+    expect(formatPythonFloat(3)).toBe('3.0');
+    expect(formatPythonFloat(0.0001)).toBe('0.0001');
+    expect(formatPythonFloat(123456789012345.6)).toBe('123456789012345.6');
+    expect(formatPythonFloat(1e15)).toBe('1000000000000000.0');
+  });
+
+  it('指数小于 -4 或不小于 16 时用科学计数法，指数至少两位', () => {
+    expect(formatPythonFloat(1e-5)).toBe('1e-05');
+    expect(formatPythonFloat(-2.5e-7)).toBe('-2.5e-07');
+    expect(formatPythonFloat(1e16)).toBe('1e+16');
+    expect(formatPythonFloat(1.5e100)).toBe('1.5e+100');
+  });
+
+  it('特殊值写为 nan、inf 与 -0.0', () => {
+    expect(formatPythonFloat(NaN)).toBe('nan');
+    expect(formatPythonFloat(-Infinity)).toBe('-inf');
+    expect(formatPythonFloat(-0)).toBe('-0.0');
+  });
+});
+
+describe('formatCsvValue', () => {
+  it('缺失值为空，布尔值写为 True / False', () => {
+    expect(formatCsvValue(null)).toBe('');
+    expect(formatCsvValue('')).toBe('');
+    expect(formatCsvValue(NaN, 'float64')).toBe('');
+    expect(formatCsvValue(true, 'bool')).toBe('True');
+    expect(formatCsvValue(false)).toBe('False');
+  });
+
+  it('float64 列中的整数写成 3.0，object 列中的数值按 Python int / float 写出', () => {
+    expect(formatCsvValue(3, 'float64')).toBe('3.0');
+    expect(formatCsvValue(3, 'int64')).toBe('3');
+    expect(formatCsvValue(3)).toBe('3');
+    expect(formatCsvValue(0.5)).toBe('0.5');
+    expect(formatCsvValue(2 ** 60)).toBe('1152921504606846976');
+    expect(formatCsvValue('好看')).toBe('好看');
+  });
+});
+
+describe('inferColumnDtypes', () => {
+  const columns = ['int', 'missing', 'mixed', 'bool', 'boolMissing', 'text', 'empty'];
+  const rows = rowsOf(columns)([
+    [1, 1, 1, true, true, 'x', ''],
+    [2, '', 2.5, false, null, 1, null]
+  ]);
+
+  it('按 pandas 的规则推断：缺失值或小数使数值列变为 float64，含缺失值的布尔列为 object', () => {
+    expect(inferColumnDtypes(rows, columns)).toEqual({
+      int: 'int64',
+      missing: 'float64',
+      mixed: 'float64',
+      bool: 'bool',
+      boolMissing: 'object',
+      text: 'object',
+      empty: 'object'
+    });
+  });
+});
+
+describe('escapeCsvValue', () => {
+  it('含分隔符、引号或换行时用引号包裹，引号写成两个', () => {
+    expect(escapeCsvValue('很好,不错')).toBe('"很好,不错"');
+    expect(escapeCsvValue('说"好"')).toBe('"说""好"""');
+    expect(escapeCsvValue('第一行\n第二行')).toBe('"第一行\n第二行"');
+    expect(escapeCsvValue('a\rb')).toBe('"a\rb"');
+    expect(escapeCsvValue('很好')).toBe('很好');
+  });
+
+  it('按实际的分隔符判断是否需要引号', () => {
+    expect(escapeCsvValue('很好,不错', '\t')).toBe('很好,不错');
+    expect(escapeCsvValue('很好\t不错', '\t')).toBe('"很好\t不错"');
+  });
+});
+
+describe('generateCsvText', () => {
+  it('带 BOM 与表头，按推断的列类型写出，文件以换行结尾', () => {
+    const rows = rowsOf(['opinion', 'raw_comments', 'score'])([['好看', '很好,不错', 1], ['贵', null, 0.5]]);
+    expect(generateCsvText(rows, ['opinion', 'raw_comments', 'score'])).toBe(
+      '\uFEFFopinion,raw_comments,score\n好看,"很好,不错",1.0\n贵,,0.5\n'
+    );
+  });
+});
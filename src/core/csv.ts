@@ -0,0 +1,131 @@
+import type { CellValue, DataRow } from './types';
+
+export const CSV_BOM = '\uFEFF';
+
+// pandas DataFrame 的列类型，决定 to_csv 中数值的写法
+export type ColumnDtype = 'int64' | 'float64' | 'bool' | 'object';
+
+// pandas 中的缺失值（NaN/None）；读取 Excel 时空单元格统一记为空字符串
+const isMissing = (value: CellValue) => {
+  return value === null || value === undefined || value === '' || (typeof value === 'number' && isNaN(value));
+};
+
+/**
+ * 按 pandas 构建 DataFrame 时的规则推断列类型：
+ * 全部为整数且无缺失值为 int64，含小数或缺失值的数值列为 float64（整数也写成 3.0），
+ * 全部为布尔值且无缺失值为 bool，其余为 object。
+ */
+export const inferColumnDtypes = (rows: DataRow[], columns: string[]) => {
+  const dtypes: Record<string, ColumnDtype> = {};
+  for (const col of columns) {
+    let numbers = 0;
+    let integers = 0;
+    let booleans = 0;
+    let missing = 0;
+    for (const row of rows) {
+      const value = row[col];
+      if (isMissing(value)) missing++;
+      else if (typeof value === 'number') {
+        numbers++;
+        if (Number.isInteger(value)) integers++;
+      } else if (typeof value === 'boolean') booleans++;
+    }
+    const present = rows.length - missing;
+    if (present === 0) dtypes[col] = 'object';
+    else if (numbers === present) dtypes[col] = integers === present && missing === 0 ? 'int64' : 'float64';
+    else if (booleans === present && missing === 0) dtypes[col] = 'bool';
+    else dtypes[col] = 'object';
+  }
+  return dtypes;
+};
+
+/**
+ * 与 Python repr(float) 一致的浮点数写法：最短往返精度（与 JS 相同），
+ * 指数小于 -4 或不小于 16 时用科学计数法（指数至少两位，如 1e-05、1e+16），否则至少保留一位小数。
+ */
+export const formatPythonFloat = (value: number) => {
+  if (isNaN(value)) return 'nan';
+  if (!Number.isFinite(value)) return value > 0 ? 'inf' : '-inf';
+  if (value === 0) return Object.is(value, -0) ? '-0.0' : '0.0';
+
+  // toExponential() 不传参数时给出唯一确定该数的最少有效数字
+  const [mantissa, exp] = value.toExponential().split('e');
+  const exponent = Number(exp);
+  const sign = value < 0 ? '-' : '';
+  const digits = mantissa.replace(/^-/, '').replace('.', '');
+
+  if (exponent < -4 || exponent >= 16) {
+    const significand = digits.length > 1 ? `${digits[0]}.${digits.slice(1)}` : digits;
+    return `${sign}${significand}e${exponent < 0 ? '-' : '+'}${String(Math.abs(exponent)).padStart(2, '0')}`;
+  }
+  if (exponent < 0) {
+    return `${sign}0.${'0'.repeat(-exponent - 1)}${digits}`;
+  }
+  const integerLength = exponent + 1;
+  if (digits.length <= integerLength) {
+    return `${sign}${digits.padEnd(integerLength, '0')}.0`;
+  }
+  return `${sign}${digits.slice(0, integerLength)}.${digits.slice(integerLength)}`;
+};
+
+// Python int 的写法；超出安全整数范围时也不会变成科学计数法
+const formatPythonInt = (value: number) => BigInt(value).toString();
+
+/**
+ * 按 pandas to_csv 的规则把单元格转为文本（不含引号）：缺失值为空，
+ * float64 列按 repr 写出，bool 写为 True/False；object 列中的数值按 Python int/float 写出。
+ */
+export const formatCsvValue = (value: CellValue, dtype: ColumnDtype = 'object'): string => {
+  if (isMissing(value)) return '';
+
+  if (typeof value === 'boolean') return value ? 'True' : 'False';
+
+  if (typeof value === 'number') {
+    if (dtype === 'float64' || !Number.isInteger(value)) return formatPythonFloat(value);
+    return formatPythonInt(value);
+  }
+
+  return String(value);
+};
+
+export const escapeCsvValue = (value: CellValue, delimiter = ',', dtype: ColumnDtype = 'object'): string => {
+  const str = formatCsvValue(value, dtype);
+
+  // CSV格式：如果包含分隔符（默认逗号）、引号或换行符，需要用引号包裹并转义引号
+  if (str.includes(delimiter) || str.includes('"') || str.includes('\n') || str.includes('\r')) {
+    return '"' + str.replace(/"/g, '""') + '"';
+  }
+  return str;
+};
+
+/**
+ * 按 pandas to_csv 的规则生成分隔文本（不含 BOM），delimiter 对应 to_csv 的 sep 参数。
+ * dtypes 为各列的 pandas 类型（聚合时按输入数据推断）；未提供时按要写出的数据推断。
+ */
+export const generateDelimitedText = (
+  rows: DataRow[],
+  columnOrder: string[],
+  delimiter: string,
+  dtypes: Record<string, ColumnDtype> = inferColumnDtypes(rows, columnOrder)
+) => {
+  const lines: string[] = [];
+
+  // 表头
+  lines.push(columnOrder.map(col => escapeCsvValue(col, delimiter)).join(delimiter));
+
+  // 数据行
+  for (const row of rows) {
+    const values = columnOrder.map(col => escapeCsvValue(row[col], delimiter, dtypes[col]));
+    lines.push(values.join(delimiter));
+  }
+
+  return lines.join('\n') + '\n';  // pandas会在文件末尾添加换行符
+};
+
+/**
+ * 手动生成CSV（逗号分隔），完全模拟pandas的to_csv行为。
+ * 返回带 UTF-8 BOM 的文本，浏览器与命令行均以 UTF-8 写出，保证字节一致。
+ */
+export const generateCsvText = (rows: DataRow[], columnOrder: string[], dtypes?: Record<string, ColumnDtype>) => {
+  return CSV_BOM + generateDelimitedText(rows, columnOrder, ',', dtypes);
+};
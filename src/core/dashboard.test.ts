@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { transformAndAggregate } from './aggregate';
+import { buildResultsDashboard, buildSentimentStats, toCellText } from './dashboard';
+import { rowsOf } from './testFixtures';
+
+const COLUMNS = ['cid', 'name', 'sentiment_tag', 'opinion', 'raw_comments', 'tf'];
+
+// Excel 中的 tf 可能大于 1
+const { renamedData, groupSummaries } = transformAndAggregate(rowsOf(COLUMNS)([
+  [1, '活动A', '正面', '好看', '很好', 2],
+  [1, '活动A', '正面', '好看', '不错', 0],
+  [1, '活动A', '负面', '贵', '太贵', 2],
+  [2, '活动B', '正面', '便宜', '实惠', 1],
+  [2, '活动B', '中性', '一般', '还行', 0]
+]), COLUMNS);
+
+describe('buildResultsDashboard', () => {
+  const dashboard = buildResultsDashboard(renamedData, groupSummaries);
+
+  it('保留的评论数按 tf > 0 的行数统计，tf 大于 1 时丢弃的评论数也不会为负', () => {
+    expect(dashboard.totals).toEqual({ groups: 4, keptGroups: 3, comments: 5, keptComments: 3 });
+    expect(dashboard.opinionShares).toEqual([
+      { label: '正面 · 好看', keptComments: 1, droppedComments: 1 },
+      { label: '中性 · 一般', keptComments: 0, droppedComments: 1 },
+      { label: '正面 · 便宜', keptComments: 1, droppedComments: 0 },
+      { label: '负面 · 贵', keptComments: 1, droppedComments: 0 }
+    ]);
+  });
+
+  it('按 sentiment_tag 与 cid 汇总输出的观点', () => {
+    expect(dashboard.sentiments).toEqual([
+      { sentimentTag: '正面', opinionCount: 2, keptComments: 2 },
+      { sentimentTag: '负面', opinionCount: 1, keptComments: 1 }
+    ]);
+    expect(dashboard.cids).toEqual([
+      { cid: '1', name: '活动A', opinionCount: 2, keptComments: 2, bySentiment: { 正面: 1, 负面: 1 } },
+      { cid: '2', name: '活动B', opinionCount: 1, keptComments: 1, bySentiment: { 正面: 1 } }
+    ]);
+    expect(dashboard.topOpinions.map(opinion => opinion.label)).toEqual(['正面 · 便宜', '正面 · 好看', '负面 · 贵']);
+  });
+});
+
+describe('buildSentimentStats', () => {
+  it('按首次出现的顺序列出各 sentiment_tag', () => {
+    expect(buildSentimentStats(renamedData, groupSummaries).map(stat => stat.sentimentTag)).toEqual(['正面', '负面']);
+  });
+});
+
+describe('toCellText', () => {
+  it('去除首尾空白，空值为空字符串', () => {
+    expect([null, undefined, ' 好看 ', 0].map(toCellText)).toEqual(['', '', '好看', '0']);
+  });
+});
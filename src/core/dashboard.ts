@@ -0,0 +1,126 @@
+import type { DataRow } from './types';
+
+// transformAndAggregate 中每个分组（含被过滤的组）的统计，按输出顺序排列；kept 的组与 renamedData 逐行对应
+export type GroupSummary = {
+  // getGroupKey 生成的分组键
+  key: string;
+  // 分组键各列的值，用 · 连接
+  label: string;
+  commentCount: number;
+  // tf 总和，决定该组是否输出
+  tfSum: number;
+  // 保留的评论数（tf > 0 的行数，不超过 commentCount；Excel 中的 tf 可能大于 1）
+  keptCount: number;
+  kept: boolean;
+  // 合并到输出 raw_comments 中的非空评论数（未输出的组为 0）
+  joinedCount: number;
+  // 组内 tf=1 的评论（去重、去空，最多 MAX_GROUP_SAMPLES 条），用作结案报告中的示例评论
+  samples: string[];
+};
+
+export const MAX_GROUP_SAMPLES = 20;
+
+export type SentimentStat = {
+  sentimentTag: string;
+  opinionCount: number;
+  keptComments: number;
+};
+
+export type OpinionStat = {
+  label: string;
+  keptComments: number;
+  droppedComments: number;
+};
+
+export type CidStat = {
+  cid: string;
+  name: string;
+  opinionCount: number;
+  keptComments: number;
+  // 各 sentiment_tag 的观点数
+  bySentiment: Record<string, number>;
+};
+
+export type ResultsDashboard = {
+  totals: {
+    groups: number;
+    keptGroups: number;
+    comments: number;
+    keptComments: number;
+  };
+  sentiments: SentimentStat[];
+  topOpinions: OpinionStat[];
+  opinionShares: OpinionStat[];
+  cids: CidStat[];
+};
+
+// 图表中最多显示的观点数与 cid 数
+const TOP_OPINIONS = 10;
+const OPINION_SHARES = 15;
+const TOP_CIDS = 20;
+
+// 单元格的文本（去除首尾空白），空值为空字符串；结果面板与结案报告共用
+export const toCellText = (value: DataRow[string]) => (value === null || value === undefined ? '' : String(value).trim());
+
+/**
+ * 按 sentiment_tag 统计输出的观点数与保留的评论数（按首次出现的顺序）。
+ * renamedData 与 groupSummaries 中 kept 的组逐行对应。
+ */
+export const buildSentimentStats = (renamedData: DataRow[], groupSummaries: GroupSummary[]) => {
+  const keptSummaries = groupSummaries.filter(summary => summary.kept);
+  const sentiments = new Map<string, SentimentStat>();
+  renamedData.forEach((row, i) => {
+    const sentimentTag = toCellText(row.sentiment_tag) || '(空)';
+    const sentiment = sentiments.get(sentimentTag) ?? { sentimentTag, opinionCount: 0, keptComments: 0 };
+    sentiment.opinionCount++;
+    sentiment.keptComments += keptSummaries[i]?.keptCount ?? 0;
+    sentiments.set(sentimentTag, sentiment);
+  });
+  return Array.from(sentiments.values());
+};
+
+/**
+ * 根据第二步的输出（renamedData）与分组统计生成结案报告用的汇总数据：
+ * 情感分布、保留评论最多的观点、各观点保留 / 丢弃的评论数，以及按 cid 的明细。
+ */
+export const buildResultsDashboard = (renamedData: DataRow[], groupSummaries: GroupSummary[]): ResultsDashboard => {
+  const keptSummaries = groupSummaries.filter(summary => summary.kept);
+
+  const cids = new Map<string, CidStat>();
+  renamedData.forEach((row, i) => {
+    const keptComments = keptSummaries[i]?.keptCount ?? 0;
+    const sentimentTag = toCellText(row.sentiment_tag) || '(空)';
+
+    const cid = toCellText(row.cid) || '(空)';
+    const cidStat = cids.get(cid) ?? { cid, name: toCellText(row.name), opinionCount: 0, keptComments: 0, bySentiment: {} };
+    cidStat.opinionCount++;
+    cidStat.keptComments += keptComments;
+    cidStat.bySentiment[sentimentTag] = (cidStat.bySentiment[sentimentTag] ?? 0) + 1;
+    cids.set(cid, cidStat);
+  });
+
+  const toOpinionStat = (summary: GroupSummary): OpinionStat => ({
+    label: summary.label,
+    keptComments: summary.keptCount,
+    droppedComments: summary.commentCount - summary.keptCount
+  });
+
+  return {
+    totals: {
+      groups: groupSummaries.length,
+      keptGroups: keptSummaries.length,
+      comments: groupSummaries.reduce((sum, summary) => sum + summary.commentCount, 0),
+      keptComments: keptSummaries.reduce((sum, summary) => sum + summary.keptCount, 0)
+    },
+    sentiments: buildSentimentStats(renamedData, groupSummaries).sort((a, b) => b.opinionCount - a.opinionCount),
+    topOpinions: [...keptSummaries]
+      .sort((a, b) => b.keptCount - a.keptCount)
+      .slice(0, TOP_OPINIONS)
+      .map(toOpinionStat),
+    opinionShares: [...groupSummaries]
+      .sort((a, b) => b.commentCount - a.commentCount)
+      .slice(0, OPINION_SHARES)
+      .map(toOpinionStat),
+    cids: Array.from(cids.values()).sort((a, b) => b.keptComments - a.keptComments).slice(0, TOP_CIDS)
+  };
+};
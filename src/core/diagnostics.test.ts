@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { buildDiagnosticsCsv, mergeFields, splitField, suggestRepair } from './diagnostics';
+import type { ParseDiagnostics, RejectedLine } from './diagnostics';
+
+const diagnostics = (headerFields: string[], rejected: RejectedLine[] = []): ParseDiagnostics => ({
+  expectedFieldCount: headerFields.length,
+  headerFields,
+  rejected,
+  multiline: []
+});
+
+describe('mergeFields / splitField', () => {
+  it('合并相邻字段，越界时原样返回', () => {
+    expect(mergeFields(['a', 'b', 'c'], 1)).toEqual(['a', 'b c']);
+    expect(mergeFields(['a', '', 'c'], 0)).toEqual(['a', 'c']);
+    expect(mergeFields(['a', 'b'], 1)).toEqual(['a', 'b']);
+  });
+
+  it('在第一次出现分隔文本处拆分字段', () => {
+    expect(splitField(['a', '好看 不错 很好'], 1, ' ')).toEqual(['a', '好看', '不错 很好']);
+    expect(splitField(['a', 'b'], 1, '|')).toEqual(['a', 'b']);
+    expect(splitField(['a', 'b'], 1, '')).toEqual(['a', 'b']);
+  });
+});
+
+describe('suggestRepair', () => {
+  const line: RejectedLine = { lineNumber: 3, raw: '好看\t不错\t很好\t1', fields: ['好看', '不错', '很好', '1'] };
+
+  it('将多出的字段并入 raw_comments', () => {
+    expect(suggestRepair(line, diagnostics(['opinion', 'raw_comments', 'tf']))).toEqual(['好看', '不错 很好', '1']);
+  });
+
+  it('使用列映射时按映射到 raw_comments 的原始列修复', () => {
+    const mapped = diagnostics(['观点', '评论内容', 'tf']);
+    expect(suggestRepair(line, mapped)).toBeNull();
+    expect(suggestRepair(line, mapped, { opinion: 0, raw_comments: 1, tf: 2 })).toEqual(['好看', '不错 很好', '1']);
+    expect(suggestRepair(line, mapped, { opinion: 0, raw_comments: null, tf: 2 })).toBeNull();
+  });
+
+  it('字段不多于表头时不给出建议', () => {
+    expect(suggestRepair({ ...line, fields: ['好看'] }, diagnostics(['opinion', 'raw_comments', 'tf']))).toBeNull();
+  });
+});
+
+describe('buildDiagnosticsCsv', () => {
+  it('按行号列出排除、修复后纳入与跨行的记录', () => {
+    const report = diagnostics(['opinion', 'raw_comments'], [
+      { lineNumber: 5, raw: 'a\tb\tc', fields: ['a', 'b', 'c'] },
+      { lineNumber: 2, raw: 'x', fields: ['x'] }
+    ]);
+    report.multiline = [{ lineNumber: 3, lineCount: 2, raw: 'y\t"1\n2"' }];
+    const lines = buildDiagnosticsCsv(report, { 5: ['a', 'b c'] }).replace(/^\uFEFF/, '').split('\n');
+
+    expect(lines[0]).toBe('行号,期望列数,实际列数,处理方式,修复后内容,原始内容');
+    expect(lines[1]).toBe('2,2,1,排除,,x');
+    expect(lines[2]).toMatch(/^3,2,2,引号内含换行，第 3–4 行合并为一条,,/);
+    expect(lines.some(row => row.startsWith('5,2,3,修复后纳入,a | b c,'))).toBe(true);
+  });
+});
@@ -0,0 +1,93 @@
+import { generateCsvText } from './csv';
+import type { ColumnMapping } from './columnMapping';
+
+// 解析时因列数与表头不一致而被排除的行
+export type RejectedLine = {
+  lineNumber: number;
+  raw: string;
+  // 已清理控制字符的各字段
+  fields: string[];
+};
+
+// 引号内含换行、由多行合并成的一条记录（已进入表格）
+export type MultilineRecord = {
+  lineNumber: number;
+  lineCount: number;
+  raw: string;
+};
+
+export type ParseDiagnostics = {
+  // 表头的字段数（不含自动追加的 tf 列）
+  expectedFieldCount: number;
+  headerFields: string[];
+  rejected: RejectedLine[];
+  multiline: MultilineRecord[];
+};
+
+// 是否有需要用户确认的行：列数不一致被排除的行，或跨越多行的记录
+export const hasParseIssues = (diagnostics: ParseDiagnostics) => {
+  return diagnostics.rejected.length > 0 || diagnostics.multiline.length > 0;
+};
+
+// 行号 → 修复后的字段；字段数与表头一致时该行会被纳入
+export type LineRepairs = Record<number, string[]>;
+
+// 合并第 index 与 index + 1 个字段（中间以空格连接，对应被误拆的制表符）
+export const mergeFields = (fields: string[], index: number) => {
+  if (index < 0 || index >= fields.length - 1) return fields;
+  const merged = [fields[index], fields[index + 1]].filter(Boolean).join(' ');
+  return [...fields.slice(0, index), merged, ...fields.slice(index + 2)];
+};
+
+// 在第 index 个字段中第一次出现 separator 的位置将其拆成两个字段
+export const splitField = (fields: string[], index: number, separator: string) => {
+  const field = fields[index];
+  if (field === undefined || !separator) return fields;
+  const at = field.indexOf(separator);
+  if (at < 0) return fields;
+  const parts = [field.slice(0, at).trim(), field.slice(at + separator.length).trim()];
+  return [...fields.slice(0, index), ...parts, ...fields.slice(index + 1)];
+};
+
+/**
+ * 字段过多时，最常见的原因是评论中夹带了分隔符：
+ * 将多出的字段并入 raw_comments，返回修复建议；无法给出建议时返回 null。
+ * 使用了列映射时，按映射到 raw_comments 的原始列确定评论所在的位置。
+ */
+export const suggestRepair = (line: RejectedLine, diagnostics: ParseDiagnostics, mapping?: ColumnMapping) => {
+  const excess = line.fields.length - diagnostics.expectedFieldCount;
+  const commentIndex = mapping ? mapping.raw_comments ?? -1 : diagnostics.headerFields.indexOf('raw_comments');
+  if (excess <= 0 || commentIndex < 0) return null;
+
+  let fields = line.fields;
+  for (let i = 0; i < excess; i++) {
+    fields = mergeFields(fields, commentIndex);
+  }
+  return fields;
+};
+
+// 诊断报告（CSV）：列出每个被排除的行及其处理方式，以及跨越多行的记录
+export const buildDiagnosticsCsv = (diagnostics: ParseDiagnostics, repairs: LineRepairs = {}) => {
+  const rejectedRows = diagnostics.rejected.map(line => {
+    const repaired = repairs[line.lineNumber];
+    const included = repaired?.length === diagnostics.expectedFieldCount;
+    return {
+      行号: line.lineNumber,
+      期望列数: diagnostics.expectedFieldCount,
+      实际列数: line.fields.length,
+      处理方式: included ? '修复后纳入' : '排除',
+      修复后内容: included ? repaired.join(' | ') : '',
+      原始内容: line.raw
+    };
+  });
+  const multilineRows = diagnostics.multiline.map(record => ({
+    行号: record.lineNumber,
+    期望列数: diagnostics.expectedFieldCount,
+    实际列数: diagnostics.expectedFieldCount,
+    处理方式: `引号内含换行，第 ${record.lineNumber}–${record.lineNumber + record.lineCount - 1} 行合并为一条`,
+    修复后内容: '',
+    原始内容: record.raw
+  }));
+  const rows = [...rejectedRows, ...multilineRows].sort((a, b) => a.行号 - b.行号);
+  return generateCsvText(rows, ['行号', '期望列数', '实际列数', '处理方式', '修复后内容', '原始内容']);
+};
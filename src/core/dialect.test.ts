@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { sniffDialect, splitRecords } from './dialect';
+import { parseRawText } from './rawText';
+
+describe('sniffDialect', () => {
+  it('识别制表符、逗号与 \\u0001 分隔', () => {
+    expect(sniffDialect('a\tb\tc\n1\t2\t3\n')).toEqual({ delimiter: '\t', quoted: false });
+    expect(sniffDialect('a,b,c\n1,2,3\n')).toEqual({ delimiter: ',', quoted: true });
+    expect(sniffDialect('a\u0001b\n1\u00012\n')).toEqual({ delimiter: '\u0001', quoted: false });
+  });
+
+  it('制表符分隔时，字段以引号包裹且每行引号成对才启用引号', () => {
+    expect(sniffDialect('opinion\traw_comments\n好看\t"好评"\n贵\t太贵\n').quoted).toBe(true);
+    expect(sniffDialect('opinion\traw_comments\n好看\t"好评"\n贵\t太"贵\n').quoted).toBe(false);
+  });
+});
+
+describe('splitRecords', () => {
+  it('制表符分隔中一个引号包裹的评论加一个未闭合的引号不会吞掉之后的行', () => {
+    const text = 'opinion\traw_comments\n好看\t"好评"\n贵\t太"贵了\n便宜\t实惠\n';
+    const { rows, diagnostics } = parseRawText(text);
+
+    expect(rows.map(row => row[1])).toEqual(['"好评"', '太"贵了', '实惠']);
+    expect(diagnostics.rejected).toEqual([]);
+    expect(diagnostics.multiline).toEqual([]);
+  });
+
+  it('引号内的换行合并为一条记录，并记录在诊断中', () => {
+    const text = 'opinion,raw_comments\n好看,"第一行\n第二行"\n贵,太贵\n';
+    const { rows, diagnostics } = parseRawText(text);
+
+    expect(rows.map(row => row[1])).toEqual(['第一行\n第二行', '太贵']);
+    expect(diagnostics.multiline).toEqual([{ lineNumber: 2, lineCount: 2, raw: '好看,"第一行\n第二行"' }]);
+  });
+
+  it('引号到文件末尾都未闭合时按普通字符重新拆分', () => {
+    const records = splitRecords('a,b\n1,"x\n2,y\n', { delimiter: ',', quoted: true });
+
+    expect(records.map(record => record.fields)).toEqual([['a', 'b'], ['1', '"x'], ['2', 'y']]);
+    expect(records.every(record => record.lineCount === 1)).toBe(true);
+  });
+
+  it('未闭合引号所在记录起逐行拆分，并保留原始行号', () => {
+    const text = 'a,b\n1,x\n\n2,"y\n3,z\n';
+    const records = splitRecords(text, { delimiter: ',', quoted: true });
+
+    expect(records.map(record => record.fields)).toEqual([['a', 'b'], ['1', 'x'], ['2', '"y'], ['3', 'z']]);
+    expect(records.map(record => record.lineNumber)).toEqual([1, 2, 4, 5]);
+  });
+});
@@ -0,0 +1,171 @@
+import { PROGRESS_INTERVAL } from './progress';
+import type { ProgressCallback } from './progress';
+
+// 原始数据的分隔格式：字段分隔符，以及是否按 CSV 规则处理双引号包裹的字段
+export type Dialect = {
+  delimiter: string;
+  quoted: boolean;
+};
+
+export type DialectPresetId = 'tsv' | 'csv' | 'hive';
+
+export const DIALECT_PRESETS: Record<DialectPresetId, Dialect & { label: string }> = {
+  tsv: { label: 'TSV（制表符分隔）', delimiter: '\t', quoted: false },
+  csv: { label: 'CSV（逗号分隔）', delimiter: ',', quoted: true },
+  hive: { label: 'Hive 导出（\\u0001 分隔）', delimiter: '\u0001', quoted: false }
+};
+
+// 与当前实现保持一致：默认按制表符分隔、不处理引号
+export const DEFAULT_DIALECT: Dialect = { delimiter: '\t', quoted: false };
+
+// 一条记录（可能因引号内换行而跨越多行），lineNumber 为起始行号（从 1 开始），raw 为原始文本
+export type TextRecord = {
+  lineNumber: number;
+  // 记录跨越的行数，引号内含换行时大于 1
+  lineCount: number;
+  raw: string;
+  fields: string[];
+};
+
+// 嗅探时参考的行数
+const SNIFF_LINES = 20;
+
+const countOf = (text: string, ch: string) => text.split(ch).length - 1;
+
+export const getDialectPresetId = (dialect: Dialect): DialectPresetId | null => {
+  const entry = Object.entries(DIALECT_PRESETS).find(([, preset]) => preset.delimiter === dialect.delimiter);
+  return entry ? entry[0] as DialectPresetId : null;
+};
+
+/**
+ * 根据文件开头几行猜测分隔格式：以表头中出现的分隔符为候选，
+ * 优先选择后续各行分隔符数量与表头一致的那个。
+ */
+export const sniffDialect = (text: string): Dialect => {
+  const lines = text.slice(0, 64 * 1024).split('\n').filter(line => line.trim()).slice(0, SNIFF_LINES);
+  if (lines.length === 0) return DEFAULT_DIALECT;
+
+  const [header, ...rest] = lines;
+  let best: { delimiter: string; score: number } | null = null;
+  for (const { delimiter } of Object.values(DIALECT_PRESETS)) {
+    const headerCount = countOf(header, delimiter);
+    if (headerCount === 0) continue;
+    const score = rest.filter(line => countOf(line, delimiter) === headerCount).length;
+    if (!best || score > best.score) {
+      best = { delimiter, score };
+    }
+  }
+  const delimiter = best?.delimiter ?? DEFAULT_DIALECT.delimiter;
+
+  // 逗号分隔默认按 CSV 处理引号；制表符与 \u0001 分隔的导出中评论常带有不成对的引号，
+  // 仅在有字段以双引号包裹、且每一行的引号都成对时启用，否则一个未闭合的引号会吞掉之后的所有行
+  const quoted = delimiter === ','
+    || (lines.some(line => line.trim().split(delimiter).some(field => /^".*"$/.test(field.trim())))
+      && lines.every(line => countOf(line, '"') % 2 === 0));
+
+  return { delimiter, quoted };
+};
+
+// 不处理引号：逐行拆分（与原实现一致，整行先去除首尾空白）；firstLine 为 text 首行在原文件中的行号
+const splitPlainRecords = (text: string, delimiter: string, onProgress?: ProgressCallback, firstLine = 1) => {
+  const lines = text.split('\n');
+  const records: TextRecord[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    if (onProgress && i > 0 && i % PROGRESS_INTERVAL === 0) {
+      onProgress({ stage: 'lines', count: i, total: lines.length - 1 });
+    }
+    const line = lines[i].trim();
+    if (!line) continue;
+    records.push({ lineNumber: i + firstLine, lineCount: 1, raw: line, fields: line.split(delimiter) });
+  }
+
+  onProgress?.({ stage: 'lines', count: lines.length - 1, total: lines.length - 1 });
+  return records;
+};
+
+/**
+ * 按 CSV 规则拆分：双引号包裹的字段可包含分隔符与换行，"" 表示一个双引号。
+ * 引号直到文件末尾都未闭合时，说明此后的引号已不成对：从该引号所在记录开始改为逐行拆分，
+ * 只回退一次，不再逐个引号重新扫描。
+ */
+const splitQuotedRecords = (text: string, delimiter: string, onProgress?: ProgressCallback) => {
+  const records: TextRecord[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+  let recordStart = 0;
+
+  const endRecord = (end: number) => {
+    fields.push(field);
+    // 跳过空行
+    if (fields.length > 1 || fields[0].trim() !== '') {
+      records.push({
+        lineNumber: recordLine,
+        lineCount: line - recordLine + 1,
+        raw: text.slice(recordStart, end).trim(),
+        fields
+      });
+      if (onProgress && records.length % PROGRESS_INTERVAL === 0) {
+        onProgress({ stage: 'lines', count: line });
+      }
+    }
+    fields = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+
+    if (inQuotes) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        if (ch === '\n') line++;
+        field += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"' && field.trim() === '') {
+      inQuotes = true;
+      field = '';
+    } else if (ch === delimiter) {
+      fields.push(field);
+      field = '';
+    } else if (ch === '\n') {
+      endRecord(i);
+      line++;
+      recordLine = line;
+      recordStart = i + 1;
+    } else if (ch === '\r' && text[i + 1] === '\n') {
+      // CRLF：交给下一个 \n 处理
+    } else {
+      field += ch;
+    }
+  }
+  if (inQuotes) {
+    const rest = text.slice(recordStart);
+    records.push(...splitPlainRecords(rest, delimiter, undefined, recordLine));
+    line = recordLine + countOf(rest, '\n');
+  } else if (field !== '' || fields.length > 0) {
+    endRecord(text.length);
+  }
+
+  onProgress?.({ stage: 'lines', count: line, total: line });
+  return records;
+};
+
+// 按指定格式将文本拆分为记录
+export const splitRecords = (text: string, dialect: Dialect, onProgress?: ProgressCallback) => {
+  return dialect.quoted
+    ? splitQuotedRecords(text, dialect.delimiter, onProgress)
+    : splitPlainRecords(text, dialect.delimiter, onProgress);
+};
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { collapseDuplicates, findDuplicateGroups, normalizeForDedup, syncDuplicateLabels } from './duplicates';
+import { tableOf } from './testFixtures';
+
+const table = tableOf(['sentiment_tag', 'opinion', 'raw_comments', 'tf']);
+
+describe('normalizeForDedup', () => {
+  it('忽略空白、标点、全半角与大小写', () => {
+    expect(normalizeForDedup('Ｇｏｏｄ， 很好！')).toBe(normalizeForDedup('good很好'));
+  });
+});
+
+describe('findDuplicateGroups', () => {
+  it('按组内行数从多到少列出完全相同与近似重复的评论，空评论不参与比较', () => {
+    const groups = findDuplicateGroups(table([
+      ['正面', '好看', '很好看！', '1'],
+      ['正面', '好看', '不错', ''],
+      ['正面', '好看', '很好看', ''],
+      ['负面', '贵', '不错', '0'],
+      ['正面', '好看', '', ''],
+      ['正面', '好看', '', ''],
+      ['正面', '好看', '不错', '']
+    ]));
+
+    expect(groups).toEqual([
+      {
+        key: '不错', rowIndices: [1, 3, 6], exact: true, crossOpinion: true,
+        opinions: ['正面 · 好看', '负面 · 贵'], variants: ['不错'], labels: ['0']
+      },
+      {
+        key: '很好看', rowIndices: [0, 2], exact: false, crossOpinion: false,
+        opinions: ['正面 · 好看'], variants: ['很好看！', '很好看'], labels: ['1']
+      }
+    ]);
+  });
+
+  it('没有 raw_comments 列时不检测', () => {
+    expect(findDuplicateGroups({ sourceFileName: 'a.txt', columns: ['tf'], rows: [['1'], ['1']] })).toEqual([]);
+  });
+});
+
+describe('collapseDuplicates', () => {
+  it('每组保留第一行，未标注时沿用副本中的标注，删除的行记录原因', () => {
+    const data = table([
+      ['正面', '好看', '不错', ''],
+      ['正面', '好看', '不错', '1'],
+      ['正面', '好看', '其他', '']
+    ]);
+    const result = collapseDuplicates(data, findDuplicateGroups(data));
+
+    expect(result.deletedIndices).toEqual([1]);
+    expect(result.tableData.rows).toEqual([['正面', '好看', '不错', '1'], ['正面', '好看', '其他', '']]);
+    expect(result.tableData.deletedRows).toEqual([{ cells: ['正面', '好看', '不错', '1'], reason: '合并重复评论' }]);
+  });
+
+  it('跨观点的重复默认只在各观点内合并，不删除其他观点的行', () => {
+    const data = table([
+      ['正面', '好看', '不错', '1'],
+      ['负面', '贵', '不错', ''],
+      ['正面', '好看', '不错', ''],
+      ['负面', '贵', '不错', '0']
+    ]);
+    const result = collapseDuplicates(data, findDuplicateGroups(data));
+
+    expect(result.deletedIndices).toEqual([2, 3]);
+    expect(result.tableData.rows).toEqual([['正面', '好看', '不错', '1'], ['负面', '贵', '不错', '0']]);
+  });
+
+  it('确认跨观点合并时整组只保留第一行', () => {
+    const data = table([
+      ['正面', '好看', '不错', '1'],
+      ['负面', '贵', '不错', '0'],
+      ['正面', '好看', '不错', '']
+    ]);
+    const result = collapseDuplicates(data, findDuplicateGroups(data), true);
+
+    expect(result.deletedIndices).toEqual([1, 2]);
+    expect(result.tableData.rows).toEqual([['正面', '好看', '不错', '1']]);
+  });
+});
+
+describe('syncDuplicateLabels', () => {
+  it('使用组内唯一的标注，标注冲突的组保持不变', () => {
+    const data = table([
+      ['正面', '好看', '不错', '1'],
+      ['正面', '好看', '不错', ''],
+      ['正面', '好看', '很差', '0'],
+      ['正面', '好看', '很差', '1']
+    ]);
+    const result = syncDuplicateLabels(data, findDuplicateGroups(data));
+
+    expect(result.updatedIndices).toEqual([0, 1]);
+    expect(result.tableData.rows.map(row => row[3])).toEqual(['1', '1', '0', '1']);
+  });
+
+  it('指定标注时覆盖组内所有副本', () => {
+    const data = table([['正面', '好看', '很差', '0'], ['正面', '好看', '很差', '1']]);
+    expect(syncDuplicateLabels(data, findDuplicateGroups(data), '0').tableData.rows.map(row => row[3])).toEqual(['0', '0']);
+  });
+});
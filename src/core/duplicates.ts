@@ -0,0 +1,150 @@
+import { getGroupKey, getGroupLabel } from './aggregate';
+import { deleteRows, setTfForRows } from './editing';
+import type { ProcessedTableData } from './types';
+
+export type DuplicateGroup = {
+  // 归一化后的评论文本
+  key: string;
+  // 组内各行的全局行索引（升序），第一行为合并时保留的行
+  rowIndices: number[];
+  // 组内原文是否完全相同；否则为仅在空白、标点、全半角或大小写上不同的近似重复
+  exact: boolean;
+  // 是否分布在多个 sentiment_tag + opinion 分组中
+  crossOpinion: boolean;
+  // 组内各行所在的 sentiment_tag + opinion 分组名称（按首次出现顺序，第一个为保留行所在的分组）
+  opinions: string[];
+  // 组内出现的不同原文（按首次出现顺序）
+  variants: string[];
+  // 组内已有的不同 tf 标注（0/1）
+  labels: ('0' | '1')[];
+};
+
+// 用于判断近似重复：全角转半角（NFKC）、统一大小写，并去除空白与标点
+export const normalizeForDedup = (text: string) => {
+  return text.normalize('NFKC').toLowerCase().replace(/[\s\p{P}]+/gu, '');
+};
+
+// 取出一行中第二步分组用到的 sentiment_tag 与 opinion
+const toOpinionRow = (tableData: ProcessedTableData, index: number) => {
+  const { columns, rows } = tableData;
+  const row = rows[index] ?? [];
+  return {
+    sentiment_tag: row[columns.indexOf('sentiment_tag')] ?? '',
+    opinion: row[columns.indexOf('opinion')] ?? ''
+  };
+};
+
+// 将重复组内的行按 sentiment_tag + opinion 分开，各部分的行索引保持升序
+const splitByOpinion = (tableData: ProcessedTableData, rowIndices: number[]) => {
+  const parts = new Map<string, number[]>();
+  for (const index of rowIndices) {
+    const key = getGroupKey(toOpinionRow(tableData, index));
+    const part = parts.get(key);
+    if (part) part.push(index);
+    else parts.set(key, [index]);
+  }
+  return Array.from(parts.values());
+};
+
+/**
+ * 找出 raw_comments 完全相同或近似重复的行（如同一评论在多个 part_time 分区中出现、复制粘贴的刷屏内容），
+ * 同时覆盖同一观点内与跨观点的重复。空评论不参与比较。按组内行数从多到少排序。
+ */
+export const findDuplicateGroups = (tableData: ProcessedTableData) => {
+  const { columns, rows } = tableData;
+  const commentIndex = columns.indexOf('raw_comments');
+  const tfIndex = columns.indexOf('tf');
+  if (commentIndex < 0) return [];
+
+  const byKey = new Map<string, number[]>();
+  rows.forEach((row, index) => {
+    const key = normalizeForDedup(row[commentIndex] ?? '');
+    if (!key) return;
+    const indices = byKey.get(key);
+    if (indices) indices.push(index);
+    else byKey.set(key, [index]);
+  });
+
+  const groups: DuplicateGroup[] = [];
+  for (const [key, rowIndices] of byKey) {
+    if (rowIndices.length < 2) continue;
+
+    const variants = new Set<string>();
+    const opinions = new Set<string>();
+    const labels = new Set<'0' | '1'>();
+    for (const index of rowIndices) {
+      const row = rows[index];
+      variants.add(row[commentIndex] ?? '');
+      opinions.add(getGroupLabel(toOpinionRow(tableData, index)));
+      const tfValue = row[tfIndex];
+      if (tfValue === '0' || tfValue === '1') labels.add(tfValue);
+    }
+
+    groups.push({
+      key,
+      rowIndices,
+      exact: variants.size === 1,
+      crossOpinion: opinions.size > 1,
+      opinions: Array.from(opinions),
+      variants: Array.from(variants),
+      labels: Array.from(labels).sort()
+    });
+  }
+
+  return groups.sort((a, b) => b.rowIndices.length - a.rowIndices.length || a.rowIndices[0] - b.rowIndices[0]);
+};
+
+// 按标注值分批写入 tf，避免每组都复制一次整张表
+const applyLabels = (tableData: ProcessedTableData, updates: Map<'0' | '1', number[]>) => {
+  let next = tableData;
+  for (const [value, indices] of updates) {
+    next = setTfForRows(next, indices, value);
+  }
+  return next;
+};
+
+/**
+ * 合并重复：默认只在同一 sentiment_tag + opinion 分组内合并，每个分组保留第一行并删除其余副本，
+ * 不会改变其他分组的 tf 总和；acrossOpinions 为 true 时整组只保留第一行（跨观点合并，须由用户确认）。
+ * 保留行未标注时，沿用同一部分中第一个已有的标注。
+ * 返回新的表格数据与被删除的行索引（用于重新映射错误行、选中行）。
+ */
+export const collapseDuplicates = (tableData: ProcessedTableData, groups: DuplicateGroup[], acrossOpinions = false) => {
+  const tfIndex = tableData.columns.indexOf('tf');
+  const updates = new Map<'0' | '1', number[]>([['0', []], ['1', []]]);
+  const deletedIndices: number[] = [];
+
+  for (const group of groups) {
+    const parts = acrossOpinions ? [group.rowIndices] : splitByOpinion(tableData, group.rowIndices);
+    for (const [keptIndex, ...copies] of parts) {
+      const keptTf = tableData.rows[keptIndex]?.[tfIndex];
+      if (tfIndex >= 0 && keptTf !== '0' && keptTf !== '1') {
+        const label = copies
+          .map(index => tableData.rows[index]?.[tfIndex])
+          .find((tfValue): tfValue is '0' | '1' => tfValue === '0' || tfValue === '1');
+        if (label) updates.get(label)!.push(keptIndex);
+      }
+      deletedIndices.push(...copies);
+    }
+  }
+
+  return { tableData: deleteRows(applyLabels(tableData, updates), deletedIndices, '合并重复评论'), deletedIndices };
+};
+
+/**
+ * 将标注同步到组内所有副本。未指定 value 时使用组内已有的唯一标注；
+ * 没有标注或标注冲突（同时有 0 和 1）的组保持不变。
+ */
+export const syncDuplicateLabels = (tableData: ProcessedTableData, groups: DuplicateGroup[], value?: '0' | '1') => {
+  const updates = new Map<'0' | '1', number[]>([['0', []], ['1', []]]);
+  const updatedIndices: number[] = [];
+
+  for (const group of groups) {
+    const label = value ?? (group.labels.length === 1 ? group.labels[0] : null);
+    if (!label) continue;
+    updates.get(label)!.push(...group.rowIndices);
+    updatedIndices.push(...group.rowIndices);
+  }
+
+  return { tableData: applyLabels(tableData, updates), updatedIndices };
+};
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { deleteRows, remapIndicesAfterDelete, setTfForRows } from './editing';
+import { tableOf } from './testFixtures';
+
+const table = tableOf(['opinion', 'raw_comments', 'tf'])([
+  ['好看', '颜值高', ''],
+  ['贵', '太贵', '1'],
+  ['实惠', '便宜', ''],
+  ['好看', '漂亮', '0']
+]);
+
+describe('setTfForRows', () => {
+  it('只复制被修改的行，没有变化时返回原对象', () => {
+    const next = setTfForRows(table, [0, 1, 9], '1');
+
+    expect(next.rows.map(row => row[2])).toEqual(['1', '1', '', '0']);
+    expect(next.rows[1]).toBe(table.rows[1]);
+    expect(table.rows[0][2]).toBe('');
+    expect(setTfForRows(table, [1], '1')).toBe(table);
+    expect(setTfForRows(tableOf(['opinion'])([['好看']]), [0], '1').rows).toEqual([['好看']]);
+  });
+});
+
+describe('deleteRows', () => {
+  it('删除的行连同原因追加到 deletedRows，重复索引只删除一次', () => {
+    const once = deleteRows(table, [2, 0, 2]);
+    const twice = deleteRows(once, [1], '重复评论');
+
+    expect(once.rows.map(row => row[1])).toEqual(['太贵', '漂亮']);
+    expect(twice.deletedRows).toEqual([
+      { cells: ['好看', '颜值高', ''], reason: '手动删除' },
+      { cells: ['实惠', '便宜', ''], reason: '手动删除' },
+      { cells: ['好看', '漂亮', '0'], reason: '重复评论' }
+    ]);
+    expect(deleteRows(table, [])).toBe(table);
+  });
+});
+
+describe('remapIndicesAfterDelete', () => {
+  it('移除被删除的索引，其后的索引按之前被删除的行数前移', () => {
+    expect(Array.from(remapIndicesAfterDelete([0, 2, 3, 5, 8], [1, 3, 4]))).toEqual([0, 1, 2, 5]);
+  });
+
+  it('删除索引无序或重复时结果相同，没有删除时保持不变', () => {
+    expect(remapIndicesAfterDelete([0, 2, 3, 5, 8], [4, 1, 3, 1])).toEqual(remapIndicesAfterDelete([0, 2, 3, 5, 8], [1, 3, 4]));
+    expect(Array.from(remapIndicesAfterDelete([3, 1], []))).toEqual([3, 1]);
+  });
+
+  it('重新映射后的索引指向删除前的同一行', () => {
+    const selected = [1, 3];
+    const deleted = [0, 2];
+    const next = deleteRows(table, deleted);
+
+    expect(Array.from(remapIndicesAfterDelete(selected, deleted)).map(index => next.rows[index]))
+      .toEqual(selected.map(index => table.rows[index]));
+  });
+});
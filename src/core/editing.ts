@@ -0,0 +1,58 @@
+import type { ProcessedTableData } from './types';
+
+// 标注编辑操作：均返回新的表格数据，不修改传入的对象
+
+export const setTfForRows = (tableData: ProcessedTableData, rowIndices: Iterable<number>, value: string) => {
+  const tfIndex = tableData.columns.indexOf('tf');
+  if (tfIndex < 0) return tableData;
+
+  const nextRows = tableData.rows.slice();
+  let changed = false;
+  for (const index of rowIndices) {
+    const row = nextRows[index];
+    if (!row || row[tfIndex] === value) continue;
+    const nextRow = row.slice();
+    nextRow[tfIndex] = value;
+    nextRows[index] = nextRow;
+    changed = true;
+  }
+  return changed ? { ...tableData, rows: nextRows } : tableData;
+};
+
+// 被删除的行记录在 deletedRows 中，第二步的审计可据此说明某个观点为何缺失
+export const deleteRows = (tableData: ProcessedTableData, rowIndices: Iterable<number>, reason = '手动删除') => {
+  const deleted = new Set(rowIndices);
+  if (deleted.size === 0) return tableData;
+  const deletedRows = tableData.rows
+    .filter((_, index) => deleted.has(index))
+    .map(cells => ({ cells, reason }));
+  return {
+    ...tableData,
+    rows: tableData.rows.filter((_, index) => !deleted.has(index)),
+    deletedRows: [...(tableData.deletedRows ?? []), ...deletedRows]
+  };
+};
+
+/**
+ * 删除若干行后，重新映射其余行的索引（如错误行、选中行）。
+ * 被删除的索引会被移除，其后的索引依次前移。
+ */
+export const remapIndicesAfterDelete = (indices: Iterable<number>, deletedIndices: Iterable<number>) => {
+  const deleted = Array.from(new Set(deletedIndices)).sort((a, b) => a - b);
+  const deletedSet = new Set(deleted);
+  const remapped = new Set<number>();
+
+  for (const index of indices) {
+    if (deletedSet.has(index)) continue;
+    // 二分查找：统计小于 index 的被删除行数
+    let lo = 0;
+    let hi = deleted.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (deleted[mid] < index) lo = mid + 1;
+      else hi = mid;
+    }
+    remapped.add(index - lo);
+  }
+  return remapped;
+};
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { decodeText, detectEncoding, detectGarbledText, encodeGb18030 } from './encoding';
+
+const SAMPLE = 'opinion\traw_comments\n好看\t质量很好，价格也不贵，推荐购买\n';
+
+const encodeUtf16 = (text: string, littleEndian: boolean) => {
+  const bytes = new Uint8Array(text.length * 2);
+  const view = new DataView(bytes.buffer);
+  for (let i = 0; i < text.length; i++) view.setUint16(i * 2, text.charCodeAt(i), littleEndian);
+  return bytes;
+};
+
+describe('detectEncoding', () => {
+  it('优先按 BOM 识别', () => {
+    expect(detectEncoding(new Uint8Array([0xef, 0xbb, 0xbf, 0x61]))).toBe('utf-8');
+    expect(detectEncoding(new Uint8Array([0xff, 0xfe, 0x61, 0x00]))).toBe('utf-16le');
+    expect(detectEncoding(new Uint8Array([0xfe, 0xff, 0x00, 0x61]))).toBe('utf-16be');
+  });
+
+  it('没有 BOM 时根据 0 字节的分布识别 UTF-16', () => {
+    expect(detectEncoding(encodeUtf16('opinion\traw_comments\n', true))).toBe('utf-16le');
+    expect(detectEncoding(encodeUtf16('opinion\traw_comments\n', false))).toBe('utf-16be');
+  });
+
+  it('严格 UTF-8 解码失败时视为 GB18030', () => {
+    expect(detectEncoding(new TextEncoder().encode(SAMPLE))).toBe('utf-8');
+    expect(detectEncoding(encodeGb18030(SAMPLE))).toBe('gb18030');
+  });
+
+  it('样本末尾被截断的多字节字符不影响 UTF-8 的判断', () => {
+    const bytes = new TextEncoder().encode('a'.repeat(64 * 1024 - 1) + '好');
+    expect(detectEncoding(bytes)).toBe('utf-8');
+  });
+});
+
+describe('decodeText', () => {
+  it('按指定编码解码并去除 BOM', () => {
+    expect(decodeText(new Uint8Array([0xef, 0xbb, 0xbf, ...new TextEncoder().encode(SAMPLE)]), 'utf-8')).toBe(SAMPLE);
+    expect(decodeText(encodeGb18030(SAMPLE), 'gb18030')).toBe(SAMPLE);
+  });
+});
+
+describe('detectGarbledText', () => {
+  it('正常中文文本不视为乱码', () => {
+    expect(detectGarbledText(SAMPLE.repeat(5)).garbled).toBe(false);
+  });
+
+  it('用错误的编码解码后视为乱码', () => {
+    const wrong = decodeText(encodeGb18030(SAMPLE.repeat(5)), 'utf-8');
+    const report = detectGarbledText(wrong);
+    expect(report.garbled).toBe(true);
+    expect(report.suspiciousCount).toBeGreaterThan(0);
+  });
+});
+
+describe('encodeGb18030', () => {
+  it('编码结果可由 GB18030 解码还原，包括辅助平面字符', () => {
+    const text = '好评😀，价格€';
+    expect(new TextDecoder('gb18030').decode(encodeGb18030(text))).toBe(text);
+  });
+});
@@ -0,0 +1,156 @@
+// TXT 文件的字符编码（GB18030 兼容 GBK 与 GB2312）
+export type TextEncodingId = 'utf-8' | 'utf-16le' | 'utf-16be' | 'gb18030';
+
+export const TEXT_ENCODINGS: Record<TextEncodingId, string> = {
+  'utf-8': 'UTF-8',
+  'utf-16le': 'UTF-16 LE',
+  'utf-16be': 'UTF-16 BE',
+  gb18030: 'GBK / GB18030'
+};
+
+// 编码检测时参考的字节数
+const DETECT_BYTES = 64 * 1024;
+
+/**
+ * 检测字节内容的编码：优先识别 BOM；没有 BOM 时根据 0 字节的分布判断 UTF-16，
+ * 再尝试严格的 UTF-8 解码，失败则视为 GB18030。
+ */
+export const detectEncoding = (bytes: Uint8Array): TextEncodingId => {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+
+  const sample = bytes.subarray(0, DETECT_BYTES);
+
+  // 以 ASCII 为主的 UTF-16 文本中，每隔一个字节就是 0
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < sample.length; i++) {
+    if (sample[i] !== 0) continue;
+    if (i % 2 === 0) evenZeros++;
+    else oddZeros++;
+  }
+  const half = sample.length / 2;
+  if (half > 0 && oddZeros / half > 0.3 && evenZeros / half < 0.05) return 'utf-16le';
+  if (half > 0 && evenZeros / half > 0.3 && oddZeros / half < 0.05) return 'utf-16be';
+
+  try {
+    // stream 模式下，样本末尾被截断的多字节字符不会被当作错误
+    new TextDecoder('utf-8', { fatal: true }).decode(sample, { stream: true });
+    return 'utf-8';
+  } catch {
+    return 'gb18030';
+  }
+};
+
+// 按指定编码解码（BOM 会被去除）；partial 为 true 时表示只解码了文件开头的一部分
+export const decodeText = (bytes: Uint8Array | ArrayBuffer, encoding: TextEncodingId, partial = false) => {
+  return new TextDecoder(encoding).decode(bytes, { stream: partial });
+};
+
+// 中文评论中最常见的汉字；正常文本中这些字占比较高，乱码中则很少出现
+const COMMON_HANZI = new Set(
+  '的一是不了人我在有他这为之大来以个中上们到说国和地也子时道出而要于就下得可你年生自会那后能对着事其里所去行过家十用发天如然作方成者多日都三小军二无同么经法当起与好看学进种将还分此心前面又定见只主没公从很太差错买吧啊呢吗真再问题服务质量效果价格产品喜欢推荐满意'
+);
+
+export type GarbledTextReport = {
+  // 疑似乱码的字符数（替换字符、Latin-1 扩展字符、私用区字符等）
+  suspiciousCount: number;
+  // 汉字中常用字的占比（汉字过少时为 null）
+  commonHanziRatio: number | null;
+  garbled: boolean;
+};
+
+// 参与常用字占比判断的最少汉字数
+const MIN_HANZI = 30;
+
+/**
+ * 乱码启发式检测：用错误的编码解码后，通常会出现大量替换字符（�）、
+ * 「锟斤拷」或 Latin-1 扩展字符，或者汉字几乎都是生僻字。
+ */
+export const detectGarbledText = (text: string): GarbledTextReport => {
+  let nonAscii = 0;
+  let suspicious = 0;
+  let hanzi = 0;
+  let commonHanzi = 0;
+
+  for (const ch of text) {
+    const code = ch.codePointAt(0) ?? 0;
+    if (code < 0x80) continue;
+    nonAscii++;
+    if (code === 0xfffd || code <= 0xff || (code >= 0xe000 && code <= 0xf8ff)) {
+      suspicious++;
+    } else if (code >= 0x4e00 && code <= 0x9fff) {
+      hanzi++;
+      if (COMMON_HANZI.has(ch)) commonHanzi++;
+    }
+  }
+  suspicious += (text.match(/锟斤拷/g)?.length ?? 0) * 3;
+
+  const commonHanziRatio = hanzi >= MIN_HANZI ? commonHanzi / hanzi : null;
+  const garbled = (suspicious >= 3 && suspicious / Math.max(nonAscii, 1) > 0.05)
+    || (commonHanziRatio !== null && commonHanziRatio < 0.08);
+
+  return { suspiciousCount: suspicious, commonHanziRatio, garbled };
+};
+
+// GB18030 编码表（UTF-16 码元 → 字节），首次使用时借助 TextDecoder 反向生成
+let gb18030Table: Map<number, number[]> | null = null;
+
+const buildGb18030Table = () => {
+  const decoder = new TextDecoder('gb18030');
+  const table = new Map<number, number[]>();
+  const add = (bytes: number[]) => {
+    const text = decoder.decode(new Uint8Array(bytes));
+    if (text.length !== 1 || text === '�') return;
+    const code = text.charCodeAt(0);
+    if (!table.has(code)) table.set(code, bytes);
+  };
+
+  // 双字节区
+  for (let b1 = 0x81; b1 <= 0xfe; b1++) {
+    for (let b2 = 0x40; b2 <= 0xfe; b2++) {
+      if (b2 !== 0x7f) add([b1, b2]);
+    }
+  }
+  // 四字节区中的 BMP 字符
+  for (let b1 = 0x81; b1 <= 0x84; b1++) {
+    for (let b2 = 0x30; b2 <= 0x39; b2++) {
+      for (let b3 = 0x81; b3 <= 0xfe; b3++) {
+        for (let b4 = 0x30; b4 <= 0x39; b4++) {
+          add([b1, b2, b3, b4]);
+        }
+      }
+    }
+  }
+  // 替换字符本身也有对应的编码，但无法与解码失败区分，单独补充
+  table.set(0xfffd, [0x84, 0x31, 0xa4, 0x37]);
+  return table;
+};
+
+/**
+ * 将文本编码为 GB18030（浏览器的 TextEncoder 只支持 UTF-8）。
+ * 辅助平面字符按 GB18030 的四字节线性规则计算；无法编码的字符（如孤立的代理项）输出为 ?。
+ */
+export const encodeGb18030 = (text: string) => {
+  gb18030Table ??= buildGb18030Table();
+  const bytes: number[] = [];
+
+  for (const ch of text) {
+    const code = ch.codePointAt(0) ?? 0;
+    if (code < 0x80) {
+      bytes.push(code);
+    } else if (code >= 0x10000) {
+      const index = code - 0x10000;
+      bytes.push(
+        0x90 + Math.floor(index / 12600),
+        0x30 + Math.floor(index / 1260) % 10,
+        0x81 + Math.floor(index / 10) % 126,
+        0x30 + index % 10
+      );
+    } else {
+      bytes.push(...(gb18030Table.get(code) ?? [0x3f]));
+    }
+  }
+  return new Uint8Array(bytes);
+};
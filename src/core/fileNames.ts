@@ -0,0 +1,62 @@
+import type { DataRow } from './types';
+
+export const toBaseName = (fileName: string) => {
+  return fileName.replace(/\.[^.]+$/, '');
+};
+
+// 文件的扩展名（含「.」），没有扩展名时为空字符串
+export const toExtension = (fileName: string) => {
+  return fileName.match(/\.[^.]+$/)?.[0] ?? '';
+};
+
+// 第一步导出的待标注 Excel 文件名
+export const buildAnnotationFileName = (sourceFileName: string) => {
+  return toBaseName(sourceFileName) + '-待标注.xlsx';
+};
+
+// 批量处理多个文件并合并为一张表时使用的名称（保留扩展名，便于后续按同样规则生成文件名）
+export const buildBatchSourceName = (sourceFileNames: string[]) => {
+  if (sourceFileNames.length === 1) return sourceFileNames[0];
+  return `${toBaseName(sourceFileNames[0])}等${sourceFileNames.length}个文件.txt`;
+};
+
+// 第二步按来源文件分别输出时，打包下载的 zip 文件名
+export const buildOutputZipName = (sourceFileName: string) => {
+  return toBaseName(sourceFileName) + '-输出.zip';
+};
+
+// 第二步生成的结案报告文件名
+export const buildReportFileName = (sourceFileName: string) => {
+  return toBaseName(sourceFileName) + '-结案报告.html';
+};
+
+// 第二步输入与输出核对（审计）表的文件名
+export const buildAuditFileName = (sourceFileName: string) => {
+  return toBaseName(sourceFileName) + '-审计.xlsx';
+};
+
+// 第一步 TXT 解析诊断报告的文件名
+export const buildDiagnosticsFileName = (sourceFileName: string) => {
+  return toBaseName(sourceFileName) + '-解析诊断.csv';
+};
+
+const buildResultFileName = (data: DataRow[], sourceFileName: string, suffix: string, extension: string) => {
+  const prefix = data.length > 0 ? String(Object.values(data[0])[0] || '') : '';
+  const baseFileName = toBaseName(sourceFileName);
+  return prefix ? `${prefix}-${baseFileName}-${suffix}.${extension}` : `${baseFileName}-${suffix}.${extension}`;
+};
+
+// 第二步输出的文件名：以第二行第一列的内容作为文件名前缀，扩展名随输出格式变化
+export const buildOutputFileName = (renamedData: DataRow[], sourceFileName: string, extension = 'csv') => {
+  return buildResultFileName(renamedData, sourceFileName, '输出', extension);
+};
+
+// 被过滤的组单独输出的文件名，前缀取自被过滤数据的第一行
+export const buildDroppedFileName = (droppedData: DataRow[], sourceFileName: string, extension = 'csv') => {
+  return buildResultFileName(droppedData, sourceFileName, '已过滤', extension);
+};
+
+// 保留与被过滤的组合并为一个 xlsx（kept / dropped 两个工作表）的文件名
+export const buildKeptAndDroppedFileName = (renamedData: DataRow[], sourceFileName: string) => {
+  return buildResultFileName(renamedData, sourceFileName, '保留与过滤', 'xlsx');
+};
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { deleteRows, remapIndicesAfterDelete } from './editing';
+import { EMPTY_FILTER, filterAndSortRows, getDistinctValues, isFilterActive } from './filter';
+import { tableOf } from './testFixtures';
+
+const table = tableOf(['sentiment_tag', 'opinion', 'raw_comments', 'tf'])([
+  ['正面', '好看', '颜值很高', ''],
+  ['负面', '贵', '价格太贵', '1'],
+  ['正面', '好看', '外观漂亮', '0'],
+  ['正面', '实惠', '价格实惠', ''],
+  ['负面', '贵', '太贵了', '']
+]);
+
+describe('isFilterActive', () => {
+  it('只有空白的搜索词不算筛选，列条件或只看未标注才算', () => {
+    expect(isFilterActive({ ...EMPTY_FILTER, search: '  ' })).toBe(false);
+    expect(isFilterActive({ ...EMPTY_FILTER, columns: { opinion: undefined } })).toBe(false);
+    expect(isFilterActive({ ...EMPTY_FILTER, columns: { opinion: '' } })).toBe(true);
+    expect(isFilterActive({ ...EMPTY_FILTER, tfUnfilledOnly: true })).toBe(true);
+  });
+});
+
+describe('filterAndSortRows', () => {
+  it('返回满足全部条件的全局行索引，搜索忽略大小写与首尾空白', () => {
+    expect(filterAndSortRows(table, { ...EMPTY_FILTER, search: ' 价格 ' }, null)).toEqual([1, 3]);
+    expect(filterAndSortRows(table, { ...EMPTY_FILTER, columns: { sentiment_tag: '正面', opinion: '好看' } }, null)).toEqual([0, 2]);
+    expect(filterAndSortRows(table, { ...EMPTY_FILTER, search: '贵', tfUnfilledOnly: true }, null)).toEqual([4]);
+  });
+
+  it('表格中不存在的列条件被忽略', () => {
+    expect(filterAndSortRows(table, { ...EMPTY_FILTER, columns: { name: '张三' } }, null)).toEqual([0, 1, 2, 3, 4]);
+  });
+
+  it('排序按中文与数字自然顺序，值相同时保持原始顺序', () => {
+    const numbered = tableOf(['cid'])([['10'], ['2'], ['10'], ['1']]);
+    expect(filterAndSortRows(numbered, EMPTY_FILTER, { column: 'cid', direction: 'asc' })).toEqual([3, 1, 0, 2]);
+    expect(filterAndSortRows(numbered, EMPTY_FILTER, { column: 'cid', direction: 'desc' })).toEqual([0, 2, 1, 3]);
+  });
+
+  it('在筛选结果中删除行后，重新映射的索引与删除后重新筛选的结果一致', () => {
+    const filter = { ...EMPTY_FILTER, columns: { opinion: '贵' } };
+    const visible = filterAndSortRows(table, filter, null);
+    const next = deleteRows(table, [visible[0]]);
+
+    expect(visible).toEqual([1, 4]);
+    expect(Array.from(remapIndicesAfterDelete(visible, [visible[0]]))).toEqual(filterAndSortRows(next, filter, null));
+  });
+});
+
+describe('getDistinctValues', () => {
+  it('去重并排序，空单元格为空字符串，不存在的列返回空数组', () => {
+    expect(getDistinctValues(table, 'sentiment_tag')).toEqual(['负面', '正面']);
+    expect(getDistinctValues(table, 'tf')).toEqual(['', '0', '1']);
+    expect(getDistinctValues(table, 'name')).toEqual([]);
+  });
+});
@@ -0,0 +1,73 @@
+import type { ProcessedTableData } from './types';
+
+// 支持按值筛选的列
+export const FILTER_COLUMNS = ['sentiment_tag', 'opinion', 'name', 'cid', 'source_file'] as const;
+
+export type FilterColumn = typeof FILTER_COLUMNS[number];
+
+export type RowFilter = {
+  // raw_comments 全文搜索关键词
+  search: string;
+  // 各列需要精确匹配的值，未设置表示不筛选该列
+  columns: Partial<Record<FilterColumn, string>>;
+  tfUnfilledOnly: boolean;
+};
+
+export type RowSort = {
+  column: string;
+  direction: 'asc' | 'desc';
+};
+
+export const EMPTY_FILTER: RowFilter = { search: '', columns: {}, tfUnfilledOnly: false };
+
+export const isFilterActive = (filter: RowFilter) => {
+  return filter.search.trim() !== ''
+    || Object.values(filter.columns).some(value => value !== undefined)
+    || filter.tfUnfilledOnly;
+};
+
+const collator = new Intl.Collator('zh-CN', { numeric: true });
+
+/**
+ * 返回满足筛选条件的行索引（即全局行索引），并按排序规则排列。
+ * 表格中的编辑、删除都通过这些全局索引映射回原始数据。
+ */
+export const filterAndSortRows = (tableData: ProcessedTableData, filter: RowFilter, sort: RowSort | null) => {
+  const { columns, rows } = tableData;
+  const commentIndex = columns.indexOf('raw_comments');
+  const tfIndex = columns.indexOf('tf');
+  const keyword = filter.search.trim().toLowerCase();
+  const columnConditions = Object.entries(filter.columns)
+    .filter((entry): entry is [string, string] => entry[1] !== undefined)
+    .map(([col, value]) => [columns.indexOf(col), value] as const)
+    .filter(([colIndex]) => colIndex >= 0);
+
+  const indices: number[] = [];
+  for (let i = 0; i < rows.length; i++) {
+    const row = rows[i];
+    if (keyword && !(row[commentIndex] ?? '').toLowerCase().includes(keyword)) continue;
+    if (columnConditions.some(([colIndex, value]) => (row[colIndex] ?? '') !== value)) continue;
+    if (filter.tfUnfilledOnly && tfIndex >= 0 && (row[tfIndex] === '0' || row[tfIndex] === '1')) continue;
+    indices.push(i);
+  }
+
+  const sortIndex = sort ? columns.indexOf(sort.column) : -1;
+  if (sort && sortIndex >= 0) {
+    const sign = sort.direction === 'asc' ? 1 : -1;
+    // 值相同时保持原始顺序
+    indices.sort((a, b) => sign * collator.compare(rows[a][sortIndex] ?? '', rows[b][sortIndex] ?? '') || a - b);
+  }
+
+  return indices;
+};
+
+// 某列的所有取值（去重并排序），用于筛选下拉框
+export const getDistinctValues = (tableData: ProcessedTableData, column: string) => {
+  const colIndex = tableData.columns.indexOf(column);
+  if (colIndex < 0) return [];
+  const values = new Set<string>();
+  for (const row of tableData.rows) {
+    values.add(row[colIndex] ?? '');
+  }
+  return Array.from(values).sort(collator.compare);
+};
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { transformAndAggregate } from './aggregate';
+import { deleteRows, remapIndicesAfterDelete } from './editing';
+import { previewGroups } from './groupPreview';
+import { rowsOf, tableOf } from './testFixtures';
+
+const COLUMNS = ['sentiment_tag', 'opinion', 'raw_comments', 'tf'];
+const table = tableOf(COLUMNS)([
+  ['负面', '贵', '太贵', '1'],
+  ['正面', '好看', '很好', ''],
+  ['中性', '一般', '还行', '0'],
+  ['正面', '好看', '不错', '1'],
+  ['负面', '贵', '价格高', '是']
+]);
+
+describe('previewGroups', () => {
+  it('按分组键排序，记录全局行索引、tf 总和与未标注行数，非法 tf 按 0 计算', () => {
+    expect(previewGroups(table).map(({ key, rowIndices, tfSum, unlabeledCount, kept }) => (
+      { key, rowIndices, tfSum, unlabeledCount, kept }
+    ))).toEqual([
+      { key: '中性|||一般', rowIndices: [2], tfSum: 0, unlabeledCount: 0, kept: false },
+      { key: '正面|||好看', rowIndices: [1, 3], tfSum: 1, unlabeledCount: 1, kept: true },
+      { key: '负面|||贵', rowIndices: [0, 4], tfSum: 1, unlabeledCount: 1, kept: true }
+    ]);
+  });
+
+  it('分组顺序与是否保留和第二步的聚合结果一致', () => {
+    const labeled = tableOf(COLUMNS)(table.rows.slice(0, 4));
+    const summaries = transformAndAggregate(rowsOf(COLUMNS)(labeled.rows), COLUMNS).groupSummaries;
+
+    expect(previewGroups(labeled).map(group => [`${group.sentimentTag} · ${group.opinion}`, group.kept]))
+      .toEqual(summaries.map(summary => [summary.label, summary.kept]));
+  });
+
+  it('删除行后重新预览的行索引与按删除重新映射的结果一致', () => {
+    const before = previewGroups(table);
+    const after = previewGroups(deleteRows(table, [1]));
+
+    expect(after.map(group => group.rowIndices)).toEqual(
+      before.map(group => Array.from(remapIndicesAfterDelete(group.rowIndices, [1])))
+    );
+    expect(after.find(group => group.opinion === '好看')).toMatchObject({ rowIndices: [2], unlabeledCount: 0 });
+  });
+});
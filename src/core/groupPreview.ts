@@ -0,0 +1,58 @@
+import { getGroupKey, normalizeTf } from './aggregate';
+import type { ProcessedTableData } from './types';
+
+export type GroupPreview = {
+  key: string;
+  sentimentTag: string;
+  opinion: string;
+  // 属于该组的全局行索引
+  rowIndices: number[];
+  tfSum: number;
+  unlabeledCount: number;
+  // tf 总和 > 0 的组会出现在输出中
+  kept: boolean;
+};
+
+/**
+ * 预览第二步 transformAndAggregate 将生成的分组（分组键与排序规则相同），
+ * 便于在标注时了解每组最终是否会被保留。
+ */
+export const previewGroups = (tableData: ProcessedTableData) => {
+  const { columns, rows } = tableData;
+  const sentimentIndex = columns.indexOf('sentiment_tag');
+  const opinionIndex = columns.indexOf('opinion');
+  const tfIndex = columns.indexOf('tf');
+  const groups = new Map<string, GroupPreview>();
+
+  rows.forEach((row, index) => {
+    const sentimentTag = row[sentimentIndex] ?? '';
+    const opinion = row[opinionIndex] ?? '';
+    const key = getGroupKey({ sentiment_tag: sentimentTag, opinion });
+
+    let group = groups.get(key);
+    if (!group) {
+      group = { key, sentimentTag, opinion, rowIndices: [], tfSum: 0, unlabeledCount: 0, kept: false };
+      groups.set(key, group);
+    }
+    group.rowIndices.push(index);
+
+    const tfValue = row[tfIndex];
+    if (tfValue !== '0' && tfValue !== '1') {
+      group.unlabeledCount++;
+    }
+    try {
+      group.tfSum += normalizeTf(tfValue);
+    } catch {
+      // 非法 tf 值会在进入第二步前的校验中提示，这里按 0 计算
+    }
+  });
+
+  // 与 transformAndAggregate 一致：按分组键排序
+  return Array.from(groups.keys())
+    .sort()
+    .map(key => {
+      const group = groups.get(key)!;
+      group.kept = group.tfSum > 0;
+      return group;
+    });
+};
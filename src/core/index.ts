@@ -0,0 +1,104 @@
+export type { ProcessedTableData, CellValue, DataRow, DeletedRow, ExcludedLine } from './types';
+export type { ProgressStage, PipelineProgress, ProgressCallback } from './progress';
+export { REQUIRED_COLUMNS, SOURCE_FILE_COLUMN, withoutSourceColumn, validateColumns } from './columns';
+export {
+  COLUMN_ALIASES,
+  normalizeColumnName,
+  needsColumnMapping,
+  suggestColumnMapping,
+  getUnmappedColumns,
+  applyColumnMapping,
+  remapColumnMapping,
+  toRememberedAliases
+} from './columnMapping';
+export type { ColumnMapping, ColumnInspection } from './columnMapping';
+export {
+  DEFAULT_SPLIT_RULES,
+  isDefaultSplitRules,
+  validateSplitRules,
+  splitComments,
+  joinComments
+} from './commentSplit';
+export type { CommentSplitRules } from './commentSplit';
+export { TEXT_ENCODINGS, detectEncoding, decodeText, detectGarbledText, encodeGb18030 } from './encoding';
+export type { TextEncodingId, GarbledTextReport } from './encoding';
+export { DIALECT_PRESETS, DEFAULT_DIALECT, getDialectPresetId, sniffDialect, splitRecords } from './dialect';
+export type { Dialect, DialectPresetId, TextRecord } from './dialect';
+export {
+  normalizeHeader,
+  normalizeCell,
+  parseRawText,
+  inspectRawText,
+  expandComments,
+  processRawText
+} from './rawText';
+export type { ParseOptions, RawTextOptions, RawTextInspection } from './rawText';
+export { mergeFields, splitField, suggestRepair, buildDiagnosticsCsv, hasParseIssues } from './diagnostics';
+export type { RejectedLine, MultilineRecord, ParseDiagnostics, LineRepairs } from './diagnostics';
+export { setTfForRows, deleteRows, remapIndicesAfterDelete } from './editing';
+export { FILTER_COLUMNS, EMPTY_FILTER, isFilterActive, filterAndSortRows, getDistinctValues } from './filter';
+export type { FilterColumn, RowFilter, RowSort } from './filter';
+export { normalizeTf, getGroupKey, getGroupLabel, transformAndAggregate } from './aggregate';
+export type { AggregateResult } from './aggregate';
+export { MAX_GROUP_SAMPLES, buildResultsDashboard } from './dashboard';
+export { DEFAULT_REPORT_OPTIONS, MAX_REPORT_SAMPLES, buildReportData, buildReportHtml } from './report';
+export type { ReportData, ReportOpinion, ReportOptions } from './report';
+export { buildAggregationAudit, buildAuditWorkbook } from './audit';
+export type { AggregationAudit, AuditDeletedRow, AuditGroup } from './audit';
+export type { GroupSummary, ResultsDashboard, SentimentStat, OpinionStat, CidStat } from './dashboard';
+export {
+  DEFAULT_AGGREGATION_RULES,
+  AGGREGATION_PRESETS,
+  isSameAggregationRules,
+  isDefaultAggregationRules,
+  validateAggregationRules,
+  aggregateColumnValues
+} from './aggregationRules';
+export type { AggregationRules, AggregationPresetId, ColumnAggregation } from './aggregationRules';
+export { previewGroups } from './groupPreview';
+export type { GroupPreview } from './groupPreview';
+export { normalizeForDedup, findDuplicateGroups, collapseDuplicates, syncDuplicateLabels } from './duplicates';
+export type { DuplicateGroup } from './duplicates';
+export {
+  CSV_BOM,
+  inferColumnDtypes,
+  formatPythonFloat,
+  formatCsvValue,
+  escapeCsvValue,
+  generateCsvText,
+  generateDelimitedText
+} from './csv';
+export type { ColumnDtype } from './csv';
+export { OUTPUT_FORMATS, DEFAULT_OUTPUT_FORMAT, getNumericColumns, buildOutputData, buildKeptAndDroppedXlsx, buildDroppedFiles } from './outputFormat';
+export type { OutputFormat } from './outputFormat';
+export {
+  toBaseName,
+  toExtension,
+  buildAnnotationFileName,
+  buildAuditFileName,
+  buildBatchSourceName,
+  buildDiagnosticsFileName,
+  buildDroppedFileName,
+  buildKeptAndDroppedFileName,
+  buildOutputFileName,
+  buildOutputZipName,
+  buildReportFileName
+} from './fileNames';
+export { combineTables, groupRowsBySource } from './batch';
+export { createZip, dedupeFileNames } from './zip';
+export type { ZipEntry } from './zip';
+export {
+  getActualColumnsFromWorksheet,
+  listWorkbookSheets,
+  inspectWorkbook,
+  readAnnotatedWorkbook,
+  readAnnotatedSheets,
+  tableDataToDataRows,
+  buildAnnotationWorkbook,
+  annotatedWorkbookToTableData
+} from './workbook';
+export type { SheetSummary } from './workbook';
+export { runParityCase, findParityMismatch } from './parity';
+export type { ParityCase, ParityDateCell } from './parity';
+export { mergeTfValues } from './merge';
+export type { ConflictPolicy, TfConflict, InvalidTfValue, UnmatchedRow, TfMergeResult } from './merge';
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { mergeTfValues } from './merge';
+import { tableOf } from './testFixtures';
+
+const table = tableOf(['opinion', 'raw_comments', 'tf']);
+
+describe('mergeTfValues', () => {
+  it('按除 tf 外的列匹配行，重复内容按顺序依次匹配', () => {
+    const target = table([['好看', '不错', ''], ['好看', '不错', ''], ['难看', '差', '']]);
+    const source = table([['好看', '不错', '1'], ['好看', '不错', '0'], ['贵', '太贵', '1']]);
+    const result = mergeTfValues(target, source, 'incoming');
+
+    expect(result.tableData.rows.map(row => row[2])).toEqual(['1', '0', '']);
+    expect(result.appliedCount).toBe(2);
+    expect(result.unmatchedSourceRows).toEqual([{ sourceRowNumber: 4, comment: '太贵' }]);
+    expect(result.unmatchedTargetCount).toBe(1);
+  });
+
+  it('冲突时按策略决定以哪一方为准', () => {
+    const target = table([['好看', '不错', '0']]);
+    const source = table([['好看', '不错', '1']]);
+
+    expect(mergeTfValues(target, source, 'incoming').tableData.rows[0][2]).toBe('1');
+    const kept = mergeTfValues(target, source, 'current');
+    expect(kept.tableData.rows[0][2]).toBe('0');
+    expect(kept.conflicts).toEqual([{ rowIndex: 0, current: '0', incoming: '1' }]);
+  });
+
+  it('不合并 0 / 1 以外的 tf 值，并单独列出', () => {
+    const target = table([['好看', '不错', '1'], ['难看', '差', '']]);
+    const source = table([['好看', '不错', 'x'], ['难看', '差', '2']]);
+    const result = mergeTfValues(target, source, 'incoming');
+
+    expect(result.tableData).toBe(target);
+    expect(result.appliedCount).toBe(0);
+    expect(result.conflicts).toEqual([]);
+    expect(result.invalidValues).toEqual([
+      { rowIndex: 0, sourceRowNumber: 2, incoming: 'x' },
+      { rowIndex: 1, sourceRowNumber: 3, incoming: '2' }
+    ]);
+  });
+
+  it('列不一致时报错', () => {
+    const source = tableOf(['opinion', 'tf'], 'b.xlsx')([]);
+    expect(() => mergeTfValues(table([]), source, 'incoming')).toThrow('两份数据的列不一致');
+  });
+});
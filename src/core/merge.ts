@@ -0,0 +1,111 @@
+import type { ProcessedTableData } from './types';
+
+// 当前值与 Excel 中的值都已填写且不同时，以哪一方为准
+export type ConflictPolicy = 'incoming' | 'current';
+
+export type TfConflict = {
+  rowIndex: number;
+  current: string;
+  incoming: string;
+};
+
+// Excel 中 tf 不是 0 或 1 的行，不会合并
+export type InvalidTfValue = {
+  rowIndex: number;
+  // Excel 中的行号（含表头，从 1 开始）
+  sourceRowNumber: number;
+  incoming: string;
+};
+
+export type UnmatchedRow = {
+  // Excel 中的行号（含表头，从 1 开始）
+  sourceRowNumber: number;
+  comment: string;
+};
+
+export type TfMergeResult = {
+  tableData: ProcessedTableData;
+  appliedCount: number;
+  conflicts: TfConflict[];
+  invalidValues: InvalidTfValue[];
+  unmatchedSourceRows: UnmatchedRow[];
+  unmatchedTargetCount: number;
+};
+
+const isFilled = (value: string | undefined) => value !== undefined && value.trim() !== '';
+
+/**
+ * 将另一份表格（通常是离线标注的 Excel）中的 tf 值合并到当前表格。
+ * 除 tf 外所有列的值完全相同即视为同一行；内容重复的行按出现顺序依次匹配。
+ */
+export const mergeTfValues = (
+  target: ProcessedTableData,
+  source: ProcessedTableData,
+  policy: ConflictPolicy
+): TfMergeResult => {
+  const targetTfIndex = target.columns.indexOf('tf');
+  const sourceTfIndex = source.columns.indexOf('tf');
+  const keyColumns = target.columns.filter(col => col !== 'tf');
+  const targetKeyIndices = keyColumns.map(col => target.columns.indexOf(col));
+  const sourceKeyIndices = keyColumns.map(col => source.columns.indexOf(col));
+  const sourceCommentIndex = source.columns.indexOf('raw_comments');
+
+  if (targetTfIndex < 0 || sourceTfIndex < 0 || sourceKeyIndices.some(i => i < 0)) {
+    throw new Error('两份数据的列不一致，无法合并');
+  }
+
+  const toKey = (row: string[], indices: number[]) => indices.map(i => row[i] ?? '').join('\u0000');
+
+  // 每个行内容对应的目标行索引队列
+  const targetQueues = new Map<string, number[]>();
+  target.rows.forEach((row, index) => {
+    const key = toKey(row, targetKeyIndices);
+    const queue = targetQueues.get(key);
+    if (queue) queue.push(index);
+    else targetQueues.set(key, [index]);
+  });
+
+  const nextRows = target.rows.slice();
+  const conflicts: TfConflict[] = [];
+  const invalidValues: InvalidTfValue[] = [];
+  const unmatchedSourceRows: UnmatchedRow[] = [];
+  let appliedCount = 0;
+  let matchedCount = 0;
+
+  source.rows.forEach((row, index) => {
+    const queue = targetQueues.get(toKey(row, sourceKeyIndices));
+    const targetIndex = queue?.shift();
+    if (targetIndex === undefined) {
+      unmatchedSourceRows.push({ sourceRowNumber: index + 2, comment: row[sourceCommentIndex] ?? '' });
+      return;
+    }
+    matchedCount++;
+
+    const incoming = (row[sourceTfIndex] ?? '').trim();
+    const current = (nextRows[targetIndex][targetTfIndex] ?? '').trim();
+    if (!isFilled(incoming) || incoming === current) return;
+    if (incoming !== '0' && incoming !== '1') {
+      invalidValues.push({ rowIndex: targetIndex, sourceRowNumber: index + 2, incoming });
+      return;
+    }
+
+    if (isFilled(current)) {
+      conflicts.push({ rowIndex: targetIndex, current, incoming });
+      if (policy === 'current') return;
+    }
+
+    const nextRow = nextRows[targetIndex].slice();
+    nextRow[targetTfIndex] = incoming;
+    nextRows[targetIndex] = nextRow;
+    appliedCount++;
+  });
+
+  return {
+    tableData: appliedCount > 0 ? { ...target, rows: nextRows } : target,
+    appliedCount,
+    conflicts,
+    invalidValues,
+    unmatchedSourceRows,
+    unmatchedTargetCount: target.rows.length - matchedCount
+  };
+};
@@ -0,0 +1,107 @@
+import * as XLSX from 'xlsx';
+import { describe, expect, it } from 'vitest';
+import { generateCsvText, inferColumnDtypes } from './csv';
+import { buildDroppedFiles, buildKeptAndDroppedXlsx, buildOutputData, getNumericColumns, OUTPUT_FORMATS } from './outputFormat';
+import { rowsOf } from './testFixtures';
+
+const COLUMNS = ['opinion', 'raw_comments', 'score', 'cid', 'done_time'];
+const rows = rowsOf(COLUMNS)([
+  ['好看', '很好,不错', 0.5, '001', 1],
+  ['贵', null, 1, '002', 1]
+]);
+const dtypes = inferColumnDtypes(rows, COLUMNS);
+
+const decode = (data: Uint8Array, encoding = 'utf-8') => new TextDecoder(encoding, { ignoreBOM: true }).decode(data);
+
+describe('getNumericColumns', () => {
+  it('非空值全部为数字的列才是数值列，带前导零的编号与超过 15 位的整数保留为文本', () => {
+    const data = rowsOf(['a', 'b', 'c', 'd'])([['1', '001', '1234567890123456', null], ['2.5', '2', '1', '']]);
+    expect(getNumericColumns(data, ['a', 'b', 'c', 'd'])).toEqual(new Set(['a']));
+  });
+});
+
+describe('buildOutputData', () => {
+  it('csv 与 generateCsvText 字节一致', () => {
+    expect(decode(buildOutputData(rows, COLUMNS, 'csv', dtypes))).toBe(generateCsvText(rows, COLUMNS, dtypes));
+  });
+
+  it('csv-gb18030 以 GB18030 编码且不带 BOM', () => {
+    expect(decode(buildOutputData(rows, COLUMNS, 'csv-gb18030', dtypes), 'gb18030')).toBe(
+      'opinion,raw_comments,score,cid,done_time\n好看,"很好,不错",0.5,001,1\n贵,,1.0,002,1\n'
+    );
+  });
+
+  it('tsv 以制表符分隔，含逗号的评论不加引号', () => {
+    expect(decode(buildOutputData(rows, COLUMNS, 'tsv', dtypes))).toBe(
+      '\uFEFFopinion\traw_comments\tscore\tcid\tdone_time\n好看\t很好,不错\t0.5\t001\t1\n贵\t\t1.0\t002\t1\n'
+    );
+  });
+
+  it('xlsx 中数值列为数字单元格，编号为文本，空值为空单元格', () => {
+    const workbook = XLSX.read(buildOutputData(rows, COLUMNS, 'xlsx', dtypes), { type: 'array' });
+    const worksheet = workbook.Sheets.Sheet1;
+
+    expect(XLSX.utils.sheet_to_json(worksheet, { header: 1 })).toEqual([
+      COLUMNS,
+      ['好看', '很好,不错', 0.5, '001', 1],
+      ['贵', undefined, 1, '002', 1]
+    ]);
+    expect([worksheet.C3.t, worksheet.D3.t, worksheet.B3]).toEqual(['n', 's', undefined]);
+  });
+
+  it('json 与 jsonl 中数值列为数字，空值为 null', () => {
+    const records = [
+      { opinion: '好看', raw_comments: '很好,不错', score: 0.5, cid: '001', done_time: 1 },
+      { opinion: '贵', raw_comments: null, score: 1, cid: '002', done_time: 1 }
+    ];
+    expect(JSON.parse(decode(buildOutputData(rows, COLUMNS, 'json', dtypes)))).toEqual(records);
+
+    const lines = decode(buildOutputData(rows, COLUMNS, 'jsonl', dtypes)).split('\n');
+    expect(lines.pop()).toBe('');
+    expect(lines.map(line => JSON.parse(line))).toEqual(records);
+  });
+});
+
+describe('buildKeptAndDroppedXlsx', () => {
+  const sheetRows = (data: Uint8Array) => {
+    const workbook = XLSX.read(data, { type: 'array' });
+    return workbook.SheetNames.map(name => XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[name], { header: 1 }));
+  };
+
+  it('kept 与 dropped 两个工作表使用相同的列', () => {
+    const dropped = rowsOf(COLUMNS)([['便宜', '实惠', 2, '003', 1]]);
+    const data = buildKeptAndDroppedXlsx(rows, dropped, COLUMNS, dtypes);
+
+    expect(XLSX.read(data, { type: 'array' }).SheetNames).toEqual(['kept', 'dropped']);
+    expect(sheetRows(data)).toEqual([
+      [COLUMNS, ['好看', '很好,不错', 0.5, '001', 1], ['贵', undefined, 1, '002', 1]],
+      [COLUMNS, ['便宜', '实惠', 2, '003', 1]]
+    ]);
+  });
+
+  it('数值列按两部分合并判断，某一部分含文本时两个工作表中该列都为文本', () => {
+    const dropped = rowsOf(COLUMNS)([['便宜', '实惠', '未知', '003', 1]]);
+    const [kept, droppedSheet] = sheetRows(buildKeptAndDroppedXlsx(rows, dropped, COLUMNS));
+
+    expect(kept.slice(1).map(row => row[2])).toEqual(['0.5', '1']);
+    expect(droppedSheet[1][2]).toBe('未知');
+    expect(kept.slice(1).map(row => row[4])).toEqual([1, 1]);
+  });
+});
+
+describe('buildDroppedFiles', () => {
+  it('没有被过滤的组时不生成附加文件', () => {
+    expect(buildDroppedFiles(rows, [], COLUMNS, 'a.xlsx', 'csv', dtypes)).toBeUndefined();
+  });
+
+  it('被过滤的组按输出格式生成，另附 kept / dropped 的 xlsx', () => {
+    const dropped = rowsOf(COLUMNS)([['便宜', '实惠', 2, '003', 1]]);
+    const files = buildDroppedFiles(rows, dropped, COLUMNS, 'a.xlsx', 'tsv', dtypes);
+
+    expect(files?.droppedFile.fileName).toBe('便宜-a-已过滤.tsv');
+    expect(files?.droppedFile.mimeType).toBe(OUTPUT_FORMATS.tsv.mimeType);
+    expect(files?.droppedFile.data).toEqual(buildOutputData(dropped, COLUMNS, 'tsv', dtypes));
+    expect(files?.keptAndDroppedFile.fileName).toBe('好看-a-保留与过滤.xlsx');
+    expect(files?.keptAndDroppedFile.mimeType).toBe(OUTPUT_FORMATS.xlsx.mimeType);
+  });
+});
@@ -0,0 +1,168 @@
+import * as XLSX from 'xlsx';
+import { CSV_BOM, formatCsvValue, generateCsvText, generateDelimitedText } from './csv';
+import type { ColumnDtype } from './csv';
+import { encodeGb18030 } from './encoding';
+import { buildDroppedFileName, buildKeptAndDroppedFileName } from './fileNames';
+import type { CellValue, DataRow } from './types';
+
+// 第二步的输出格式；所有格式都由同一份 renamedData / outputColumns 生成
+export type OutputFormat = 'csv' | 'csv-gb18030' | 'tsv' | 'xlsx' | 'json' | 'jsonl';
+
+export const OUTPUT_FORMATS: Record<OutputFormat, { label: string; extension: string; mimeType: string }> = {
+  csv: { label: 'CSV（UTF-8 BOM）', extension: 'csv', mimeType: 'text/csv;charset=utf-8' },
+  'csv-gb18030': { label: 'CSV（GB18030，旧版 Excel）', extension: 'csv', mimeType: 'text/csv;charset=gb18030' },
+  tsv: { label: 'TSV（UTF-8 BOM）', extension: 'tsv', mimeType: 'text/tab-separated-values;charset=utf-8' },
+  xlsx: {
+    label: 'Excel（.xlsx，数值列为数字）',
+    extension: 'xlsx',
+    mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+  },
+  json: { label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  jsonl: { label: 'JSON Lines', extension: 'jsonl', mimeType: 'application/x-ndjson' }
+};
+
+export const DEFAULT_OUTPUT_FORMAT: OutputFormat = 'csv';
+
+// 整数或小数（不含前导零的整数部分，避免把 001 这类编号转成数字）
+const NUMERIC_PATTERN = /^-?(0|[1-9]\d*)(\.\d+)?$/;
+// 超过该位数的整数（如长 ID）在 Excel 中会丢失精度，保留为文本
+const MAX_SAFE_DIGITS = 15;
+
+const isEmptyValue = (value: CellValue) => {
+  return value === null || value === undefined || value === '' || (typeof value === 'number' && isNaN(value));
+};
+
+const isNumericValue = (value: CellValue) => {
+  if (typeof value === 'number') return Number.isFinite(value);
+  if (typeof value !== 'string' || !NUMERIC_PATTERN.test(value)) return false;
+  return value.replace(/^-|\..*$/g, '').length <= MAX_SAFE_DIGITS;
+};
+
+/**
+ * 判断哪些列是数值列：非空值全部为数字（且至少有一个非空值）。
+ * XLSX 与 JSON 中数值列的值输出为数字，其余列为文本，空值为空单元格 / null。
+ */
+export const getNumericColumns = (rows: DataRow[], columns: string[]) => {
+  return new Set(columns.filter(col => {
+    let hasValue = false;
+    for (const row of rows) {
+      const value = row[col];
+      if (isEmptyValue(value)) continue;
+      if (!isNumericValue(value)) return false;
+      hasValue = true;
+    }
+    return hasValue;
+  }));
+};
+
+// 与 CSV 中的文本保持一致：数值列转为数字，其余列使用 CSV 中的单元格文本
+const toTypedValue = (value: CellValue, numeric: boolean, dtype?: ColumnDtype) => {
+  if (isEmptyValue(value)) return null;
+  const text = formatCsvValue(value, dtype);
+  return numeric ? Number(text) : text;
+};
+
+const toTypedRecords = (rows: DataRow[], columns: string[], dtypes?: Record<string, ColumnDtype>) => {
+  const numericColumns = getNumericColumns(rows, columns);
+  return rows.map(row => {
+    const record: Record<string, string | number | null> = {};
+    for (const col of columns) {
+      record[col] = toTypedValue(row[col], numericColumns.has(col), dtypes?.[col]);
+    }
+    return record;
+  });
+};
+
+const buildWorksheet = (
+  rows: DataRow[],
+  columns: string[],
+  numericColumns: Set<string>,
+  dtypes?: Record<string, ColumnDtype>
+) => {
+  return XLSX.utils.aoa_to_sheet([
+    columns,
+    ...rows.map(row => columns.map(col => toTypedValue(row[col], numericColumns.has(col), dtypes?.[col])))
+  ]);
+};
+
+const writeXlsx = (workbook: XLSX.WorkBook) => {
+  return new Uint8Array(XLSX.write(workbook, { type: 'array', bookType: 'xlsx' }) as ArrayBuffer);
+};
+
+const buildXlsx = (rows: DataRow[], columns: string[], dtypes?: Record<string, ColumnDtype>) => {
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, buildWorksheet(rows, columns, getNumericColumns(rows, columns), dtypes), 'Sheet1');
+  return writeXlsx(workbook);
+};
+
+/**
+ * 保留的组与被过滤的组写入同一个 xlsx，分别为 kept 与 dropped 工作表，列相同。
+ * 数值列按两部分数据合并判断，保证同一列在两个工作表中的类型一致。
+ */
+export const buildKeptAndDroppedXlsx = (
+  renamedData: DataRow[],
+  droppedData: DataRow[],
+  columns: string[],
+  dtypes?: Record<string, ColumnDtype>
+): Uint8Array<ArrayBuffer> => {
+  const numericColumns = getNumericColumns([...renamedData, ...droppedData], columns);
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, buildWorksheet(renamedData, columns, numericColumns, dtypes), 'kept');
+  XLSX.utils.book_append_sheet(workbook, buildWorksheet(droppedData, columns, numericColumns, dtypes), 'dropped');
+  return writeXlsx(workbook);
+};
+
+/**
+ * 按指定格式生成输出文件的内容。CSV（UTF-8）与原有的 generateCsvText 字节一致。
+ * dtypes 为聚合结果中各列的 pandas 类型，决定数值的文本写法。
+ */
+export const buildOutputData = (
+  rows: DataRow[],
+  columns: string[],
+  format: OutputFormat,
+  dtypes?: Record<string, ColumnDtype>
+): Uint8Array<ArrayBuffer> => {
+  const encoder = new TextEncoder();
+  switch (format) {
+    case 'csv':
+      return encoder.encode(generateCsvText(rows, columns, dtypes));
+    case 'csv-gb18030':
+      return encodeGb18030(generateDelimitedText(rows, columns, ',', dtypes));
+    case 'tsv':
+      return encoder.encode(CSV_BOM + generateDelimitedText(rows, columns, '\t', dtypes));
+    case 'xlsx':
+      return buildXlsx(rows, columns, dtypes);
+    case 'json':
+      return encoder.encode(JSON.stringify(toTypedRecords(rows, columns, dtypes), null, 2) + '\n');
+    case 'jsonl':
+      return encoder.encode(toTypedRecords(rows, columns, dtypes).map(record => JSON.stringify(record) + '\n').join(''));
+  }
+};
+
+/**
+ * 被过滤的组的两个附加文件：与输出文件格式相同的 droppedFile，以及 kept / dropped 两个工作表的 xlsx。
+ * 没有被过滤的组时返回 undefined，不生成任何附加文件。
+ */
+export const buildDroppedFiles = (
+  renamedData: DataRow[],
+  droppedData: DataRow[],
+  columns: string[],
+  sourceFileName: string,
+  format: OutputFormat,
+  dtypes?: Record<string, ColumnDtype>
+) => {
+  if (droppedData.length === 0) return undefined;
+  const { extension, mimeType } = OUTPUT_FORMATS[format];
+  return {
+    droppedFile: {
+      data: buildOutputData(droppedData, columns, format, dtypes),
+      mimeType,
+      fileName: buildDroppedFileName(droppedData, sourceFileName, extension)
+    },
+    keptAndDroppedFile: {
+      data: buildKeptAndDroppedXlsx(renamedData, droppedData, columns, dtypes),
+      mimeType: OUTPUT_FORMATS.xlsx.mimeType,
+      fileName: buildKeptAndDroppedFileName(renamedData, sourceFileName)
+    }
+  };
+};
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { findParityMismatch, runParityCase } from './parity';
+import type { ParityCase } from './parity';
+
+// fixtures/pandas-parity 中的对照语料：<用例>.json 为输入，<用例>.csv 为 pandas 的期望输出（含 BOM）
+const inputs = import.meta.glob<ParityCase>('../../fixtures/pandas-parity/*.json', { eager: true, import: 'default' });
+const outputs = import.meta.glob<string>('../../fixtures/pandas-parity/*.csv', {
+  eager: true,
+  query: '?raw',
+  import: 'default'
+});
+
+const cases = Object.entries(inputs).map(([inputPath, parityCase]) => ({
+  name: inputPath.slice(inputPath.lastIndexOf('/') + 1),
+  parityCase,
+  expected: outputs[inputPath.replace(/\.json$/, '.csv')]
+}));
+
+describe('pandas 对照语料', () => {
+  it('语料目录中有用例且每个用例都有期望输出', () => {
+    expect(cases.length).toBeGreaterThan(0);
+    expect(cases.filter(({ expected }) => expected === undefined).map(({ name }) => name)).toEqual([]);
+  });
+
+  it.each(cases)('$name 与 pandas 输出逐字节一致', ({ name, parityCase, expected }) => {
+    expect(findParityMismatch(expected, runParityCase(parityCase, name))).toBeNull();
+  });
+});
+
+describe('findParityMismatch', () => {
+  it('返回第一处不一致的行号与内容', () => {
+    expect(findParityMismatch('a\nb\n', 'a\nc\n')).toEqual({ line: 2, expected: 'b', actual: 'c' });
+    expect(findParityMismatch('a\n', 'a\nb\n')).toEqual({ line: 2, expected: '', actual: 'b' });
+  });
+});
@@ -0,0 +1,59 @@
+import * as XLSX from 'xlsx';
+import { transformAndAggregate } from './aggregate';
+import { generateCsvText } from './csv';
+import type { CellValue } from './types';
+import { readAnnotatedSheets } from './workbook';
+
+// 对照用例中的日期单元格（如 { "datetime": "2024-01-02 12:00:00" }），写入 xlsx 时为带日期格式的数值
+export type ParityDateCell = { datetime: string };
+
+// pandas 对照语料中的一个用例：rows 中的 null 表示空单元格
+export type ParityCase = {
+  description: string;
+  columns: string[];
+  rows: (CellValue | ParityDateCell)[][];
+};
+
+const isParityDateCell = (value: CellValue | ParityDateCell): value is ParityDateCell => {
+  return typeof value === 'object' && value !== null;
+};
+
+// 按 UTC 换算为 1900 日期系统的序列号，不受运行环境时区的影响
+const toExcelSerial = (datetime: string) => {
+  return (Date.parse(`${datetime.replace(' ', 'T')}Z`) - Date.UTC(1899, 11, 30)) / 86400000;
+};
+
+/**
+ * 将用例写入 xlsx 再按 aggregate 命令的方式读回后聚合，返回 CSV 文本（含 BOM），
+ * 覆盖 Excel 读取与 CSV 输出两个环节。语料的列与标准列不同，读取时不校验列名。
+ */
+export const runParityCase = ({ columns, rows }: ParityCase, sourceFileName: string) => {
+  const dateCells: XLSX.CellAddress[] = [];
+  const aoa = rows.map((cells, r) => cells.map((value, c) => {
+    if (!isParityDateCell(value)) return value;
+    dateCells.push({ r: r + 1, c });
+    return toExcelSerial(value.datetime);
+  }));
+  const worksheet = XLSX.utils.aoa_to_sheet([columns, ...aoa]);
+  for (const address of dateCells) {
+    worksheet[XLSX.utils.encode_cell(address)].z = 'yyyy-mm-dd hh:mm:ss';
+  }
+
+  const caseWorkbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(caseWorkbook, worksheet, 'Sheet1');
+  const buffer = XLSX.write(caseWorkbook, { type: 'array', bookType: 'xlsx' });
+  const workbook = XLSX.read(buffer, { type: 'array', cellNF: true });
+  const { columns: readColumns, rows: dataRows } = readAnnotatedSheets(workbook, [], sourceFileName, undefined, false);
+  const { renamedData, outputColumns, columnDtypes } = transformAndAggregate(dataRows, readColumns);
+  return generateCsvText(renamedData, outputColumns, columnDtypes);
+};
+
+// 返回第一处不一致的行（从 1 开始，含表头），一致时返回 null
+export const findParityMismatch = (expected: string, actual: string) => {
+  if (actual === expected) return null;
+  const actualLines = actual.split('\n');
+  const expectedLines = expected.split('\n');
+  const line = expectedLines.findIndex((text, i) => text !== actualLines[i]);
+  const index = line < 0 ? expectedLines.length : line;
+  return { line: index + 1, expected: expectedLines[index], actual: actualLines[index] };
+};
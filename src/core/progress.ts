@@ -0,0 +1,13 @@
+// 长耗时步骤的进度回报：lines = 已读取行数，rows = 已展开评论数，groups = 已生成分组数
+export type ProgressStage = 'lines' | 'rows' | 'groups';
+
+export type PipelineProgress = {
+  stage: ProgressStage;
+  count: number;
+  total?: number;
+};
+
+export type ProgressCallback = (progress: PipelineProgress) => void;
+
+// 每处理多少条回报一次，避免过于频繁地向主线程发送消息
+export const PROGRESS_INTERVAL = 5000;
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { REQUIRED_COLUMNS } from './columns';
+import { DIALECT_PRESETS } from './dialect';
+import { expandComments, parseRawText, processRawText } from './rawText';
+
+describe('parseRawText', () => {
+  it('Hive 导出：去掉 BOM 并统一列名大小写，自动追加空的 tf 列，列数不一致的行记入诊断', () => {
+    const text = '\uFEFFOpinion\u0001Raw_Comments\n好看\u0001很好$不错\n贵\n';
+    const { columns, rows, diagnostics } = parseRawText(text, { dialect: DIALECT_PRESETS.hive });
+
+    expect(columns).toEqual(['opinion', 'raw_comments', 'tf']);
+    expect(rows).toEqual([['好看', '很好$不错', '']]);
+    expect(diagnostics.expectedFieldCount).toBe(2);
+    expect(diagnostics.rejected).toEqual([{ lineNumber: 3, raw: '贵', fields: ['贵'] }]);
+  });
+
+  it('未指定格式时自动识别分隔符', () => {
+    expect(parseRawText('opinion,raw_comments\n好看,"很好,不错"\n').rows).toEqual([['好看', '很好,不错', '']]);
+  });
+
+  it('空文件报错', () => {
+    expect(() => parseRawText('')).toThrow('文件为空');
+  });
+});
+
+describe('expandComments', () => {
+  it('按 $ 拆分 raw_comments，每条评论一行，保留空片段', () => {
+    const columns = ['opinion', 'raw_comments', 'tf'];
+    expect(expandComments(columns, [['好看', '很好$$不错', '1']])).toEqual([
+      ['好看', '很好', '1'],
+      ['好看', '', '1'],
+      ['好看', '不错', '1']
+    ]);
+  });
+
+  it('没有 raw_comments 列时原样返回', () => {
+    const rows = [['好看', '1']];
+    expect(expandComments(['opinion', 'tf'], rows)).toEqual(rows);
+  });
+});
+
+describe('processRawText', () => {
+  const header = REQUIRED_COLUMNS.filter(column => column !== 'tf');
+  const line = header.map(column => (column === 'raw_comments' ? '很好$不错' : column));
+
+  it('解析、展开并校验标准列', () => {
+    const text = [header, line, ['多余'], line].map(fields => fields.join('\t')).join('\n');
+    const { tableData, diagnostics } = processRawText(text, 'a.txt');
+
+    expect(tableData.columns).toEqual(REQUIRED_COLUMNS);
+    expect(tableData.rows.map(row => row[REQUIRED_COLUMNS.indexOf('raw_comments')])).toEqual(['很好', '不错', '很好', '不错']);
+    expect(tableData.excludedLines).toEqual(diagnostics.rejected);
+    expect(diagnostics.rejected.map(rejected => rejected.lineNumber)).toEqual([3]);
+  });
+
+  it('列名不符合要求时报错', () => {
+    expect(() => processRawText('opinion\traw_comments\n好看\t不错\n', 'a.txt')).toThrow('文件列数错误');
+  });
+});
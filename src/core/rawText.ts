@@ -0,0 +1,159 @@
+import { REQUIRED_COLUMNS, validateColumns } from './columns';
+import { applyColumnMapping } from './columnMapping';
+import { splitComments } from './commentSplit';
+import type { CommentSplitRules } from './commentSplit';
+import type { ColumnInspection, ColumnMapping } from './columnMapping';
+import { sniffDialect, splitRecords } from './dialect';
+import type { Dialect } from './dialect';
+import type { LineRepairs, MultilineRecord, ParseDiagnostics, RejectedLine } from './diagnostics';
+import { PROGRESS_INTERVAL } from './progress';
+import type { ProgressCallback } from './progress';
+import type { ProcessedTableData } from './types';
+
+// Hive 导出中常见的 BOM 与 \u0001 / \u0002 控制字符
+const CONTROL_CHARS = ['\ufeff', '\u0001', '\u0002'];
+
+const replaceControlChars = (raw: string, replacement: string) => {
+  let result = raw;
+  for (const ch of CONTROL_CHARS) {
+    result = result.replaceAll(ch, replacement);
+  }
+  return result;
+};
+
+export const normalizeHeader = (raw: string) => {
+  return replaceControlChars(raw.trim(), '').toLowerCase();
+};
+
+export const normalizeCell = (raw: string) => {
+  return replaceControlChars(raw, ' ').trim();
+};
+
+export type ParseOptions = {
+  onProgress?: ProgressCallback;
+  // 未指定时根据文件开头自动识别分隔格式
+  dialect?: Dialect;
+  // 用户在诊断面板中修复的行
+  repairs?: LineRepairs;
+};
+
+/**
+ * 解析 TXT 文本：首行为列名，列数不一致的行不会进入表格，而是记录在 diagnostics 中。
+ * 若不含 tf 列则自动追加空的 tf 列。
+ */
+export const parseRawText = (text: string, { onProgress, dialect = sniffDialect(text), repairs = {} }: ParseOptions = {}) => {
+  const [header, ...records] = splitRecords(text, dialect, onProgress);
+
+  if (!header) {
+    throw new Error('文件为空');
+  }
+
+  let columns = header.fields.map(normalizeHeader);
+  const expectedFieldCount = columns.length;
+
+  const data: string[][] = [];
+  const rejected: RejectedLine[] = [];
+  const multiline: MultilineRecord[] = [];
+
+  for (const record of records) {
+    const repaired = repairs[record.lineNumber];
+    const ele = (repaired ?? record.fields).map(normalizeCell);
+
+    if (columns.length === ele.length) {
+      data.push(ele);
+      if (record.lineCount > 1) {
+        multiline.push({ lineNumber: record.lineNumber, lineCount: record.lineCount, raw: record.raw });
+      }
+    } else {
+      rejected.push({ lineNumber: record.lineNumber, raw: record.raw, fields: record.fields.map(normalizeCell) });
+    }
+  }
+
+  // 如果原文件不含 tf，则自动追加；并对每行补空值
+  if (!columns.includes('tf')) {
+    columns = [...columns, 'tf'];
+    for (const row of data) {
+      row.push('');
+    }
+  }
+
+  const diagnostics: ParseDiagnostics = {
+    expectedFieldCount,
+    headerFields: columns.slice(0, expectedFieldCount),
+    rejected,
+    multiline
+  };
+  return { columns, rows: data, diagnostics };
+};
+
+export type RawTextInspection = ColumnInspection & {
+  // 实际使用的分隔格式（未指定时为自动识别的结果）
+  dialect: Dialect;
+};
+
+// 读取列名与前几行数据，供格式预览和列映射使用（text 可以只是文件开头的一部分）
+export const inspectRawText = (text: string, sampleSize = 5, dialect: Dialect = sniffDialect(text)): RawTextInspection => {
+  const { columns, rows } = parseRawText(text, { dialect });
+  return { columns, sampleRows: rows.slice(0, sampleSize), dialect };
+};
+
+// 展开 raw_comments 列（默认按 $ 分隔），每条评论成为独立的一行
+export const expandComments = (
+  columns: string[],
+  rows: string[][],
+  onProgress?: ProgressCallback,
+  rules?: CommentSplitRules
+) => {
+  const rawCommentsIndex = columns.indexOf('raw_comments');
+  if (rawCommentsIndex === -1) {
+    return rows.slice();
+  }
+
+  const expandedData: string[][] = [];
+  for (const row of rows) {
+    const comments = splitComments(String(row[rawCommentsIndex] ?? ''), rules);
+    for (const comment of comments) {
+      const newRow = [...row];
+      newRow[rawCommentsIndex] = comment;
+      expandedData.push(newRow);
+      if (onProgress && expandedData.length % PROGRESS_INTERVAL === 0) {
+        onProgress({ stage: 'rows', count: expandedData.length });
+      }
+    }
+  }
+  onProgress?.({ stage: 'rows', count: expandedData.length });
+  return expandedData;
+};
+
+export type RawTextOptions = ParseOptions & {
+  // 列名不符合要求时，按列映射重排为标准列顺序
+  mapping?: ColumnMapping;
+  splitRules?: CommentSplitRules;
+};
+
+// TXT 文本 → 可标注的表格数据（解析、展开并校验列名和顺序）及解析诊断
+export const processRawText = (
+  text: string,
+  sourceFileName: string,
+  options: RawTextOptions = {}
+): { tableData: ProcessedTableData; diagnostics: ParseDiagnostics } => {
+  const { mapping, onProgress, splitRules } = options;
+  const parsed = parseRawText(text, options);
+  const columns = mapping ? [...REQUIRED_COLUMNS] : parsed.columns;
+  const rows = mapping ? applyColumnMapping(parsed.rows, mapping, '') : parsed.rows;
+  const expandedData = expandComments(columns, rows, onProgress, splitRules);
+
+  // 校验列名和顺序（确保后续可直接进入"标注后数据处理"）
+  validateColumns(columns);
+
+  return {
+    tableData: {
+      sourceFileName,
+      columns,
+      rows: expandedData,
+      splitRules,
+      excludedLines: parsed.diagnostics.rejected
+    },
+    diagnostics: parsed.diagnostics
+  };
+};
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { transformAndAggregate } from './aggregate';
+import { DEFAULT_REPORT_OPTIONS, buildReportData, buildReportHtml } from './report';
+import { rowsOf } from './testFixtures';
+
+const COLUMNS = ['name', 'begin_time', 'end_time', 'sentiment_tag', 'opinion', 'raw_comments', 'tf'];
+
+const { renamedData, groupSummaries } = transformAndAggregate(rowsOf(COLUMNS)([
+  ['活动A', '2024/9/5', '2024/9/30', '正面', '好看', '很好', 1],
+  ['活动A', '2024/9/5', '2024/9/30', '正面', '好看', '<b>不错</b>', 1],
+  ['活动B', '2024/10/1', '2024/10/20', '正面', '便宜', '实惠', 1],
+  ['活动B', '长期', '', '负面', '贵', '太贵', 1],
+  ['活动B', '2024/10/1', '2024/10/20', '中性', '一般', '还行', 0]
+]), COLUMNS);
+
+describe('buildReportData', () => {
+  const report = buildReportData(renamedData, groupSummaries);
+
+  it('按日期而不是文本比较周期，未补零的日期与无法识别的写法也能取到正确的范围', () => {
+    expect(report.beginTime).toBe('2024/9/5');
+    expect(report.endTime).toBe('2024/10/20');
+  });
+
+  it('活动名称去重，观点按情感分组且评论多的在前', () => {
+    expect(report.names).toEqual(['活动B', '活动A']);
+    expect(report.keptComments).toBe(4);
+    expect(report.opinions.map(opinion => [opinion.sentimentTag, opinion.opinion, opinion.keptCount])).toEqual([
+      ['正面', '好看', 2],
+      ['正面', '便宜', 1],
+      ['负面', '贵', 1]
+    ]);
+  });
+});
+
+describe('buildReportHtml', () => {
+  const report = buildReportData(renamedData, groupSummaries);
+
+  it('默认标题使用活动名称，显示页眉、周期与限定数量的示例评论，并转义 HTML', () => {
+    const html = buildReportHtml(report, { ...DEFAULT_REPORT_OPTIONS, header: '客户 · 内部资料', sampleCount: 1 });
+
+    expect(html).toContain('<title>活动B、活动A 结案报告</title>');
+    expect(html).toContain('<div class="report-header">客户 · 内部资料</div>');
+    expect(html).toContain('周期：2024/9/5 – 2024/10/20');
+    expect(html).toContain('<li>很好</li>');
+    expect(html).not.toContain('不错');
+  });
+
+  it('示例评论中的 HTML 被转义', () => {
+    const html = buildReportHtml(report, { ...DEFAULT_REPORT_OPTIONS, sampleCount: 2 });
+    expect(html).toContain('<li>&lt;b&gt;不错&lt;/b&gt;</li>');
+  });
+});
@@ -0,0 +1,184 @@
+import { MAX_GROUP_SAMPLES, buildSentimentStats, toCellText } from './dashboard';
+import type { GroupSummary, SentimentStat } from './dashboard';
+import type { DataRow } from './types';
+
+export type ReportOpinion = {
+  sentimentTag: string;
+  opinion: string;
+  keptCount: number;
+  samples: string[];
+};
+
+// 生成结案报告所需的数据，由第二步的输出（renamedData）与分组统计得到
+export type ReportData = {
+  // 报告涉及的活动名称（name 列去重）
+  names: string[];
+  // 最早的 begin_time 与最晚的 end_time（按日期比较，无法识别的写法不参与）
+  beginTime: string;
+  endTime: string;
+  keptComments: number;
+  sentiments: SentimentStat[];
+  opinions: ReportOpinion[];
+};
+
+export type ReportOptions = {
+  // 报告标题，为空时使用「活动名称 结案报告」
+  title: string;
+  // 自定义页眉（如客户名称、机构名称），显示在报告开头、标题上方
+  header: string;
+  // 每个观点展示的示例评论数
+  sampleCount: number;
+};
+
+export const DEFAULT_REPORT_OPTIONS: ReportOptions = {
+  title: '',
+  header: '',
+  sampleCount: 3
+};
+
+export const MAX_REPORT_SAMPLES = MAX_GROUP_SAMPLES;
+
+// 解析 2024-01-05、2024/1/5、2024.1.5、2024年1月5日 等写法（可带时间），无法解析时返回 null
+const parseDateTime = (text: string) => {
+  const match = /^(\d{4})[-/.年](\d{1,2})[-/.月](\d{1,2})日?(?:[\sT]+(\d{1,2}):(\d{2})(?::(\d{2}))?)?/.exec(text);
+  if (!match) return null;
+  const [, year, month, day, hour = '0', minute = '0', second = '0'] = match;
+  return Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second));
+};
+
+// 按解析出的时间取最早或最晚的值（保留原写法），无法解析的值不参与比较
+const pickDateTime = (values: string[], pick: 'earliest' | 'latest') => {
+  let picked = '';
+  let pickedTime = 0;
+  for (const value of values) {
+    const time = parseDateTime(value);
+    if (time === null) continue;
+    if (!picked || (pick === 'earliest' ? time < pickedTime : time > pickedTime)) {
+      picked = value;
+      pickedTime = time;
+    }
+  }
+  return picked;
+};
+
+export const buildReportData = (renamedData: DataRow[], groupSummaries: GroupSummary[]): ReportData => {
+  const keptSummaries = groupSummaries.filter(summary => summary.kept);
+  const names = new Set<string>();
+  const beginTimes: string[] = [];
+  const endTimes: string[] = [];
+  const opinions: ReportOpinion[] = [];
+
+  renamedData.forEach((row, i) => {
+    const summary = keptSummaries[i];
+    const keptCount = summary?.keptCount ?? 0;
+
+    if (toCellText(row.name)) names.add(toCellText(row.name));
+    if (toCellText(row.begin_time)) beginTimes.push(toCellText(row.begin_time));
+    if (toCellText(row.end_time)) endTimes.push(toCellText(row.end_time));
+
+    opinions.push({
+      sentimentTag: toCellText(row.sentiment_tag) || '(空)',
+      opinion: toCellText(row.opinion) || '(空)',
+      keptCount,
+      samples: summary?.samples ?? []
+    });
+  });
+
+  const sortedSentiments = buildSentimentStats(renamedData, groupSummaries).sort((a, b) => b.keptComments - a.keptComments);
+  const sentimentOrder = sortedSentiments.map(s => s.sentimentTag);
+
+  return {
+    names: Array.from(names),
+    beginTime: pickDateTime(beginTimes, 'earliest'),
+    endTime: pickDateTime(endTimes, 'latest'),
+    keptComments: sortedSentiments.reduce((sum, s) => sum + s.keptComments, 0),
+    sentiments: sortedSentiments,
+    // 按情感分组（评论多的情感在前），组内按保留评论数从多到少
+    opinions: opinions.sort((a, b) => {
+      return sentimentOrder.indexOf(a.sentimentTag) - sentimentOrder.indexOf(b.sentimentTag) || b.keptCount - a.keptCount;
+    })
+  };
+};
+
+const escapeHtml = (text: string) => {
+  return text.replace(/[&<>"']/g, ch => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', '\'': '&#39;' }[ch]!));
+};
+
+const REPORT_STYLES = `
+  * { box-sizing: border-box; }
+  body { margin: 0; color: #262626; font-family: -apple-system, "PingFang SC", "Microsoft YaHei", sans-serif; line-height: 1.6; }
+  .page { max-width: 880px; margin: 0 auto; padding: 40px 48px; }
+  .report-header { padding-bottom: 8px; border-bottom: 2px solid #07C160; color: #8c8c8c; font-size: 13px; }
+  h1 { margin: 24px 0 8px; font-size: 28px; }
+  h2 { margin: 32px 0 12px; padding-left: 10px; border-left: 4px solid #07C160; font-size: 20px; }
+  h3 { margin: 0 0 8px; font-size: 16px; }
+  .meta { color: #595959; font-size: 14px; }
+  .summary { width: 100%; border-collapse: collapse; font-size: 14px; }
+  .summary th, .summary td { padding: 8px 12px; border: 1px solid #e8e8e8; text-align: left; }
+  .summary th { background: #fafafa; }
+  .bar { display: inline-block; height: 10px; margin-right: 8px; background: #07C160; border-radius: 2px; vertical-align: middle; }
+  .opinion { margin-bottom: 16px; padding: 12px 16px; border: 1px solid #f0f0f0; border-radius: 8px; page-break-inside: avoid; break-inside: avoid; }
+  .opinion-count { margin-left: 8px; color: #8c8c8c; font-size: 13px; font-weight: normal; }
+  .samples { margin: 0; padding-left: 20px; color: #595959; font-size: 14px; }
+  .footer { margin-top: 40px; color: #bfbfbf; font-size: 12px; text-align: center; }
+  @page { size: A4; margin: 16mm; }
+  @media print {
+    .page { max-width: none; padding: 0; }
+    h2 { page-break-after: avoid; break-after: avoid; }
+  }
+`;
+
+/**
+ * 生成独立的 HTML 结案报告（样式内嵌，不依赖外部资源），可直接下载保存，或在浏览器中打印为 PDF。
+ */
+export const buildReportHtml = (data: ReportData, options: ReportOptions) => {
+  const campaign = data.names.join('、') || '活动';
+  const title = options.title.trim() || `${campaign} 结案报告`;
+  const period = data.beginTime || data.endTime ? `${data.beginTime || '?'} – ${data.endTime || '?'}` : '';
+  const sampleCount = Math.max(0, Math.min(options.sampleCount, MAX_REPORT_SAMPLES));
+  const maxKept = Math.max(1, ...data.sentiments.map(s => s.keptComments));
+
+  const sentimentRows = data.sentiments.map(s => {
+    const share = data.keptComments > 0 ? Math.round((s.keptComments / data.keptComments) * 1000) / 10 : 0;
+    return `<tr><td>${escapeHtml(s.sentimentTag)}</td><td>${s.opinionCount}</td>`
+      + `<td><span class="bar" style="width:${Math.round((s.keptComments / maxKept) * 160)}px"></span>${s.keptComments}</td>`
+      + `<td>${share}%</td></tr>`;
+  }).join('\n');
+
+  const sections = data.sentiments.map(s => {
+    const opinions = data.opinions.filter(o => o.sentimentTag === s.sentimentTag).map(o => {
+      const samples = o.samples.slice(0, sampleCount).map(sample => `<li>${escapeHtml(sample)}</li>`).join('');
+      return `<div class="opinion"><h3>${escapeHtml(o.opinion)}<span class="opinion-count">${o.keptCount} 条评论</span></h3>`
+        + (samples ? `<ul class="samples">${samples}</ul>` : '')
+        + '</div>';
+    }).join('\n');
+    return `<h2>${escapeHtml(s.sentimentTag)}观点（${s.opinionCount} 个）</h2>\n${opinions}`;
+  }).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+<div class="page">
+${options.header.trim() ? `<div class="report-header">${escapeHtml(options.header.trim())}</div>` : ''}
+<h1>${escapeHtml(title)}</h1>
+<div class="meta">活动：${escapeHtml(campaign)}${period ? ` · 周期：${escapeHtml(period)}` : ''}</div>
+<h2>情感分布</h2>
+<table class="summary">
+<thead><tr><th>情感</th><th>观点数</th><th>评论数</th><th>占比</th></tr></thead>
+<tbody>
+${sentimentRows}
+</tbody>
+</table>
+${sections}
+<div class="footer">共 ${data.opinions.length} 个观点、${data.keptComments} 条评论</div>
+</div>
+</body>
+</html>
+`;
+};
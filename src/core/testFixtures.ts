@@ -0,0 +1,17 @@
+import type { CellValue, DataRow, ProcessedTableData } from './types';
+
+// 单元测试共用的数据构造函数：按给定的列顺序把单元格数组转为第一步的表格数据或第二步的数据行
+
+export const tableOf = (columns: string[], sourceFileName = 'a.txt') => {
+  return (rows: string[][]): ProcessedTableData => ({ sourceFileName, columns, rows });
+};
+
+export const rowsOf = (columns: string[]) => {
+  return (values: CellValue[][]): DataRow[] => values.map(cells => {
+    const row: DataRow = {};
+    columns.forEach((col, i) => {
+      row[col] = cells[i];
+    });
+    return row;
+  });
+};
@@ -0,0 +1,40 @@
+import type { CommentSplitRules } from './commentSplit';
+import type { RejectedLine } from './diagnostics';
+
+// 第一步中删除的行，保留原始单元格，用于第二步核对输入与输出
+export type DeletedRow = {
+  cells: string[];
+  // 删除原因，如 手动删除、合并重复评论
+  reason: string;
+};
+
+// 解析时被排除（列数不一致且未修复）的行；批量处理合并后记录来源文件
+export type ExcludedLine = RejectedLine & {
+  sourceFileName?: string;
+};
+
+// 第一步处理后的表格数据（所有单元格均为字符串）
+export type ProcessedTableData = {
+  sourceFileName: string;
+  columns: string[];
+  rows: string[][];
+  // 源文件内容的 SHA-256，用于在浏览器本地保存和恢复标注会话
+  contentHash?: string;
+  // 第一步拆分 raw_comments 时使用的规则，第二步默认按同样的规则合并
+  splitRules?: CommentSplitRules;
+  // 第一步中删除的行（与 rows 的列相同）
+  deletedRows?: DeletedRow[];
+  // 解析 TXT 时被排除的行
+  excludedLines?: ExcludedLine[];
+};
+
+export type CellValue = string | number | boolean | null | undefined;
+
+// 第二步中以列名为键的数据行（对应 pandas DataFrame 的一行）
+export interface DataRow {
+  sentiment_tag?: CellValue;
+  opinion?: CellValue;
+  tf?: CellValue;
+  raw_comments?: CellValue;
+  [key: string]: CellValue;
+}
@@ -0,0 +1,95 @@
+import * as XLSX from 'xlsx';
+import { describe, expect, it } from 'vitest';
+import { REQUIRED_COLUMNS, SOURCE_FILE_COLUMN } from './columns';
+import { suggestColumnMapping } from './columnMapping';
+import { buildOutputFileName } from './fileNames';
+import { inspectWorkbook, readAnnotatedSheets, readAnnotatedWorkbook } from './workbook';
+
+const ROW: Record<string, string | number> = {
+  part_time: '2024-01-01', firstcategoryname: '美妆', name: '活动', cid: 1, sentiment_tag: '正面',
+  begin_time: '2024-01-01', end_time: '2024-01-31', index_: 1, opinion: '好看', score: 0.9, num: 2,
+  raw_comments: '不错', tf: 1
+};
+
+// 只有一行数据的工作表：columns 为各标准列的顺序，header 决定表头的写法
+const sheet = (columns: string[], header: (column: string) => string = column => column) => {
+  return XLSX.utils.aoa_to_sheet([columns.map(header), columns.map(column => ROW[column])]);
+};
+
+const CHINESE: Record<string, string> = { opinion: '观点', raw_comments: '评论内容', sentiment_tag: '情感' };
+const chinese = (column: string) => CHINESE[column] ?? column;
+
+const workbook = (sheets: Record<string, XLSX.WorkSheet>) => {
+  const book = XLSX.utils.book_new();
+  for (const [name, worksheet] of Object.entries(sheets)) XLSX.utils.book_append_sheet(book, worksheet, name);
+  return book;
+};
+
+// 写出为 xlsx 再读回，与上传的文件经过同样的解析
+const roundTrip = (book: XLSX.WorkBook) => {
+  return XLSX.read(XLSX.write(book, { type: 'buffer', bookType: 'xlsx' }), { type: 'buffer', cellNF: true });
+};
+
+describe('readAnnotatedWorkbook', () => {
+  it('读取原始值而不是显示格式，日期单元格按 pandas 的写法转为文本', () => {
+    const worksheet = sheet(REQUIRED_COLUMNS);
+    worksheet.J2 = { t: 'n', v: 0.48949999999999994, z: '0.00' };
+    worksheet.A2 = { t: 'n', v: 45293, z: 'yyyy-mm-dd' };
+    worksheet.F2 = { t: 'n', v: 45293.5, z: 'yyyy/m/d h:mm' };
+    worksheet.M2 = { t: 'b', v: true };
+    const { rows } = readAnnotatedWorkbook(roundTrip(workbook({ A: worksheet })));
+
+    expect(rows[0].score).toBe(0.48949999999999994);
+    expect(rows[0].part_time).toBe('2024-01-02');
+    expect(rows[0].begin_time).toBe('2024-01-02 12:00:00');
+    expect(rows[0].cid).toBe(1);
+    expect(rows[0].tf).toBe(true);
+  });
+
+  it('与 pandas 一致按列决定日期的写法，任一日期含时间时整列都写出时间', () => {
+    const worksheet = XLSX.utils.aoa_to_sheet([REQUIRED_COLUMNS, REQUIRED_COLUMNS.map(column => ROW[column])]);
+    XLSX.utils.sheet_add_aoa(worksheet, [REQUIRED_COLUMNS.map(column => ROW[column])], { origin: -1 });
+    worksheet.A2 = { t: 'n', v: 45293, z: 'yyyy-mm-dd' };
+    worksheet.A3 = { t: 'n', v: 45294.25, z: 'yyyy-mm-dd' };
+    worksheet.F2 = { t: 'n', v: 45293, z: 'yyyy-mm-dd' };
+    worksheet.G2 = { t: 'n', v: 45293, z: 'yyyy-mm-dd' };
+    delete worksheet.G3;
+    const { rows } = readAnnotatedWorkbook(roundTrip(workbook({ A: worksheet })));
+
+    expect(rows.map(row => row.part_time)).toEqual(['2024-01-02 00:00:00', '2024-01-03 06:00:00']);
+    expect(rows.map(row => row.begin_time)).toEqual(['2024-01-02 00:00:00', '2024-01-01']);
+    expect(rows.map(row => row.end_time)).toEqual(['2024-01-02', '']);
+  });
+});
+
+describe('readAnnotatedSheets', () => {
+  it('按列名将第一个工作表的列映射应用到列顺序不同的其他工作表', () => {
+    const reordered = [...REQUIRED_COLUMNS].reverse();
+    const book = workbook({ A: sheet(REQUIRED_COLUMNS, chinese), B: sheet(reordered, chinese) });
+    const mapping = suggestColumnMapping(inspectWorkbook(book, 0, 'A').columns);
+    const { columns, rows } = readAnnotatedSheets(book, ['A', 'B'], 'report.xlsx', mapping);
+
+    expect(columns).toEqual(REQUIRED_COLUMNS);
+    expect(rows.map(row => [row.opinion, row.raw_comments, row.sentiment_tag])).toEqual([
+      ['好看', '不错', '正面'],
+      ['好看', '不错', '正面']
+    ]);
+  });
+
+  it('其他工作表缺少映射中的列时报错', () => {
+    const book = workbook({ A: sheet(REQUIRED_COLUMNS, chinese), B: sheet(REQUIRED_COLUMNS) });
+    const mapping = suggestColumnMapping(inspectWorkbook(book, 0, 'A').columns);
+
+    expect(() => readAnnotatedSheets(book, ['A', 'B'], 'report.xlsx', mapping))
+      .toThrow('工作表「B」：缺少列 情感、观点、评论内容，表头与工作表「A」不一致');
+  });
+
+  it('来源名称保留扩展名，按来源输出时不会截断含「.」的文件名', () => {
+    const book = workbook({ A: sheet(REQUIRED_COLUMNS), 'B.2': sheet(REQUIRED_COLUMNS) });
+    const { rows } = readAnnotatedSheets(book, ['A', 'B.2'], 'report.v2.xlsx');
+    const sources = rows.map(row => String(row[SOURCE_FILE_COLUMN]));
+
+    expect(sources).toEqual(['report.v2-A.xlsx', 'report.v2-B.2.xlsx']);
+    expect(sources.map(source => buildOutputFileName([], source))).toEqual(['report.v2-A-输出.csv', 'report.v2-B.2-输出.csv']);
+  });
+});
@@ -0,0 +1,293 @@
+import * as XLSX from 'xlsx';
+import { REQUIRED_COLUMNS, SOURCE_FILE_COLUMN, validateColumns, withoutSourceColumn } from './columns';
+import { applyColumnMapping, remapColumnMapping } from './columnMapping';
+import type { ColumnInspection, ColumnMapping } from './columnMapping';
+import { toBaseName, toExtension } from './fileNames';
+import type { CellValue, DataRow, ProcessedTableData } from './types';
+
+// 工作簿中的一个工作表：数据行数（不含表头）与表头列名
+export type SheetSummary = {
+  name: string;
+  rowCount: number;
+  columns: string[];
+};
+
+// 未指定工作表时使用第一个工作表
+const getWorksheet = (workbook: XLSX.WorkBook, sheetName?: string) => {
+  const name = sheetName ?? workbook.SheetNames[0];
+  const worksheet = workbook.Sheets[name];
+  if (!worksheet) throw new Error(`工作表「${name}」不存在`);
+  return worksheet;
+};
+
+export const getActualColumnsFromWorksheet = (worksheet: XLSX.WorkSheet) => {
+  const range = XLSX.utils.decode_range(worksheet['!ref'] || 'A1');
+  const actualColumns: string[] = [];
+  for (let col = range.s.c; col <= range.e.c; col++) {
+    const cellAddress = XLSX.utils.encode_cell({ r: range.s.r, c: col });
+    const cell = worksheet[cellAddress];
+    if (cell && cell.v) {
+      actualColumns.push(String(cell.v).toLowerCase().trim());
+    } else {
+      actualColumns.push('');
+    }
+  }
+  return actualColumns;
+};
+
+/**
+ * 列出工作簿中的所有工作表。只读取了前几行时（sheetRows），按 !fullref 计算完整的行数。
+ */
+export const listWorkbookSheets = (workbook: XLSX.WorkBook): SheetSummary[] => {
+  return workbook.SheetNames.map(name => {
+    const worksheet = workbook.Sheets[name];
+    const ref = worksheet['!fullref'] ?? worksheet['!ref'];
+    if (!ref) return { name, rowCount: 0, columns: [] };
+    const range = XLSX.utils.decode_range(ref);
+    return { name, rowCount: range.e.r - range.s.r, columns: getActualColumnsFromWorksheet(worksheet) };
+  });
+};
+
+// 读取工作表（默认第一个）的列名与前几行数据，供列映射使用
+export const inspectWorkbook = (workbook: XLSX.WorkBook, sampleSize = 5, sheetName?: string): ColumnInspection => {
+  const worksheet = getWorksheet(workbook, sheetName);
+  const aoa: unknown[][] = XLSX.utils.sheet_to_json(worksheet, {
+    header: 1,
+    raw: false,
+    defval: '',
+    blankrows: false
+  });
+  const columns = getActualColumnsFromWorksheet(worksheet);
+  const sampleRows = aoa.slice(1, 1 + sampleSize).map(r => columns.map((_, i) => String(r[i] ?? '').trim()));
+  return { columns, sampleRows };
+};
+
+// 数字格式是否为日期 / 时间格式：去掉引号中的文字、转义字符与 [Red] 等方括号部分后含有年月日时分秒
+const isDateFormat = (format: string) => /[ymdhs]/i.test(format.replace(/"[^"]*"|\\.|\[[^\]]*\]/g, ''));
+
+// Excel 日期序列号的 0 点（1900 日期系统为 1899-12-30，1904 日期系统为 1904-01-01）
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+const EXCEL_1904_EPOCH = Date.UTC(1904, 0, 1);
+
+// 日期单元格按 pandas Timestamp 的写法转为文本（2024-01-02 12:00:00），是否省略时间由所在的列决定
+const formatDateCell = (serial: number, date1904: boolean) => {
+  const epoch = date1904 ? EXCEL_1904_EPOCH : EXCEL_EPOCH;
+  const iso = new Date(epoch + Math.round(serial * 86400) * 1000).toISOString();
+  return `${iso.slice(0, 10)} ${iso.slice(11, 19)}`;
+};
+
+// 需要以 cellNF 读取工作簿才有数字格式（z），据此识别日期
+const isDateCell = (cell: XLSX.CellObject | undefined) => {
+  return cell?.t === 'n' && typeof cell.z === 'string' && isDateFormat(cell.z);
+};
+
+// 与 pandas read_excel 一致：数值与布尔值保留原始类型（不使用显示格式），错误与空单元格为 null
+const getCellValue = (cell: XLSX.CellObject | undefined, date1904: boolean): CellValue => {
+  if (!cell || cell.t === 'z' || cell.t === 'e') return null;
+  if (isDateCell(cell)) return formatDateCell(cell.v as number, date1904);
+  return cell.v as CellValue;
+};
+
+/**
+ * 与 pandas to_csv 一致按列决定日期的写法：除空单元格外整列都是日期时为 datetime64 列，
+ * 所有日期都是 0 点时只写日期（2024-01-02），任一日期含时间时都写出时间（2024-01-02 00:00:00）；
+ * 与文本或数值混在一起的日期按 Python datetime 的写法始终带时间。
+ */
+const formatDateColumns = (rows: CellValue[][], dateCells: Map<number, number[]>) => {
+  for (const [col, rowIndices] of dateCells) {
+    const present = rows.filter(row => row[col] !== null).length;
+    if (present !== rowIndices.length) continue;
+    if (!rowIndices.every(r => String(rows[r][col]).endsWith(' 00:00:00'))) continue;
+    for (const r of rowIndices) rows[r][col] = String(rows[r][col]).slice(0, 10);
+  }
+};
+
+// 读取表头以下的数据行，跳过空行
+const readSheetRows = (worksheet: XLSX.WorkSheet, date1904: boolean) => {
+  const range = XLSX.utils.decode_range(worksheet['!ref'] || 'A1');
+  const rows: CellValue[][] = [];
+  // 各列中日期单元格所在的行（rows 中的索引）
+  const dateCells = new Map<number, number[]>();
+  for (let r = range.s.r + 1; r <= range.e.r; r++) {
+    const values: CellValue[] = [];
+    for (let c = range.s.c; c <= range.e.c; c++) {
+      const cell = worksheet[XLSX.utils.encode_cell({ r, c })];
+      // 含日期单元格的行不是空行，一定会加入 rows
+      if (isDateCell(cell)) {
+        const indices = dateCells.get(c - range.s.c);
+        if (indices) indices.push(rows.length);
+        else dateCells.set(c - range.s.c, [rows.length]);
+      }
+      values.push(getCellValue(cell, date1904));
+    }
+    if (values.some(value => value !== null)) rows.push(values);
+  }
+  formatDateColumns(rows, dateCells);
+  return rows;
+};
+
+/**
+ * 读取已标注 Excel 的工作表（默认第一个），返回校验后的列名与数据行。
+ * 单元格读为原始值（如 0.48949999999999994 而非显示的 0.4895），输出时按 pandas 的规则格式化；
+ * 工作簿需以 cellNF 读取，日期单元格才会按 pandas 的写法转为文本。
+ * 提供 mapping 时按列映射取值，列名统一为标准列名；strict 为 false 时不校验列名（用于 pandas 对照语料）。
+ */
+export const readAnnotatedWorkbook = (
+  workbook: XLSX.WorkBook,
+  mapping?: ColumnMapping,
+  sheetName?: string,
+  strict = true
+) => {
+  const worksheet = getWorksheet(workbook, sheetName);
+
+  let actualColumns: string[];
+  let values = readSheetRows(worksheet, Boolean(workbook.Workbook?.WBProps?.date1904));
+
+  if (mapping) {
+    actualColumns = [...REQUIRED_COLUMNS];
+    values = applyColumnMapping(values, mapping, null);
+  } else {
+    actualColumns = getActualColumnsFromWorksheet(worksheet);
+    if (strict) validateColumns(actualColumns);
+  }
+  if (values.length === 0) throw new Error('Excel 文件为空');
+
+  const jsonData = values.map(cells => {
+    const row: DataRow = {};
+    actualColumns.forEach((col, i) => {
+      row[col] = cells[i];
+    });
+    return row;
+  });
+
+  // 手动处理：确保所有列都存在，空单元格设为空字符串（模拟pandas的NaN）
+  // 这样在CSV输出时就是真正的空，而不是"null"字符串
+  for (const row of jsonData) {
+    for (const col of actualColumns) {
+      const value = row[col];
+      // 关键：将null、undefined、空字符串、字符串"null"都转为空字符串
+      if (value === null || value === undefined || value === '' || value === 'null') {
+        row[col] = '';  // 设为空字符串，CSV输出时就是空
+      }
+    }
+  }
+
+  return { columns: actualColumns, rows: jsonData };
+};
+
+/**
+ * 读取多个工作表并合并数据行。每行的 source_file 记为「文件名-工作表名.扩展名」，
+ * 第二步可据此按工作表分别输出。
+ * mapping 按第一个选中的工作表建立，其他工作表按列名找到对应的列；缺少映射中的列时报错。
+ */
+export const readAnnotatedSheets = (
+  workbook: XLSX.WorkBook,
+  sheetNames: string[],
+  sourceFileName: string,
+  mapping?: ColumnMapping,
+  strict = true
+) => {
+  if (sheetNames.length <= 1) return readAnnotatedWorkbook(workbook, mapping, sheetNames[0], strict);
+
+  const baseName = toBaseName(sourceFileName);
+  const extension = toExtension(sourceFileName);
+  const mappedColumns = getActualColumnsFromWorksheet(getWorksheet(workbook, sheetNames[0]));
+  let columns: string[] = [];
+  const rows: DataRow[] = [];
+  for (const sheetName of sheetNames) {
+    let sheet: ReturnType<typeof readAnnotatedWorkbook>;
+    try {
+      let sheetMapping = mapping;
+      if (mapping) {
+        const sheetColumns = getActualColumnsFromWorksheet(getWorksheet(workbook, sheetName));
+        const remapped = remapColumnMapping(mapping, mappedColumns, sheetColumns);
+        if (remapped.missing.length > 0) {
+          throw new Error(`缺少列 ${remapped.missing.join('、')}，表头与工作表「${sheetNames[0]}」不一致`);
+        }
+        sheetMapping = remapped.mapping;
+      }
+      sheet = readAnnotatedWorkbook(workbook, sheetMapping, sheetName, strict);
+    } catch (err) {
+      throw new Error(`工作表「${sheetName}」：${err instanceof Error ? err.message : String(err)}`);
+    }
+    if (columns.length === 0) columns = sheet.columns;
+    for (const row of sheet.rows) {
+      // 保留扩展名，按来源生成输出文件名时不会截断含「.」的文件名或工作表名
+      rows.push({ ...row, [SOURCE_FILE_COLUMN]: `${baseName}-${sheetName}${extension}` });
+    }
+  }
+  return { columns, rows };
+};
+
+// 将第一步的表格数据转换为以列名为键的数据行
+export const tableDataToDataRows = (t: ProcessedTableData) => {
+  const columns = t.columns.map(c => String(c).toLowerCase().trim());
+  validateColumns(columns);
+
+  const tfIndex = columns.indexOf('tf');
+  if (tfIndex < 0) {
+    throw new Error('缺少 tf 列');
+  }
+
+  const rows: DataRow[] = t.rows.map((row) => {
+    const obj: DataRow = {};
+    for (let i = 0; i < columns.length; i++) {
+      obj[columns[i]] = row[i];
+    }
+    return obj;
+  });
+
+  return { columns, rows };
+};
+
+// 第一步的表格数据 → 待标注 Excel 工作簿（表头 + 数据行）
+export const buildAnnotationWorkbook = (tableData: ProcessedTableData) => {
+  const exportData = [
+    tableData.columns,
+    ...tableData.rows
+  ];
+
+  const worksheet = XLSX.utils.aoa_to_sheet(exportData);
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, worksheet, 'Sheet1');
+  return workbook;
+};
+
+/**
+ * 读取离线标注的 Excel（第一步导出的待标注文件，可能只标注了一部分），
+ * 还原为可在线编辑的表格数据。提供 mapping 时先按列映射重排。
+ */
+export const annotatedWorkbookToTableData = (
+  workbook: XLSX.WorkBook,
+  sourceFileName: string,
+  mapping?: ColumnMapping
+): ProcessedTableData => {
+  const worksheet = getWorksheet(workbook);
+  const aoa: unknown[][] = XLSX.utils.sheet_to_json(worksheet, {
+    header: 1,
+    raw: false,  // 使用格式化值，保证所有单元格均为字符串
+    defval: '',
+    blankrows: false
+  });
+  if (aoa.length === 0) throw new Error('Excel 文件为空');
+
+  let columns = aoa[0].map(v => String(v ?? '').toLowerCase().trim());
+  let rows = aoa.slice(1).map(r => columns.map((_, i) => String(r[i] ?? '').trim()));
+
+  if (mapping) {
+    columns = [...REQUIRED_COLUMNS];
+    rows = applyColumnMapping(rows, mapping, '');
+  } else if (!columns.includes('tf')) {
+    // 与 TXT 处理一致：不含 tf 时自动追加空的 tf 列（位于 source_file 列之前）
+    const tfIndex = withoutSourceColumn(columns).length;
+    columns = [...columns.slice(0, tfIndex), 'tf', ...columns.slice(tfIndex)];
+    for (const row of rows) {
+      row.splice(tfIndex, 0, '');
+    }
+  }
+
+  validateColumns(columns);
+  if (rows.length === 0) throw new Error('Excel 文件为空');
+
+  return { sourceFileName, columns, rows };
+};
@@ -0,0 +1,44 @@
+import * as XLSX from 'xlsx';
+import { describe, expect, it } from 'vitest';
+import { createZip, dedupeFileNames } from './zip';
+
+const encoder = new TextEncoder();
+
+// XLSX.CFB 解析出的 zip 条目（类型声明中为 any）
+type ZipFile = { name: string; type: number; content?: ArrayLike<number> };
+
+// CFB 按单字节读出文件名，按 UTF-8 还原
+const decodeName = (name: string) => new TextDecoder().decode(Uint8Array.from(name, ch => ch.charCodeAt(0)));
+
+describe('createZip', () => {
+  const entries = [
+    { name: '123.txt', data: encoder.encode('123456789') },
+    { name: '活动A-输出.csv', data: encoder.encode('\uFEFFopinion,done_time\n好看,1\n') },
+    { name: 'empty.json', data: new Uint8Array() }
+  ];
+  const zip = createZip(entries, new Date(2024, 0, 2, 3, 4, 6));
+
+  it('可被解压工具读取，文件名与内容不变', () => {
+    const container: { FileIndex: ZipFile[] } = XLSX.CFB.read(zip, { type: 'array' });
+    const files = container.FileIndex.filter(file => file.type === 2 && !file.name.startsWith('\u0001'));
+
+    expect(files.map(file => decodeName(file.name))).toEqual(entries.map(entry => entry.name));
+    files.forEach((file, i) => {
+      expect(Uint8Array.from(file.content ?? [])).toEqual(entries[i].data);
+    });
+  });
+
+  it('CRC32 与标准测试向量一致，文件名标记为 UTF-8', () => {
+    const view = new DataView(zip.buffer);
+    expect(view.getUint32(14, true)).toBe(0xCBF43926);
+    expect(view.getUint16(6, true) & 0x0800).toBe(0x0800);
+    // 目录结束记录中的文件数
+    expect(view.getUint16(zip.length - 12, true)).toBe(entries.length);
+  });
+});
+
+describe('dedupeFileNames', () => {
+  it('同名文件在扩展名前追加序号，没有扩展名时追加在末尾', () => {
+    expect(dedupeFileNames(['a.csv', 'a.csv', 'b', 'a.csv', 'b'])).toEqual(['a.csv', 'a (2).csv', 'b', 'a (3).csv', 'b (2)']);
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { appendToTimeline } from './useEditHistory';
+import type { Timeline } from './useEditHistory';
+
+const EMPTY: Timeline<string> = { states: [], entries: [], cursor: 0 };
+
+const entry = (label: string) => ({ label, timestamp: 0 });
+
+// 依次记录 a → b → c …，每次编辑之前的状态为当前状态
+const recordAll = (labels: string[], limit: number, start: Timeline<string> = EMPTY) => {
+  return labels.reduce(
+    (timeline, label) => appendToTimeline(timeline, entry(label), timeline.states[timeline.cursor] ?? 'init', label, limit),
+    start
+  );
+};
+
+describe('appendToTimeline', () => {
+  it('第一次记录时保存编辑前的状态，游标指向最新状态', () => {
+    expect(recordAll(['a', 'b'], 10)).toEqual({
+      states: ['init', 'a', 'b'],
+      entries: [entry('a'), entry('b')],
+      cursor: 2
+    });
+  });
+
+  it('撤销后再编辑时丢弃已撤销的记录', () => {
+    const undone = { ...recordAll(['a', 'b', 'c'], 10), cursor: 1 };
+
+    expect(recordAll(['d'], 10, undone)).toEqual({
+      states: ['init', 'a', 'd'],
+      entries: [entry('a'), entry('d')],
+      cursor: 2
+    });
+  });
+
+  it('超出上限时丢弃最早的记录与对应的状态', () => {
+    const timeline = recordAll(['a', 'b', 'c'], 2);
+
+    expect(timeline).toEqual({ states: ['a', 'b', 'c'], entries: [entry('b'), entry('c')], cursor: 2 });
+  });
+});
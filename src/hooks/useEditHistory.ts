@@ -0,0 +1,63 @@
+import { useCallback, useState } from 'react';
+
+export type HistoryEntry = {
+  label: string;
+  timestamp: number;
+};
+
+export type Timeline<T> = {
+  // states[0] 为初始状态，states[i + 1] 为执行 entries[i] 之后的状态
+  states: T[];
+  entries: HistoryEntry[];
+  // 当前所处的状态索引
+  cursor: number;
+};
+
+const EMPTY_TIMELINE = { states: [], entries: [], cursor: 0 };
+
+// 记录一次编辑：丢弃当前位置之后（已撤销）的状态，超出上限时丢弃最早的记录
+export const appendToTimeline = <T>(prev: Timeline<T>, entry: HistoryEntry, before: T, after: T, limit: number): Timeline<T> => {
+  const baseStates = prev.states.length === 0 ? [before] : prev.states.slice(0, prev.cursor + 1);
+  const baseEntries = prev.entries.slice(0, prev.cursor);
+  let states = [...baseStates, after];
+  let entries = [...baseEntries, entry];
+  if (entries.length > limit) {
+    const overflow = entries.length - limit;
+    states = states.slice(overflow);
+    entries = entries.slice(overflow);
+  }
+  return { states, entries, cursor: entries.length };
+};
+
+/**
+ * 基于快照的撤销/重做历史。每次编辑记录编辑后的完整状态，
+ * 由于表格数据为不可变结构，快照之间会共享未修改的行。
+ */
+export const useEditHistory = <T>(limit: number) => {
+  const [timeline, setTimeline] = useState<Timeline<T>>(EMPTY_TIMELINE);
+
+  const record = useCallback((label: string, before: T, after: T) => {
+    setTimeline(prev => appendToTimeline(prev, { label, timestamp: Date.now() }, before, after, limit));
+  }, [limit]);
+
+  // 跳转到指定状态并返回该状态；索引越界时返回 null
+  const goTo = (cursor: number) => {
+    if (cursor < 0 || cursor >= timeline.states.length || cursor === timeline.cursor) return null;
+    setTimeline(prev => ({ ...prev, cursor }));
+    return timeline.states[cursor];
+  };
+
+  const clear = useCallback(() => setTimeline(EMPTY_TIMELINE), []);
+
+  return {
+    entries: timeline.entries,
+    cursor: timeline.cursor,
+    canUndo: timeline.cursor > 0,
+    canRedo: timeline.cursor < timeline.states.length - 1,
+    record,
+    goTo,
+    undo: () => goTo(timeline.cursor - 1),
+    redo: () => goTo(timeline.cursor + 1),
+    clear
+  };
+};
@@ -0,0 +1,37 @@
+import type { AggregationRules } from '../core';
+
+// 用户保存的聚合规则预设（只含规则，不含任何数据），存放在浏览器本地的 localStorage 中
+const STORAGE_KEY = 'wxad-report-comments:aggregation-presets';
+
+export type SavedAggregationPreset = {
+  name: string;
+  rules: AggregationRules;
+};
+
+export const loadAggregationPresets = (): SavedAggregationPreset[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) as SavedAggregationPreset[] : [];
+  } catch {
+    return [];
+  }
+};
+
+const storePresets = (presets: SavedAggregationPreset[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+  } catch (err) {
+    console.warn('保存聚合规则预设失败：', err);
+  }
+  return presets;
+};
+
+// 同名预设会被覆盖
+export const saveAggregationPreset = (name: string, rules: AggregationRules) => {
+  const presets = loadAggregationPresets().filter(preset => preset.name !== name);
+  return storePresets([...presets, { name, rules }]);
+};
+
+export const deleteAggregationPreset = (name: string) => {
+  return storePresets(loadAggregationPresets().filter(preset => preset.name !== name));
+};
@@ -0,0 +1,23 @@
+import { toRememberedAliases } from '../core';
+import type { ColumnMapping } from '../core';
+
+// 只保存列名之间的对应关系（不含任何数据），存放在浏览器本地的 localStorage 中
+const STORAGE_KEY = 'wxad-report-comments:column-aliases';
+
+export const loadRememberedAliases = (): Record<string, string> => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) as Record<string, string> : {};
+  } catch {
+    return {};
+  }
+};
+
+export const rememberColumnMapping = (columns: string[], mapping: ColumnMapping) => {
+  try {
+    const aliases = { ...loadRememberedAliases(), ...toRememberedAliases(columns, mapping) };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(aliases));
+  } catch (err) {
+    console.warn('保存列映射失败：', err);
+  }
+};
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { tableOf } from '../core/testFixtures';
+import { getSessionId, hashContent, listSessions, saveSession, toSavedSession } from './sessionStore';
+
+const table = tableOf(['opinion', 'raw_comments', 'tf'], 'a.txt')([
+  ['好看', '颜值高', '1'],
+  ['贵', '太贵', '0'],
+  ['实惠', '便宜', ''],
+  ['一般', '还行', '是']
+]);
+
+describe('hashContent', () => {
+  it('返回文件内容的 SHA-256 十六进制摘要', async () => {
+    const buffer = new TextEncoder().encode('abc').buffer as ArrayBuffer;
+    expect(await hashContent(buffer)).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+  });
+});
+
+describe('toSavedSession', () => {
+  it('以源文件名与内容哈希为键，只把 tf 为 0 或 1 的行计为已标注', () => {
+    expect(toSavedSession({ ...table, contentHash: 'abc' }, 1)).toMatchObject({
+      id: getSessionId('a.txt', 'abc'),
+      rowCount: 4,
+      labeledCount: 2,
+      updatedAt: 1
+    });
+    expect(getSessionId('a.txt', 'abc')).not.toBe(getSessionId('a.txt', 'abd'));
+  });
+
+  it('没有内容哈希的表格不保存', async () => {
+    expect(toSavedSession(table, 1)).toBeNull();
+    await expect(saveSession(table)).resolves.toBeUndefined();
+  });
+});
+
+describe('listSessions', () => {
+  it('不支持 IndexedDB 时报错', async () => {
+    await expect(listSessions()).rejects.toThrow('当前浏览器不支持 IndexedDB');
+  });
+});
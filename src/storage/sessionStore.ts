@@ -0,0 +1,105 @@
+import type { ProcessedTableData } from '../core';
+
+// 标注会话仅保存在浏览器本地的 IndexedDB 中，不会上传到任何服务器
+const DB_NAME = 'wxad-report-comments';
+const DB_VERSION = 1;
+const SESSION_STORE = 'sessions';
+
+export type SavedSession = {
+  id: string;
+  sourceFileName: string;
+  contentHash: string;
+  tableData: ProcessedTableData;
+  rowCount: number;
+  labeledCount: number;
+  updatedAt: number;
+};
+
+// 会话以「源文件名 + 文件内容哈希」为键
+export const getSessionId = (sourceFileName: string, contentHash: string) => {
+  return `${sourceFileName}::${contentHash}`;
+};
+
+export const hashContent = async (buffer: ArrayBuffer) => {
+  const digest = await crypto.subtle.digest('SHA-256', buffer);
+  return Array.from(new Uint8Array(digest))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('当前浏览器不支持 IndexedDB'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSION_STORE)) {
+          db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // 打开失败时允许下次重试
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+) => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(SESSION_STORE, mode);
+    const request = makeRequest(tx.objectStore(SESSION_STORE));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+const countLabeled = (tableData: ProcessedTableData) => {
+  const tfIndex = tableData.columns.indexOf('tf');
+  if (tfIndex < 0) return 0;
+  return tableData.rows.filter(row => row[tfIndex] === '0' || row[tfIndex] === '1').length;
+};
+
+// 保存到 IndexedDB 的会话记录；没有内容哈希（无法判断是否为同一文件）的表格不保存
+export const toSavedSession = (tableData: ProcessedTableData, updatedAt: number): SavedSession | null => {
+  if (!tableData.contentHash) return null;
+  return {
+    id: getSessionId(tableData.sourceFileName, tableData.contentHash),
+    sourceFileName: tableData.sourceFileName,
+    contentHash: tableData.contentHash,
+    tableData,
+    rowCount: tableData.rows.length,
+    labeledCount: countLabeled(tableData),
+    updatedAt
+  };
+};
+
+export const saveSession = async (tableData: ProcessedTableData) => {
+  const session = toSavedSession(tableData, Date.now());
+  if (!session) return;
+  await runRequest('readwrite', store => store.put(session));
+};
+
+// 按最近修改时间倒序返回所有已保存的会话
+export const listSessions = async () => {
+  const sessions = await runRequest<SavedSession[]>('readonly', store => store.getAll());
+  return sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const deleteSession = async (id: string) => {
+  await runRequest('readwrite', store => store.delete(id));
+};
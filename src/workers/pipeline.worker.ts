@@ -0,0 +1,272 @@
+import * as XLSX from 'xlsx';
+import {
+  annotatedWorkbookToTableData,
+  buildDroppedFiles,
+  buildOutputData,
+  buildOutputFileName,
+  buildOutputZipName,
+  createZip,
+  decodeText,
+  detectEncoding,
+  dedupeFileNames,
+  detectGarbledText,
+  groupRowsBySource,
+  inspectRawText,
+  inspectWorkbook,
+  listWorkbookSheets,
+  OUTPUT_FORMATS,
+  processRawText,
+  readAnnotatedSheets,
+  SOURCE_FILE_COLUMN,
+  tableDataToDataRows,
+  transformAndAggregate
+} from '../core';
+import type {
+  ColumnInspection,
+  ColumnMapping,
+  DataRow,
+  Dialect,
+  PipelineProgress,
+  ProcessedTableData,
+  SheetSummary,
+  TextEncodingId
+} from '../core';
+import { hashContent } from '../storage/sessionStore';
+import type {
+  AggregateOutput,
+  PipelineRequest,
+  PipelineResponse,
+  RawFileInspection,
+  RawProcessOutput,
+  SourceAggregateOutput
+} from './pipelineClient';
+
+const post = (message: PipelineResponse) => {
+  self.postMessage(message);
+};
+
+const reportProgress = (progress: PipelineProgress) => {
+  post({ type: 'progress', progress });
+};
+
+// 列映射预览只需要表头和前几行，TXT 只读取文件开头的一部分
+const INSPECT_BYTES = 256 * 1024;
+const INSPECT_SAMPLE_ROWS = 5;
+
+const inspectRawFile = async (file: File, dialect?: Dialect, encoding?: TextEncodingId): Promise<RawFileInspection> => {
+  const bytes = new Uint8Array(await file.slice(0, INSPECT_BYTES).arrayBuffer());
+  const resolvedEncoding = encoding ?? detectEncoding(bytes);
+  const partial = file.size > INSPECT_BYTES;
+  const text = decodeText(bytes, resolvedEncoding, partial);
+  // 丢弃被截断的最后一行
+  const complete = partial ? text.slice(0, text.lastIndexOf('\n') + 1) : text;
+  return {
+    ...inspectRawText(complete || text, INSPECT_SAMPLE_ROWS, dialect),
+    encoding: resolvedEncoding,
+    garbled: detectGarbledText(text)
+  };
+};
+
+const inspectExcelFile = async (file: File, sheetName?: string): Promise<ColumnInspection> => {
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array', sheetRows: INSPECT_SAMPLE_ROWS + 1 });
+  return inspectWorkbook(workbook, INSPECT_SAMPLE_ROWS, sheetName);
+};
+
+// 工作表列表只需要表头，行数按完整范围计算
+const listExcelSheets = async (file: File): Promise<SheetSummary[]> => {
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array', sheetRows: 1 });
+  return listWorkbookSheets(workbook);
+};
+
+const processRawFile = async (
+  { file, mapping, dialect, encoding, repairs, splitRules }: Extract<PipelineRequest, { type: 'processRawFile' }>
+): Promise<RawProcessOutput> => {
+  const buffer = await file.arrayBuffer();
+  const text = decodeText(buffer, encoding ?? detectEncoding(new Uint8Array(buffer)));
+  const contentHash = await hashContent(buffer);
+  const { tableData, diagnostics } = processRawText(text, file.name, {
+    onProgress: reportProgress,
+    mapping,
+    dialect,
+    repairs,
+    splitRules
+  });
+  return {
+    tableData: { ...tableData, contentHash },
+    diagnostics
+  };
+};
+
+// 离线标注的 Excel → 可在线编辑的表格数据
+const importAnnotatedFile = async (file: File, mapping?: ColumnMapping): Promise<ProcessedTableData> => {
+  const buffer = await file.arrayBuffer();
+  const contentHash = await hashContent(buffer);
+  const workbook = XLSX.read(buffer, { type: 'array' });
+  return {
+    ...annotatedWorkbookToTableData(workbook, file.name, mapping),
+    contentHash
+  };
+};
+
+// 聚合相关的设置，所有聚合请求共用
+type AggregateOptions = Pick<
+  Extract<PipelineRequest, { type: 'aggregateTable' }>,
+  'splitRules' | 'aggregationRules' | 'format'
+>;
+
+// 第一步中删除的行与解析排除的行，仅在处理第一步的表格时存在，用于审计
+type StepOneRecords = Pick<ProcessedTableData, 'deletedRows' | 'excludedLines'>;
+
+const aggregate = (
+  rows: DataRow[],
+  columns: string[],
+  sourceFileName: string,
+  { splitRules, aggregationRules, format = 'csv' }: AggregateOptions,
+  { deletedRows, excludedLines }: StepOneRecords = {}
+): AggregateOutput => {
+  const result = transformAndAggregate(rows, columns, reportProgress, splitRules, aggregationRules);
+  const { extension, mimeType } = OUTPUT_FORMATS[format];
+  const outputFileName = buildOutputFileName(result.renamedData, sourceFileName, extension);
+  return {
+    ...result,
+    data: buildOutputData(result.renamedData, result.outputColumns, format, result.columnDtypes),
+    mimeType,
+    outputFileName,
+    ...buildDroppedFiles(result.renamedData, result.droppedData, result.outputColumns, sourceFileName, format, result.columnDtypes),
+    details: {
+      fileName: outputFileName,
+      renamedData: result.renamedData,
+      groupSummaries: result.groupSummaries,
+      columns,
+      aggregationRules,
+      deletedRows,
+      excludedLines
+    }
+  };
+};
+
+// 按 source_file 列拆分后分别聚合，每个来源文件生成一个输出文件，与被过滤的组的文件一起打包为 zip
+const aggregateBySource = (
+  rows: DataRow[],
+  columns: string[],
+  sourceFileName: string,
+  options: AggregateOptions,
+  records: StepOneRecords = {}
+): SourceAggregateOutput => {
+  // 删除的行与排除的行同样按来源文件归入各输出
+  const sourceIndex = columns.indexOf(SOURCE_FILE_COLUMN);
+  const recordsOf = (source: string): StepOneRecords => ({
+    deletedRows: records.deletedRows?.filter(d => (d.cells[sourceIndex] || sourceFileName) === source),
+    excludedLines: records.excludedLines?.filter(line => (line.sourceFileName ?? sourceFileName) === source)
+  });
+  const results = Array.from(groupRowsBySource(rows, sourceFileName))
+    .map(([source, sourceRows]) => ({
+      source,
+      output: aggregate(sourceRows, columns, source, options, recordsOf(source))
+    }));
+  // 被过滤的组的文件只在有被过滤的组时打包
+  const extraFiles = results.flatMap(({ output }) => {
+    return output.droppedFile && output.keptAndDroppedFile ? [output.droppedFile, output.keptAndDroppedFile] : [];
+  });
+  // 输出文件在前，重名时优先保留输出文件的文件名
+  const fileNames = dedupeFileNames([
+    ...results.map(({ output }) => output.outputFileName),
+    ...extraFiles.map(file => file.fileName)
+  ]);
+
+  return {
+    outputs: results.map(({ source, output }, i) => ({
+      sourceFileName: source,
+      outputFileName: fileNames[i],
+      rowCount: output.renamedData.length,
+      groupCount: output.groupCount,
+      droppedCount: output.droppedData.length,
+      details: { ...output.details, fileName: fileNames[i] }
+    })),
+    zipData: createZip([
+      ...results.map(({ output }, i) => ({ name: fileNames[i], data: output.data })),
+      ...extraFiles.map((file, i) => ({ name: fileNames[results.length + i], data: file.data }))
+    ]),
+    outputFileName: buildOutputZipName(sourceFileName)
+  };
+};
+
+// 读取选中的工作表（默认第一个）；选中多个时合并，来源记为各工作表
+const readAggregateFile = async (file: File, mapping?: ColumnMapping, sheetNames: string[] = []) => {
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array', cellNF: true });
+  return readAnnotatedSheets(workbook, sheetNames, file.name, mapping);
+};
+
+const aggregateFile = async (
+  { file, mapping, sheetNames, ...options }: Extract<PipelineRequest, { type: 'aggregateFile' }>
+) => {
+  const { columns, rows } = await readAggregateFile(file, mapping, sheetNames);
+  return aggregate(rows, columns, file.name, options);
+};
+
+const aggregateFileBySource = async (
+  { file, mapping, sheetNames, ...options }: Extract<PipelineRequest, { type: 'aggregateFileBySource' }>
+) => {
+  const { columns, rows } = await readAggregateFile(file, mapping, sheetNames);
+  return aggregateBySource(rows, columns, file.name, options);
+};
+
+const aggregateTable = (
+  { tableData, splitRules, ...options }: Extract<PipelineRequest, { type: 'aggregateTable' }>
+) => {
+  const { columns, rows } = tableDataToDataRows(tableData);
+  return aggregate(
+    rows,
+    columns,
+    tableData.sourceFileName,
+    { ...options, splitRules: splitRules ?? tableData.splitRules },
+    tableData
+  );
+};
+
+const aggregateTableBySource = (
+  { tableData, splitRules, ...options }: Extract<PipelineRequest, { type: 'aggregateTableBySource' }>
+) => {
+  const { columns, rows } = tableDataToDataRows(tableData);
+  return aggregateBySource(rows, columns, tableData.sourceFileName, {
+    ...options,
+    splitRules: splitRules ?? tableData.splitRules
+  }, tableData);
+};
+
+self.onmessage = async (event: MessageEvent<PipelineRequest>) => {
+  const request = event.data;
+  try {
+    switch (request.type) {
+      case 'inspectRawFile':
+        post({ type: 'done', result: await inspectRawFile(request.file, request.dialect, request.encoding) });
+        break;
+      case 'inspectExcelFile':
+        post({ type: 'done', result: await inspectExcelFile(request.file, request.sheetName) });
+        break;
+      case 'listExcelSheets':
+        post({ type: 'done', result: await listExcelSheets(request.file) });
+        break;
+      case 'processRawFile':
+        post({ type: 'done', result: await processRawFile(request) });
+        break;
+      case 'importAnnotatedFile':
+        post({ type: 'done', result: await importAnnotatedFile(request.file, request.mapping) });
+        break;
+      case 'aggregateFile':
+        post({ type: 'done', result: await aggregateFile(request) });
+        break;
+      case 'aggregateTable':
+        post({ type: 'done', result: aggregateTable(request) });
+        break;
+      case 'aggregateFileBySource':
+        post({ type: 'done', result: await aggregateFileBySource(request) });
+        break;
+      case 'aggregateTableBySource':
+        post({ type: 'done', result: aggregateTableBySource(request) });
+        break;
+    }
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};
@@ -0,0 +1,199 @@
+import type {
+  AggregateResult,
+  AggregationRules,
+  ColumnInspection,
+  ColumnMapping,
+  CommentSplitRules,
+  DataRow,
+  DeletedRow,
+  Dialect,
+  ExcludedLine,
+  GarbledTextReport,
+  GroupSummary,
+  LineRepairs,
+  OutputFormat,
+  ParseDiagnostics,
+  PipelineProgress,
+  ProcessedTableData,
+  RawTextInspection,
+  SheetSummary,
+  TextEncodingId
+} from '../core';
+
+// TXT 预览：除格式与前几行外，还包含识别出的编码和乱码检测结果
+export type RawFileInspection = RawTextInspection & {
+  encoding: TextEncodingId;
+  garbled: GarbledTextReport;
+};
+
+export type PipelineRequest =
+  | { type: 'inspectRawFile'; file: File; dialect?: Dialect; encoding?: TextEncodingId }
+  | { type: 'inspectExcelFile'; file: File; sheetName?: string }
+  | { type: 'listExcelSheets'; file: File }
+  | {
+    type: 'processRawFile';
+    file: File;
+    mapping?: ColumnMapping;
+    dialect?: Dialect;
+    encoding?: TextEncodingId;
+    repairs?: LineRepairs;
+    splitRules?: CommentSplitRules;
+  }
+  | { type: 'importAnnotatedFile'; file: File; mapping?: ColumnMapping }
+  | {
+    type: 'aggregateFile';
+    file: File;
+    mapping?: ColumnMapping;
+    splitRules?: CommentSplitRules;
+    aggregationRules?: AggregationRules;
+    sheetNames?: string[];
+    format?: OutputFormat;
+  }
+  | {
+    type: 'aggregateTable';
+    tableData: ProcessedTableData;
+    splitRules?: CommentSplitRules;
+    aggregationRules?: AggregationRules;
+    format?: OutputFormat;
+  }
+  | {
+    type: 'aggregateFileBySource';
+    file: File;
+    mapping?: ColumnMapping;
+    splitRules?: CommentSplitRules;
+    aggregationRules?: AggregationRules;
+    sheetNames?: string[];
+    format?: OutputFormat;
+  }
+  | {
+    type: 'aggregateTableBySource';
+    tableData: ProcessedTableData;
+    splitRules?: CommentSplitRules;
+    aggregationRules?: AggregationRules;
+    format?: OutputFormat;
+  };
+
+export type RawProcessOutput = {
+  tableData: ProcessedTableData;
+  diagnostics: ParseDiagnostics;
+};
+
+// 输出的附加文件（被过滤的组、保留与过滤合并的 xlsx）
+export type OutputFile = {
+  data: Uint8Array<ArrayBuffer>;
+  mimeType: string;
+  fileName: string;
+};
+
+// 生成结果汇总、结案报告与审计所需的数据；这些内容只在用户查看时按需生成
+export type OutputDetails = {
+  // 对应的输出文件名，报告与审计表的文件名由此生成
+  fileName: string;
+  renamedData: DataRow[];
+  groupSummaries: GroupSummary[];
+  // 聚合前的列与使用的聚合规则，审计时按同样的分组规则归入第一步删除的行
+  columns: string[];
+  aggregationRules?: AggregationRules;
+  deletedRows?: DeletedRow[];
+  excludedLines?: ExcludedLine[];
+};
+
+// data 为按所选输出格式生成的文件内容（默认 CSV）
+export type AggregateOutput = AggregateResult & {
+  data: Uint8Array<ArrayBuffer>;
+  mimeType: string;
+  outputFileName: string;
+  // 被过滤的组，格式与输出文件相同（没有被过滤的组时不生成）
+  droppedFile?: OutputFile;
+  // kept 与 dropped 两个工作表的 xlsx（没有被过滤的组时不生成）
+  keptAndDroppedFile?: OutputFile;
+  details: OutputDetails;
+};
+
+// 按 source_file 列中的来源文件分别生成的输出文件
+export type SourceOutputSummary = {
+  sourceFileName: string;
+  outputFileName: string;
+  rowCount: number;
+  groupCount: number;
+  // 被过滤的组数
+  droppedCount: number;
+  details: OutputDetails;
+};
+
+// 按来源文件分别输出：各输出文件打包为一个 zip
+export type SourceAggregateOutput = {
+  outputs: SourceOutputSummary[];
+  zipData: Uint8Array<ArrayBuffer>;
+  outputFileName: string;
+};
+
+type PipelineResults = {
+  inspectRawFile: RawFileInspection;
+  inspectExcelFile: ColumnInspection;
+  listExcelSheets: SheetSummary[];
+  processRawFile: RawProcessOutput;
+  importAnnotatedFile: ProcessedTableData;
+  aggregateFile: AggregateOutput;
+  aggregateTable: AggregateOutput;
+  aggregateFileBySource: SourceAggregateOutput;
+  aggregateTableBySource: SourceAggregateOutput;
+};
+
+export type PipelineResponse =
+  | { type: 'progress'; progress: PipelineProgress }
+  | { type: 'done'; result: PipelineResults[keyof PipelineResults] }
+  | { type: 'error'; message: string };
+
+export type PipelineTask<T> = {
+  promise: Promise<T>;
+  cancel: () => void;
+};
+
+export const isCancelledError = (err: unknown) => {
+  return err instanceof DOMException && err.name === 'AbortError';
+};
+
+/**
+ * 在独立的 Web Worker 中执行耗时的解析/聚合步骤，避免阻塞页面。
+ * 每个任务使用一个新的 Worker，取消时直接终止该 Worker。
+ */
+export const runPipelineTask = <R extends PipelineRequest>(
+  request: R,
+  onProgress?: (progress: PipelineProgress) => void
+): PipelineTask<PipelineResults[R['type']]> => {
+  const worker = new Worker(new URL('./pipeline.worker.ts', import.meta.url), { type: 'module' });
+  let settle: ((err?: unknown) => void) | null = null;
+
+  const promise = new Promise<PipelineResults[R['type']]>((resolve, reject) => {
+    settle = (err?: unknown) => {
+      settle = null;
+      worker.terminate();
+      if (err) reject(err);
+    };
+
+    worker.onmessage = (event: MessageEvent<PipelineResponse>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.progress);
+      } else if (message.type === 'done') {
+        settle?.();
+        resolve(message.result as PipelineResults[R['type']]);
+      } else {
+        settle?.(new Error(message.message));
+      }
+    };
+    worker.onerror = (event) => {
+      event.preventDefault();
+      settle?.(new Error(event.message || '后台处理线程出错'));
+    };
+
+    worker.postMessage(request);
+  });
+
+  const cancel = () => {
+    settle?.(new DOMException('处理已取消', 'AbortError'));
+  };
+
+  return { promise, cancel };
+};